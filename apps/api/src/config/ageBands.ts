@@ -0,0 +1,54 @@
+import type { AgeBand } from "../types/domain.js";
+
+export const DEFAULT_AGE_BAND: AgeBand = "7-10";
+
+// What changes with the listener's age: how deep research goes, how long and plain replies are, and how TTS paces them.
+export type AgeBandProfile = {
+  audience: string;
+  factCount: { min: number; max: number };
+  researchFocus: string;
+  vocabulary: string;
+  openingWordLimit: number;
+  followupWordLimit: number;
+  ttsPacing: string;
+  // Limits a reply or fact must stay within to count as readable for the band; see ReadabilityService.
+  // Rare words are those of `rareWordSyllables` or more syllables that young children do not hear every day.
+  readability: { maxGrade: number; maxSentenceWords: number; rareWordSyllables: number; maxRareWordShare: number };
+};
+
+export const AGE_BAND_PROFILES: Record<AgeBand, AgeBandProfile> = {
+  "4-6": {
+    audience: "children ages 4-6",
+    factCount: { min: 3, max: 4 },
+    researchFocus:
+      "Pick concrete facts a young child can picture: size, color, sound, what it eats or does, compared with everyday things. Skip dates and abstract causes.",
+    vocabulary: "Use very short sentences and everyday words a 5-year-old knows; compare big numbers to familiar things instead of giving figures.",
+    openingWordLimit: 50,
+    followupWordLimit: 45,
+    ttsPacing: "Speak slowly and clearly, with short pauses between sentences and playful, gentle energy for children ages 4-6",
+    readability: { maxGrade: 4, maxSentenceWords: 14, rareWordSyllables: 3, maxRareWordShare: 0.03 },
+  },
+  "7-10": {
+    audience: "children ages 7-10",
+    factCount: { min: 4, max: 6 },
+    researchFocus: "Prefer facts that spark curiosity (surprises, myths vs truth, design secrets, big turning points).",
+    vocabulary: "Use short spoken sentences and simple words a 7-year-old can understand.",
+    openingWordLimit: 90,
+    followupWordLimit: 80,
+    ttsPacing: "Use natural pacing, warm intonation, and expressive but gentle energy for children ages 7-10",
+    readability: { maxGrade: 7, maxSentenceWords: 20, rareWordSyllables: 4, maxRareWordShare: 0.06 },
+  },
+  "11-13": {
+    audience: "children ages 11-13",
+    factCount: { min: 5, max: 7 },
+    researchFocus:
+      "Go deeper: how and why it works, cause and effect, numbers with units, and how experts found out. Myths vs truth are welcome.",
+    vocabulary: "Use clear sentences and real subject words, explaining any technical term briefly the first time it comes up.",
+    openingWordLimit: 120,
+    followupWordLimit: 110,
+    ttsPacing: "Use natural conversational pacing and a friendly, confident tone for children ages 11-13, without sounding sing-song",
+    readability: { maxGrade: 10, maxSentenceWords: 28, rareWordSyllables: 5, maxRareWordShare: 0.1 },
+  },
+};
+
+export const ageBandProfile = (ageBand: AgeBand = DEFAULT_AGE_BAND): AgeBandProfile => AGE_BAND_PROFILES[ageBand];
@@ -17,16 +17,69 @@ const voiceProvider = (() => {
   return "gemini";
 })();
 
+const storeDriver = ((): "memory" | "sqlite" => {
+  const value = (process.env.STORE_DRIVER ?? "sqlite").toLowerCase();
+  return value === "memory" ? "memory" : "sqlite";
+})();
+
+const malwareScanner = ((): "clamd" | "stand-in" => {
+  return (process.env.MALWARE_SCANNER ?? "stand-in").toLowerCase() === "clamd" ? "clamd" : "stand-in";
+})();
+
+const traceExporter = ((): "none" | "file" | "otlp" => {
+  const value = (process.env.TRACE_EXPORTER ?? "none").toLowerCase();
+  return value === "file" || value === "otlp" ? value : "none";
+})();
+
+const citationFetcher = ((): "http" | "fixture" => {
+  return (process.env.CITATION_FETCHER ?? "http").toLowerCase() === "fixture" ? "fixture" : "http";
+})();
+
+const dataDir = process.env.DATA_DIR ?? path.resolve(process.cwd(), "data");
+
 export const env = {
   port: Number(process.env.PORT ?? 8787),
   apiBaseUrl: process.env.API_BASE_URL ?? "http://localhost:8787",
   webBaseUrl: process.env.WEB_BASE_URL ?? "http://localhost:5173",
   sessionTtlMinutes: Number(process.env.SESSION_TTL_MINUTES ?? 60),
+  parentSessionTtlMinutes: Number(process.env.PARENT_SESSION_TTL_MINUTES ?? 10080),
   uploadTtlMinutes: Number(process.env.UPLOAD_TTL_MINUTES ?? 10),
+  signedUrlTtlMinutes: Number(process.env.SIGNED_URL_TTL_MINUTES ?? 60),
+  eventsUrlTtlMinutes: Number(process.env.EVENTS_URL_TTL_MINUTES ?? 5),
+  urlSigningSecret: process.env.URL_SIGNING_SECRET,
   factCacheTtlMinutes: Number(process.env.FACT_CACHE_TTL_MINUTES ?? 1440),
+  retentionSweepIntervalMinutes: Number(process.env.RETENTION_SWEEP_INTERVAL_MINUTES ?? 15),
+  retentionUploadMinutes: Number(process.env.RETENTION_UPLOAD_MINUTES ?? 1440),
+  retentionAudioMinutes: Number(process.env.RETENTION_AUDIO_MINUTES ?? 1440),
+  retentionAnalysisMinutes: Number(process.env.RETENTION_ANALYSIS_MINUTES ?? 10080),
+  retentionExpiredSessionMinutes: Number(process.env.RETENTION_EXPIRED_SESSION_MINUTES ?? 1440),
+  analysisWorkerConcurrency: Number(process.env.ANALYSIS_WORKER_CONCURRENCY ?? 4),
+  analysisStageRetries: Number(process.env.ANALYSIS_STAGE_RETRIES ?? 2),
+  analysisRetryBaseDelayMs: Number(process.env.ANALYSIS_RETRY_BASE_DELAY_MS ?? 500),
+  analysisVisionTimeoutMs: Number(process.env.ANALYSIS_VISION_TIMEOUT_MS ?? 20000),
+  analysisResearchTimeoutMs: Number(process.env.ANALYSIS_RESEARCH_TIMEOUT_MS ?? 20000),
+  analysisTtsTimeoutMs: Number(process.env.ANALYSIS_TTS_TIMEOUT_MS ?? 15000),
+  imageDedupeMaxDistance: Number(process.env.IMAGE_DEDUPE_MAX_DISTANCE ?? 6),
   maxImageBytes: Number(process.env.MAX_IMAGE_BYTES ?? 8 * 1024 * 1024),
+  maxImagePixels: Number(process.env.MAX_IMAGE_PIXELS ?? 40_000_000),
+  malwareScanner,
+  clamdHost: process.env.CLAMD_HOST ?? "127.0.0.1",
+  clamdPort: Number(process.env.CLAMD_PORT ?? 3310),
+  clamdSocket: process.env.CLAMD_SOCKET,
+  clamdTimeoutMs: Number(process.env.CLAMD_TIMEOUT_MS ?? 10000),
+  traceExporter,
+  traceFilePath: process.env.TRACE_FILE ?? path.resolve(dataDir, "traces.jsonl"),
+  otlpTracesEndpoint: process.env.OTLP_TRACES_ENDPOINT ?? "http://127.0.0.1:4318/v1/traces",
+  traceExportTimeoutMs: Number(process.env.TRACE_EXPORT_TIMEOUT_MS ?? 5000),
+  citationFetcher,
+  citationFixtureDir: process.env.CITATION_FIXTURE_DIR ?? path.resolve(dataDir, "citations"),
+  citationFetchTimeoutMs: Number(process.env.CITATION_FETCH_TIMEOUT_MS ?? 4000),
+  citationCacheTtlMinutes: Number(process.env.CITATION_CACHE_TTL_MINUTES ?? 1440),
+  citationMaxPageBytes: Number(process.env.CITATION_MAX_PAGE_BYTES ?? 2 * 1024 * 1024),
+  citationModelCheck: bool(process.env.CITATION_MODEL_CHECK, false),
   geminiRequestTimeoutMs: Number(process.env.GEMINI_REQUEST_TIMEOUT_MS ?? 6000),
   voiceRequestTimeoutMs: Number(process.env.VOICE_REQUEST_TIMEOUT_MS ?? 6000),
+  ttsCacheMaxBytes: Number(process.env.TTS_CACHE_MAX_BYTES ?? 256 * 1024 * 1024),
   geminiApiKey: process.env.GEMINI_API_KEY,
   geminiModel: process.env.GEMINI_MODEL ?? "gemini-2.0-flash",
   geminiTtsModel: process.env.GEMINI_TTS_MODEL ?? "gemini-2.5-flash-preview-tts",
@@ -45,6 +98,11 @@ export const env = {
   voiceInventor: process.env.ELEVENLABS_VOICE_INVENTOR,
   voiceProvider,
   strictSafety: bool(process.env.STRICT_SAFETY, true),
-  adminKey: process.env.ADMIN_KEY ?? "parent-mode",
-  dataDir: process.env.DATA_DIR ?? path.resolve(process.cwd(), "data"),
+  adminBootstrapUsername: process.env.ADMIN_BOOTSTRAP_USERNAME ?? "owner",
+  adminBootstrapPassword: process.env.ADMIN_BOOTSTRAP_PASSWORD,
+  adminSessionTtlMinutes: Number(process.env.ADMIN_SESSION_TTL_MINUTES ?? 720),
+  adminApiKeyTtlDays: Number(process.env.ADMIN_API_KEY_TTL_DAYS ?? 90),
+  dataDir,
+  storeDriver,
+  sqlitePath: process.env.SQLITE_PATH ?? path.resolve(dataDir, "wondertalk.db"),
 };
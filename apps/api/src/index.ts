@@ -1,10 +1,33 @@
 import "dotenv/config";
 import { env } from "./config/env.js";
 import { createApp } from "./app.js";
+import { adminAuthService } from "./services/adminAuthService.js";
+import { analysisService } from "./services/analysisService.js";
+import { retentionService } from "./services/retentionService.js";
 import { logger } from "./utils/logger.js";
+import { hasSharedSigningSecret } from "./utils/signedUrls.js";
+
+const interrupted = analysisService.failInterrupted();
+if (interrupted > 0) {
+  logger.warn("Failed analyses left unfinished by the previous run", { count: interrupted });
+}
 
 const app = createApp();
 
 app.listen(env.port, () => {
   logger.info(`WonderTalk API running on http://localhost:${env.port}`);
 });
+
+retentionService.start();
+
+if (env.malwareScanner !== "clamd") {
+  logger.warn("MALWARE_SCANNER is not clamd; uploads only get structural checks and the EICAR stand-in");
+}
+
+if (!hasSharedSigningSecret()) {
+  logger.warn("URL_SIGNING_SECRET is not set; signed media URLs will only verify on this instance");
+}
+
+void adminAuthService.bootstrap().catch((error) => {
+  logger.error("Admin bootstrap failed", { error: String(error) });
+});
@@ -0,0 +1,48 @@
+import type { Request, Response } from "express";
+import { adminAuthService, type AdminPrincipal } from "../services/adminAuthService.js";
+import type { AdminScope } from "../types/domain.js";
+
+const resolvePrincipal = (req: Request): AdminPrincipal | null => {
+  const token = req.headers["x-admin-token"];
+  if (typeof token === "string" && token.length > 0) {
+    return adminAuthService.authenticateSession(token);
+  }
+
+  const apiKey = req.headers["x-admin-key"];
+  if (typeof apiKey === "string" && apiKey.length > 0) {
+    return adminAuthService.authenticateApiKey(apiKey);
+  }
+
+  return null;
+};
+
+// Every admin request, allowed or not, lands in the audit log once the response is sent.
+export const requireAdmin = (req: Request, res: Response, scope: AdminScope): AdminPrincipal | null => {
+  const principal = resolvePrincipal(req);
+  const allowed = Boolean(principal?.scopes.includes(scope));
+
+  res.on("finish", () => {
+    adminAuthService.recordAudit({
+      actorType: principal?.actorType ?? "anonymous",
+      actorId: principal?.actorId ?? null,
+      scope,
+      method: req.method,
+      path: req.originalUrl.split("?")[0],
+      outcome: allowed ? "allowed" : "denied",
+      statusCode: res.statusCode,
+      ip: req.ip || req.socket.remoteAddress || "unknown",
+    });
+  });
+
+  if (!principal) {
+    res.status(401).json({ error: "Admin credentials are required" });
+    return null;
+  }
+
+  if (!allowed) {
+    res.status(403).json({ error: `Missing admin scope ${scope}` });
+    return null;
+  }
+
+  return principal;
+};
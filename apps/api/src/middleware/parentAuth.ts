@@ -0,0 +1,24 @@
+import type { Request, Response } from "express";
+import { familyService } from "../services/familyService.js";
+import type { ParentAccount } from "../types/domain.js";
+
+export const extractParentToken = (req: Request): string | null => {
+  const token = req.headers["x-parent-token"];
+  return typeof token === "string" && token.length > 0 ? token : null;
+};
+
+export const requireParent = (req: Request, res: Response): { account: ParentAccount; token: string } | null => {
+  const token = extractParentToken(req);
+  if (!token) {
+    res.status(401).json({ error: "x-parent-token header is required" });
+    return null;
+  }
+
+  const account = familyService.validateParentToken(token);
+  if (!account) {
+    res.status(401).json({ error: "Invalid or expired parent token" });
+    return null;
+  }
+
+  return { account, token };
+};
@@ -7,8 +7,13 @@ type Counter = {
 
 const WINDOW_MS = 60_000;
 const MAX_REQUESTS_PER_WINDOW = 90;
+const LOGIN_WINDOW_MS = 15 * 60_000;
+const MAX_LOGINS_PER_WINDOW = 10;
 
 const buckets = new Map<string, Counter>();
+const loginBuckets = new Map<string, Counter>();
+
+const ipOf = (req: Request): string => req.ip || req.socket.remoteAddress || "unknown";
 
 const keyFor = (req: Request): string => {
   const fingerprint = req.headers["x-device-fingerprint"];
@@ -16,35 +21,50 @@ const keyFor = (req: Request): string => {
     return `fp:${fingerprint}`;
   }
 
-  const ip = req.ip || req.socket.remoteAddress || "unknown";
-  return `ip:${ip}`;
+  return `ip:${ipOf(req)}`;
 };
 
-export const rateLimit = (req: Request, res: Response, next: NextFunction): void => {
-  if (req.path === "/v1/health") {
-    next();
-    return;
-  }
-
-  const key = keyFor(req);
+// Counts a request against `key`; false once the window's budget is spent.
+const take = (counters: Map<string, Counter>, key: string, windowMs: number, max: number): boolean => {
   const now = Date.now();
-  const current = buckets.get(key);
+  const current = counters.get(key);
 
   if (!current || current.resetAt <= now) {
-    buckets.set(key, {
+    counters.set(key, {
       count: 1,
-      resetAt: now + WINDOW_MS,
+      resetAt: now + windowMs,
     });
+    return true;
+  }
+
+  if (current.count >= max) {
+    return false;
+  }
+
+  current.count += 1;
+  return true;
+};
+
+export const rateLimit = (req: Request, res: Response, next: NextFunction): void => {
+  if (req.path === "/v1/health") {
     next();
     return;
   }
 
-  if (current.count >= MAX_REQUESTS_PER_WINDOW) {
+  if (!take(buckets, keyFor(req), WINDOW_MS, MAX_REQUESTS_PER_WINDOW)) {
     res.status(429).json({ error: "Rate limit exceeded. Please slow down and try again." });
     return;
   }
 
-  current.count += 1;
-  buckets.set(key, current);
+  next();
+};
+
+// Password guessing gets a far smaller budget, keyed by address: the fingerprint header is the caller's to pick.
+export const loginRateLimit = (req: Request, res: Response, next: NextFunction): void => {
+  if (!take(loginBuckets, ipOf(req), LOGIN_WINDOW_MS, MAX_LOGINS_PER_WINDOW)) {
+    res.status(429).json({ error: "Too many login attempts. Please try again later." });
+    return;
+  }
+
   next();
 };
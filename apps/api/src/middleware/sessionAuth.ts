@@ -1,5 +1,6 @@
 import type { Request, Response } from "express";
 import { sessionService } from "../services/sessionService.js";
+import type { AgeBand } from "../types/domain.js";
 
 export const extractSessionCredentials = (
   req: Request,
@@ -15,11 +16,9 @@ export const extractSessionCredentials = (
 
   const authHeader = req.headers.authorization;
   const bearer = authHeader?.startsWith("Bearer ") ? authHeader.slice(7) : null;
+  // Never read from the query string, where it would end up in logs; progress streams use a signed URL instead.
   const token =
-    (req.headers["x-session-token"] as string | undefined) ??
-    (req.body?.token as string | undefined) ??
-    bearer ??
-    null;
+    (req.headers["x-session-token"] as string | undefined) ?? (req.body?.token as string | undefined) ?? bearer ?? null;
 
   return {
     sessionId,
@@ -27,7 +26,10 @@ export const extractSessionCredentials = (
   };
 };
 
-export const requireSession = (req: Request, res: Response): { sessionId: string; token: string } | null => {
+export const requireSession = (
+  req: Request,
+  res: Response,
+): { sessionId: string; token: string; childId?: string; ageBand?: AgeBand } | null => {
   const creds = extractSessionCredentials(req);
 
   if (!creds.sessionId || !creds.token) {
@@ -44,5 +46,7 @@ export const requireSession = (req: Request, res: Response): { sessionId: string
   return {
     sessionId: creds.sessionId,
     token: creds.token,
+    childId: session.childId,
+    ageBand: session.ageBand,
   };
 };
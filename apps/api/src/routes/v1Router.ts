@@ -2,24 +2,38 @@ import fs from "node:fs/promises";
 import express from "express";
 import { z } from "zod";
 import { env } from "../config/env.js";
+import { requireAdmin } from "../middleware/adminAuth.js";
+import { requireParent } from "../middleware/parentAuth.js";
+import { loginRateLimit } from "../middleware/rateLimit.js";
 import { requireSession } from "../middleware/sessionAuth.js";
+import { ADMIN_SCOPES, adminAuthService } from "../services/adminAuthService.js";
 import { adminService } from "../services/adminService.js";
-import { analysisService } from "../services/analysisService.js";
+import { TERMINAL_ANALYSIS_STAGES, analysisService, isAnalysisSettled } from "../services/analysisService.js";
 import { analyticsService } from "../services/analyticsService.js";
-import { conversationService } from "../services/conversationService.js";
-import { ingestionService } from "../services/ingestionService.js";
+import { OPENING_TURN_INPUT, conversationService, speakerNames } from "../services/conversationService.js";
+import { familyService } from "../services/familyService.js";
+import { SUPPORTED_IMAGE_TYPES, focusRegionFor, ingestionService } from "../services/ingestionService.js";
+import { knowledgeBaseService, type KnowledgeEntryInput } from "../services/knowledgeBaseService.js";
+import { REVIEW_TRANSITIONS, researchService, reviewStatusOf } from "../services/researchService.js";
+import { retentionService } from "../services/retentionService.js";
 import { sessionService } from "../services/sessionService.js";
 import { speechService } from "../services/speechService.js";
 import { uploadService } from "../services/uploadService.js";
 import { voiceService } from "../services/voiceService.js";
-import { store } from "../stores/inMemoryStore.js";
-import type { FeedbackSignal } from "../types/domain.js";
+import { store } from "../stores/index.js";
+import type { AdminScope, AnalysisProgressEvent, FeedbackSignal } from "../types/domain.js";
+import { signResourceUrl, verifyResourceSignature } from "../utils/signedUrls.js";
 
 export const v1Router = express.Router();
 
+const ageBandSchema = z.enum(["4-6", "7-10", "11-13"]);
+
 const sessionCreateSchema = z.object({
   locale: z.string().optional(),
   user_agent: z.string().optional(),
+  child_id: z.string().uuid().optional(),
+  // Overrides the child profile's band; without either the session is for ages 7-10.
+  age_band: ageBandSchema.optional(),
   device_capabilities: z
     .object({
       speechRecognition: z.boolean(),
@@ -28,9 +42,50 @@ const sessionCreateSchema = z.object({
     .optional(),
 });
 
+const parentCredentialsSchema = z.object({
+  email: z.string().email().max(254),
+  password: z.string().min(10).max(200),
+});
+
+const childCreateSchema = z.object({
+  nickname: z.string().trim().min(1).max(40),
+  age_band: ageBandSchema.optional(),
+});
+
+const childUpdateSchema = z.object({
+  nickname: z.string().trim().min(1).max(40).optional(),
+  age_band: ageBandSchema.optional(),
+});
+
+const adminScopesSchema = z.array(z.enum(ADMIN_SCOPES as [AdminScope, ...AdminScope[]])).min(1);
+
+const fractionSchema = z.number().min(0).max(1);
+
+// A tap sends just x/y; a drag adds width/height, with x/y as the box's top-left corner.
+const focusSelectionSchema = z
+  .object({
+    x: fractionSchema,
+    y: fractionSchema,
+    width: fractionSchema.positive().optional(),
+    height: fractionSchema.positive().optional(),
+  })
+  .refine((focus) => (focus.width === undefined) === (focus.height === undefined), {
+    message: "width and height go together",
+  })
+  .refine((focus) => focus.x + (focus.width ?? 0) <= 1.000001 && focus.y + (focus.height ?? 0) <= 1.000001, {
+    message: "focus box must lie inside the photo",
+  });
+
 const photoAnalyzeSchema = z.object({
   session_id: z.string().uuid(),
   image_url: z.string().url(),
+  focus: focusSelectionSchema.optional(),
+  // A second photo turns the analysis into a "meet each other" conversation between the two subjects.
+  partner_image_url: z.string().url().optional(),
+});
+
+const retargetSchema = z.object({
+  candidate_id: z.string().min(1),
 });
 
 const chatTurnSchema = z.object({
@@ -39,6 +94,7 @@ const chatTurnSchema = z.object({
   input_type: z.enum(["voice", "text"]),
   text: z.string().optional(),
   audio_blob_url: z.string().url().optional(),
+  addressee: z.enum(["primary", "partner", "both"]).optional(),
 });
 
 const feedbackSchema = z.object({
@@ -47,6 +103,37 @@ const feedbackSchema = z.object({
   signal: z.enum(["helpful", "boring", "unsafe", "incorrect"]),
 });
 
+const knowledgeEntrySchema = z.object({
+  label: z.string().trim().min(1).max(140),
+  category: z.enum(["landmark", "nature", "statue", "electronics", "science", "animal", "other"]),
+  aliases: z.array(z.string().trim().min(1).max(140)).max(25).optional(),
+  summary: z.string().trim().min(1).max(1000),
+  facts: z
+    .array(
+      z.object({
+        claim: z.string().trim().min(1).max(500),
+        source_urls: z.array(z.string().url()).min(1).max(5),
+        confidence: fractionSchema.optional(),
+        freshness_date: z.string().date().optional(),
+      }),
+    )
+    .min(1)
+    .max(12),
+});
+
+const knowledgeEntryInput = (data: z.infer<typeof knowledgeEntrySchema>): KnowledgeEntryInput => ({
+  label: data.label,
+  category: data.category,
+  aliases: data.aliases,
+  summary: data.summary,
+  facts: data.facts.map((fact) => ({
+    claim: fact.claim,
+    sourceUrls: fact.source_urls,
+    confidence: fact.confidence,
+    freshnessDate: fact.freshness_date,
+  })),
+});
+
 v1Router.get("/health", (_req, res) => {
   res.json({ ok: true, service: "wondertalk-api", timestamp: new Date().toISOString() });
 });
@@ -57,7 +144,26 @@ v1Router.post("/session/create", (req, res) => {
     return res.status(400).json({ error: "Invalid request", details: parsed.error.flatten() });
   }
 
+  let childId: string | undefined;
+  let ageBand = parsed.data.age_band;
+  if (parsed.data.child_id) {
+    const parent = requireParent(req, res);
+    if (!parent) {
+      return;
+    }
+
+    const child = familyService.getChild(parent.account.accountId, parsed.data.child_id);
+    if (!child) {
+      return res.status(404).json({ error: "Child profile not found" });
+    }
+
+    childId = child.childId;
+    ageBand ??= child.ageBand;
+  }
+
   const session = sessionService.createSession({
+    childId,
+    ageBand,
     locale: parsed.data.locale,
     userAgent: parsed.data.user_agent ?? req.headers["user-agent"] ?? "unknown",
     deviceCapabilities: parsed.data.device_capabilities,
@@ -65,11 +171,15 @@ v1Router.post("/session/create", (req, res) => {
 
   analyticsService.track("session_created", session.sessionId, {
     locale: session.locale,
+    childId: session.childId ?? null,
+    ageBand: session.ageBand ?? null,
   });
 
   return res.status(201).json({
     session_id: session.sessionId,
     token: session.token,
+    child_id: session.childId,
+    age_band: session.ageBand,
     expires_at: session.expiresAt,
   });
 });
@@ -92,6 +202,118 @@ v1Router.post("/session/rotate", (req, res) => {
   });
 });
 
+v1Router.post("/family/accounts", async (req, res) => {
+  const parsed = parentCredentialsSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid request", details: parsed.error.flatten() });
+  }
+
+  // The answer is the same whether or not the email is taken, so signing up cannot be used to look up accounts.
+  // The parent logs in next, which only the owner of the password can do.
+  try {
+    await familyService.createAccount(parsed.data);
+    return res.status(202).json({ ok: true });
+  } catch (error) {
+    return res.status(500).json({ error: String(error) });
+  }
+});
+
+v1Router.post("/family/login", async (req, res) => {
+  const parsed = parentCredentialsSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid request", details: parsed.error.flatten() });
+  }
+
+  try {
+    const loggedIn = await familyService.login(parsed.data);
+    if (!loggedIn) {
+      return res.status(401).json({ error: "Invalid email or password" });
+    }
+
+    return res.json({
+      account_id: loggedIn.account.accountId,
+      parent_token: loggedIn.token,
+      expires_at: loggedIn.expiresAt,
+    });
+  } catch (error) {
+    return res.status(500).json({ error: String(error) });
+  }
+});
+
+v1Router.post("/family/logout", (req, res) => {
+  const parent = requireParent(req, res);
+  if (!parent) {
+    return;
+  }
+
+  familyService.logout(parent.token);
+  return res.json({ ok: true });
+});
+
+v1Router.get("/family/children", (req, res) => {
+  const parent = requireParent(req, res);
+  if (!parent) {
+    return;
+  }
+
+  return res.json(familyService.listChildren(parent.account.accountId));
+});
+
+v1Router.post("/family/children", (req, res) => {
+  const parent = requireParent(req, res);
+  if (!parent) {
+    return;
+  }
+
+  const parsed = childCreateSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid request", details: parsed.error.flatten() });
+  }
+
+  const child = familyService.createChild(parent.account.accountId, {
+    nickname: parsed.data.nickname,
+    ageBand: parsed.data.age_band,
+  });
+
+  return res.status(201).json(child);
+});
+
+v1Router.patch("/family/children/:childId", (req, res) => {
+  const parent = requireParent(req, res);
+  if (!parent) {
+    return;
+  }
+
+  const parsed = childUpdateSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid request", details: parsed.error.flatten() });
+  }
+
+  const child = familyService.updateChild(parent.account.accountId, req.params.childId, {
+    nickname: parsed.data.nickname,
+    ageBand: parsed.data.age_band,
+  });
+
+  if (!child) {
+    return res.status(404).json({ error: "Child profile not found" });
+  }
+
+  return res.json(child);
+});
+
+v1Router.delete("/family/children/:childId", (req, res) => {
+  const parent = requireParent(req, res);
+  if (!parent) {
+    return;
+  }
+
+  if (!familyService.deleteChild(parent.account.accountId, req.params.childId)) {
+    return res.status(404).json({ error: "Child profile not found" });
+  }
+
+  return res.status(204).send();
+});
+
 v1Router.post("/photo/upload-url", async (req, res) => {
   const session = requireSession(req, res);
   if (!session) {
@@ -111,13 +333,12 @@ v1Router.post("/photo/upload-url", async (req, res) => {
 
 v1Router.put(
   "/upload/:uploadId",
-  express.raw({ type: ["image/jpeg", "image/png", "image/webp"], limit: env.maxImageBytes }),
+  express.raw({ type: SUPPORTED_IMAGE_TYPES, limit: env.maxImageBytes }),
   async (req, res) => {
     const { uploadId } = req.params;
-    const token = req.query.token;
-
-    if (typeof token !== "string") {
-      return res.status(400).json({ error: "token query param is required" });
+    const signed = verifyResourceSignature("upload", uploadId, req.query);
+    if (!signed) {
+      return res.status(403).json({ error: "Upload URL is invalid or expired" });
     }
 
     const mimeType = req.headers["content-type"];
@@ -131,7 +352,7 @@ v1Router.put(
         Buffer.isBuffer(req.body) ? req.body : req.body ? Buffer.from(req.body as ArrayBuffer) : Buffer.alloc(0);
       ingestionService.validateSize(body.byteLength);
 
-      await uploadService.acceptUpload(uploadId, token, body, mimeType);
+      await uploadService.acceptUpload(uploadId, signed.sessionId, body, mimeType);
       return res.status(200).json({ ok: true });
     } catch (error) {
       return res.status(400).json({ error: String(error) });
@@ -140,13 +361,29 @@ v1Router.put(
 );
 
 v1Router.get("/media/:uploadId", async (req, res) => {
+  if (!verifyResourceSignature("media", req.params.uploadId, req.query)) {
+    return res.status(403).json({ error: "Media URL is invalid or expired" });
+  }
+
   const item = uploadService.resolveImage(req.params.uploadId);
   if (!item?.filePath || !item.mimeType) {
     return res.status(404).json({ error: "Image not found" });
   }
 
-  const file = await fs.readFile(item.filePath);
+  let file: Buffer;
+  try {
+    file = await fs.readFile(item.filePath);
+  } catch (error) {
+    // Retention and quarantine delete the file, and the upload record can outlive it.
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return res.status(410).json({ error: "Image is no longer available" });
+    }
+
+    return res.status(500).json({ error: "Unable to read image" });
+  }
+
   res.setHeader("Content-Type", item.mimeType);
+  res.setHeader("Cache-Control", "private, max-age=300");
   return res.send(file);
 });
 
@@ -167,10 +404,18 @@ v1Router.post("/photo/analyze", (req, res) => {
 
   const analysis = analysisService.createAnalysis({
     sessionId: parsed.data.session_id,
+    childId: session.childId,
+    ageBand: session.ageBand,
     imageUrl: parsed.data.image_url,
+    focus: parsed.data.focus ? focusRegionFor(parsed.data.focus) : undefined,
+    partnerImageUrl: parsed.data.partner_image_url,
   });
 
-  return res.status(202).json({ analysis_id: analysis.analysisId, status: analysis.status });
+  return res.status(202).json({
+    analysis_id: analysis.analysisId,
+    status: analysis.status,
+    events_url: signResourceUrl("events", analysis.analysisId, session.sessionId, env.eventsUrlTtlMinutes).url,
+  });
 });
 
 v1Router.get("/photo/analyze/:analysisId", (req, res) => {
@@ -191,14 +436,131 @@ v1Router.get("/photo/analyze/:analysisId", (req, res) => {
   return res.json({
     analysis_id: analysis.analysisId,
     status: analysis.status,
+    stage: analysis.progress?.at(-1)?.stage,
     entity: analysis.entity,
+    candidates: analysis.candidates,
     hook_text: analysis.hookText,
     first_reply_text: analysis.firstReplyText,
     first_reply_audio_stream_url: analysis.firstReplyAudioStreamUrl,
+    partner_entity: analysis.partnerEntity,
+    partner_reply_text: analysis.partnerReplyText,
+    partner_reply_audio_stream_url: analysis.partnerReplyAudioStreamUrl,
     safety_status: analysis.safetyStatus,
     conversation_id: analysis.conversationId,
     error: analysis.error,
+    faces_detected: analysis.facesDetected,
+    faces_blurred: analysis.facesBlurred,
+    focus: analysis.focus,
+    error_code: analysis.errorCode,
+    retake_hint: analysis.retakeHint,
+  });
+});
+
+// EventSource cannot send headers, so the stream is opened with the signed `events_url` from starting the analysis.
+v1Router.get("/photo/analyze/:analysisId/events", (req, res) => {
+  const signed = verifyResourceSignature("events", req.params.analysisId, req.query);
+  if (!signed) {
+    return res.status(403).json({ error: "Event stream URL is invalid or expired" });
+  }
+
+  const analysis = analysisService.getAnalysis(req.params.analysisId);
+  if (!analysis) {
+    return res.status(404).json({ error: "analysis not found" });
+  }
+
+  if (analysis.sessionId !== signed.sessionId) {
+    return res.status(403).json({ error: "analysis/session mismatch" });
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+
+  const send = (event: AnalysisProgressEvent): boolean => {
+    res.write(`event: ${event.stage}\ndata: ${JSON.stringify({ stage: event.stage, ...event.data, created_at: event.createdAt })}\n\n`);
+    return TERMINAL_ANALYSIS_STAGES.has(event.stage);
+  };
+
+  // Replay what already happened, then stream live events; both run in the same tick so none are missed.
+  for (const event of analysis.progress ?? []) {
+    if (send(event)) {
+      return res.end();
+    }
+  }
+  // Nothing more will come for a settled analysis, even one whose log stops short of a terminal event.
+  if (isAnalysisSettled(analysis)) {
+    return res.end();
+  }
+
+  const heartbeat = setInterval(() => res.write(": keep-alive\n\n"), 15000);
+  const unsubscribe = analysisService.subscribe(analysis.analysisId, (event) => {
+    if (send(event)) {
+      close();
+    }
   });
+  const close = () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+    res.end();
+  };
+  req.on("close", close);
+});
+
+v1Router.post("/photo/analyze/:analysisId/retarget", (req, res) => {
+  const session = requireSession(req, res);
+  if (!session) {
+    return;
+  }
+
+  const parsed = retargetSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid request", details: parsed.error.flatten() });
+  }
+
+  const analysis = analysisService.getAnalysis(req.params.analysisId);
+  if (!analysis) {
+    return res.status(404).json({ error: "analysis not found" });
+  }
+
+  if (analysis.sessionId !== session.sessionId) {
+    return res.status(403).json({ error: "analysis/session mismatch" });
+  }
+
+  try {
+    const retargeted = analysisService.retargetAnalysis(analysis.analysisId, parsed.data.candidate_id);
+    return res.status(202).json({
+      analysis_id: retargeted.analysisId,
+      status: retargeted.status,
+      events_url: signResourceUrl("events", retargeted.analysisId, session.sessionId, env.eventsUrlTtlMinutes).url,
+    });
+  } catch (error) {
+    return res.status(400).json({ error: String(error) });
+  }
+});
+
+v1Router.delete("/photo/analyze/:analysisId", (req, res) => {
+  const session = requireSession(req, res);
+  if (!session) {
+    return;
+  }
+
+  const analysis = analysisService.getAnalysis(req.params.analysisId);
+  if (!analysis) {
+    return res.status(404).json({ error: "analysis not found" });
+  }
+
+  if (analysis.sessionId !== session.sessionId) {
+    return res.status(403).json({ error: "analysis/session mismatch" });
+  }
+
+  if (!analysisService.cancelAnalysis(analysis.analysisId)) {
+    return res.status(409).json({ error: `analysis already ${analysis.status}` });
+  }
+
+  return res.json({ analysis_id: analysis.analysisId, status: "cancelled" });
 });
 
 v1Router.post("/chat/turn", async (req, res) => {
@@ -219,9 +581,11 @@ v1Router.post("/chat/turn", async (req, res) => {
   try {
     const result = await conversationService.chatTurn({
       sessionId: parsed.data.session_id,
+      childId: session.childId,
       conversationId: parsed.data.conversation_id,
       text: parsed.data.input_type === "text" ? parsed.data.text : undefined,
       audioBlobUrl: parsed.data.input_type === "voice" ? parsed.data.audio_blob_url : undefined,
+      addressee: parsed.data.addressee,
     });
 
     return res.status(200).json({
@@ -230,12 +594,84 @@ v1Router.post("/chat/turn", async (req, res) => {
       followup_suggestions: result.followupSuggestions,
       turn_id: result.turn.turnId,
       safety_verdict: result.turn.safetyVerdict,
+      addressee: result.turn.addressee,
+      replies: result.replies?.map((reply) => ({
+        speaker: reply.speaker,
+        speaker_name: reply.speakerName,
+        text: reply.text,
+        audio_stream_url: reply.audioStreamUrl,
+      })),
     });
   } catch (error) {
     return res.status(400).json({ error: String(error) });
   }
 });
 
+v1Router.get("/conversations", (req, res) => {
+  const session = requireSession(req, res);
+  if (!session) {
+    return;
+  }
+
+  const conversations = conversationService.listConversations(session);
+  return res.json({
+    conversations: conversations.map((conversation) => ({
+      conversation_id: conversation.conversationId,
+      entity: conversation.entity,
+      persona: conversation.persona,
+      partner_entity: conversation.partner?.entity,
+      turn_count: conversation.turns.length,
+      last_reply_text: conversation.turns.at(-1)?.assistantText,
+      created_at: conversation.createdAt,
+      updated_at: conversation.updatedAt,
+    })),
+  });
+});
+
+v1Router.get("/conversations/:conversationId", async (req, res) => {
+  const session = requireSession(req, res);
+  if (!session) {
+    return;
+  }
+
+  const found = conversationService.getConversation(req.params.conversationId, session);
+  if (!found) {
+    return res.status(404).json({ error: "Conversation not found" });
+  }
+
+  // The text reads fine on its own, so audio that cannot be made again leaves those turns silent.
+  const conversation = await conversationService.restoreAudio(found, session.sessionId).catch(() => found);
+
+  const names = speakerNames(conversation);
+  return res.json({
+    conversation_id: conversation.conversationId,
+    entity: conversation.entity,
+    persona: conversation.persona,
+    partner: conversation.partner ? { entity: conversation.partner.entity, persona: conversation.partner.persona } : undefined,
+    turns: conversation.turns.map((turn) => ({
+      turn_id: turn.turnId,
+      user_input: turn.userInput === OPENING_TURN_INPUT ? null : turn.userInput,
+      assistant_text: turn.assistantText,
+      safety_verdict: turn.safetyVerdict,
+      audio_url: turn.audioId ? voiceService.streamUrlFor(turn.audioId, session.sessionId) : undefined,
+      addressee: turn.addressee,
+      lines: turn.lines?.map((line) => ({
+        speaker: line.speaker,
+        speaker_name: names[line.speaker],
+        text: line.text,
+        safety_verdict: line.safetyVerdict,
+        audio_url: line.audioId ? voiceService.streamUrlFor(line.audioId, session.sessionId) : undefined,
+        readability: line.readability,
+      })),
+      readability: turn.readability,
+      created_at: turn.createdAt,
+    })),
+    followup_suggestions: conversationService.followupSuggestions(conversation),
+    created_at: conversation.createdAt,
+    updated_at: conversation.updatedAt,
+  });
+});
+
 v1Router.post("/speech/transcribe", express.raw({ type: ["audio/webm", "audio/wav", "audio/mpeg"], limit: "8mb" }), async (req, res) => {
   const session = requireSession(req, res);
   if (!session) {
@@ -259,14 +695,22 @@ v1Router.post("/speech/transcribe", express.raw({ type: ["audio/webm", "audio/wa
 });
 
 v1Router.get("/audio/:audioId", async (req, res) => {
+  if (!verifyResourceSignature("audio", req.params.audioId, req.query)) {
+    return res.status(403).json({ error: "Audio URL is invalid or expired" });
+  }
+
   const audio = voiceService.resolveAudio(req.params.audioId);
   if (!audio) {
     return res.status(404).json({ error: "audio not found" });
   }
 
-  const file = await fs.readFile(audio.filePath);
+  const file = await fs.readFile(audio.filePath).catch(() => null);
+  if (!file) {
+    return res.status(404).json({ error: "audio not found" });
+  }
+
   res.setHeader("Content-Type", audio.contentType);
-  res.setHeader("Cache-Control", "public, max-age=300");
+  res.setHeader("Cache-Control", "private, max-age=300");
   return res.send(file);
 });
 
@@ -286,7 +730,7 @@ v1Router.post("/feedback", (req, res) => {
   }
 
   const signal = parsed.data.signal as FeedbackSignal;
-  store.feedback.push({
+  store.feedback.append({
     sessionId: parsed.data.session_id,
     turnId: parsed.data.turn_id,
     signal,
@@ -298,17 +742,209 @@ v1Router.post("/feedback", (req, res) => {
   return res.status(202).json({ ok: true });
 });
 
+v1Router.post("/admin/login", loginRateLimit, async (req, res) => {
+  const schema = z.object({
+    username: z.string().min(1).max(80),
+    password: z.string().min(1).max(200),
+  });
+
+  const parsed = schema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid request", details: parsed.error.flatten() });
+  }
+
+  const login = await adminAuthService.login(parsed.data);
+  adminAuthService.recordAudit({
+    actorType: login ? "user" : "anonymous",
+    actorId: login?.adminId ?? null,
+    scope: null,
+    method: req.method,
+    path: req.originalUrl.split("?")[0],
+    outcome: login ? "allowed" : "denied",
+    statusCode: login ? 200 : 401,
+    ip: req.ip || req.socket.remoteAddress || "unknown",
+    username: parsed.data.username,
+  });
+  if (!login) {
+    return res.status(401).json({ error: "Invalid username or password" });
+  }
+
+  return res.json({ admin_token: login.token, expires_at: login.expiresAt, scopes: login.scopes });
+});
+
+v1Router.post("/admin/logout", (req, res) => {
+  const token = req.headers["x-admin-token"];
+  if (typeof token === "string") {
+    adminAuthService.logout(token);
+  }
+
+  return res.json({ ok: true });
+});
+
+v1Router.get("/admin/keys", (req, res) => {
+  if (!requireAdmin(req, res, "keys:manage")) {
+    return;
+  }
+
+  return res.json(adminAuthService.listApiKeys());
+});
+
+v1Router.post("/admin/keys", (req, res) => {
+  const admin = requireAdmin(req, res, "keys:manage");
+  if (!admin) {
+    return;
+  }
+
+  const schema = z.object({
+    name: z.string().trim().min(1).max(80),
+    scopes: adminScopesSchema,
+    expires_in_days: z.number().int().min(1).max(365).optional(),
+  });
+
+  const parsed = schema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid request", details: parsed.error.flatten() });
+  }
+
+  const created = adminAuthService.createApiKey({
+    name: parsed.data.name,
+    scopes: parsed.data.scopes,
+    createdBy: admin.actorId,
+    expiresInDays: parsed.data.expires_in_days,
+  });
+
+  return res.status(201).json({ api_key: created.apiKey, key: created.key });
+});
+
+v1Router.post("/admin/keys/:keyId/rotate", (req, res) => {
+  const admin = requireAdmin(req, res, "keys:manage");
+  if (!admin) {
+    return;
+  }
+
+  const schema = z.object({
+    grace_minutes: z.number().int().min(0).max(7 * 24 * 60).optional(),
+    expires_in_days: z.number().int().min(1).max(365).optional(),
+  });
+
+  const parsed = schema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid request", details: parsed.error.flatten() });
+  }
+
+  const rotated = adminAuthService.rotateApiKey(req.params.keyId, {
+    rotatedBy: admin.actorId,
+    graceMinutes: parsed.data.grace_minutes,
+    expiresInDays: parsed.data.expires_in_days,
+  });
+
+  if (!rotated) {
+    return res.status(404).json({ error: "API key not found or revoked" });
+  }
+
+  return res.status(201).json({ api_key: rotated.apiKey, key: rotated.key });
+});
+
+v1Router.delete("/admin/keys/:keyId", (req, res) => {
+  if (!requireAdmin(req, res, "keys:manage")) {
+    return;
+  }
+
+  if (!adminAuthService.revokeApiKey(req.params.keyId)) {
+    return res.status(404).json({ error: "API key not found" });
+  }
+
+  return res.status(204).send();
+});
+
+v1Router.get("/admin/users", (req, res) => {
+  if (!requireAdmin(req, res, "keys:manage")) {
+    return;
+  }
+
+  return res.json(adminAuthService.listUsers());
+});
+
+v1Router.post("/admin/users", async (req, res) => {
+  if (!requireAdmin(req, res, "keys:manage")) {
+    return;
+  }
+
+  const schema = z.object({
+    username: z.string().trim().min(3).max(80),
+    password: z.string().min(12).max(200),
+    scopes: adminScopesSchema,
+  });
+
+  const parsed = schema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid request", details: parsed.error.flatten() });
+  }
+
+  const user = await adminAuthService.createUser(parsed.data);
+  if (!user) {
+    return res.status(409).json({ error: "An admin with this username already exists" });
+  }
+
+  return res.status(201).json(user);
+});
+
+v1Router.delete("/admin/users/:adminId", (req, res) => {
+  if (!requireAdmin(req, res, "keys:manage")) {
+    return;
+  }
+
+  if (!adminAuthService.disableUser(req.params.adminId)) {
+    return res.status(404).json({ error: "Admin user not found" });
+  }
+
+  return res.status(204).send();
+});
+
+v1Router.get("/admin/audit", (req, res) => {
+  if (!requireAdmin(req, res, "audit:read")) {
+    return;
+  }
+
+  const schema = z.object({
+    actor_id: z.string().optional(),
+    scope: z.enum(ADMIN_SCOPES as [AdminScope, ...AdminScope[]]).optional(),
+    outcome: z.enum(["allowed", "denied"]).optional(),
+    path_prefix: z.string().optional(),
+    since: z.string().datetime().optional(),
+    until: z.string().datetime().optional(),
+    limit: z.coerce.number().int().min(1).max(1000).optional(),
+  });
+
+  const parsed = schema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid request", details: parsed.error.flatten() });
+  }
+
+  return res.json(
+    adminAuthService.queryAudit({
+      actorId: parsed.data.actor_id,
+      scope: parsed.data.scope,
+      outcome: parsed.data.outcome,
+      pathPrefix: parsed.data.path_prefix,
+      since: parsed.data.since,
+      until: parsed.data.until,
+      limit: parsed.data.limit,
+    }),
+  );
+});
+
 v1Router.get("/admin/policy", (req, res) => {
-  if (req.headers["x-admin-key"] !== env.adminKey) {
-    return res.status(403).json({ error: "Forbidden" });
+  if (!requireAdmin(req, res, "policy:read")) {
+    return;
   }
 
   return res.json(adminService.getPolicy());
 });
 
 v1Router.put("/admin/policy", (req, res) => {
-  if (req.headers["x-admin-key"] !== env.adminKey) {
-    return res.status(403).json({ error: "Forbidden" });
+  if (!requireAdmin(req, res, "policy:write")) {
+    return;
   }
 
   const schema = z.object({
@@ -316,6 +952,11 @@ v1Router.put("/admin/policy", (req, res) => {
     allowedSourceDomains: z.array(z.string()).optional(),
     maxReplySeconds: z.number().min(5).max(40).optional(),
     minFactConfidence: z.number().min(0).max(1).optional(),
+    minEntityConfidence: z.number().min(0).max(1).optional(),
+    enforceFaceBlur: z.boolean().optional(),
+    minCitationSupport: z.number().min(0).max(1).optional(),
+    unverifiedFactAction: z.enum(["drop", "downweight"]).optional(),
+    serveUnapprovedFacts: z.boolean().optional(),
   });
 
   const parsed = schema.safeParse(req.body ?? {});
@@ -327,25 +968,334 @@ v1Router.put("/admin/policy", (req, res) => {
 });
 
 v1Router.get("/admin/voices", (req, res) => {
-  if (req.headers["x-admin-key"] !== env.adminKey) {
-    return res.status(403).json({ error: "Forbidden" });
+  if (!requireAdmin(req, res, "analytics:read")) {
+    return;
   }
 
   return res.json(adminService.getVoices());
 });
 
 v1Router.get("/admin/incidents", (req, res) => {
-  if (req.headers["x-admin-key"] !== env.adminKey) {
-    return res.status(403).json({ error: "Forbidden" });
+  if (!requireAdmin(req, res, "analytics:read")) {
+    return;
   }
 
   return res.json(adminService.getIncidents());
 });
 
 v1Router.get("/admin/analytics", (req, res) => {
-  if (req.headers["x-admin-key"] !== env.adminKey) {
-    return res.status(403).json({ error: "Forbidden" });
+  if (!requireAdmin(req, res, "analytics:read")) {
+    return;
   }
 
   return res.json(analyticsService.getDashboard());
 });
+
+v1Router.get("/admin/analyses/:analysisId/trace", (req, res) => {
+  if (!requireAdmin(req, res, "analytics:read")) {
+    return;
+  }
+
+  const analysis = analysisService.getAnalysis(req.params.analysisId);
+  if (!analysis) {
+    return res.status(404).json({ error: "analysis not found" });
+  }
+
+  return res.json({
+    analysisId: analysis.analysisId,
+    status: analysis.status,
+    traceId: analysis.traceId,
+    spans: analysis.spans ?? [],
+  });
+});
+
+const reviewStatusSchema = z.enum(["draft", "in_review", "approved", "rejected"]);
+
+v1Router.get("/admin/fact-cache", (req, res) => {
+  if (!requireAdmin(req, res, "content:read")) {
+    return;
+  }
+
+  const schema = z.object({
+    review_status: reviewStatusSchema.optional(),
+  });
+
+  const parsed = schema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid request", details: parsed.error.flatten() });
+  }
+
+  return res.json(researchService.listCachedPacks({ reviewStatus: parsed.data.review_status }));
+});
+
+v1Router.get("/admin/fact-cache/:key", (req, res) => {
+  if (!requireAdmin(req, res, "content:read")) {
+    return;
+  }
+
+  const cached = researchService.getCachedPack(req.params.key);
+  if (!cached) {
+    return res.status(404).json({ error: "fact pack not found" });
+  }
+
+  return res.json(cached);
+});
+
+v1Router.patch("/admin/fact-cache/:key", (req, res) => {
+  const admin = requireAdmin(req, res, "content:write");
+  if (!admin) {
+    return;
+  }
+
+  const schema = z
+    .object({
+      summary: z.string().trim().min(1).max(1000).optional(),
+      facts: z
+        .array(
+          z.object({
+            claim: z.string().trim().min(1).max(500),
+            source_urls: z.array(z.string().url()).min(1).max(5),
+            confidence: fractionSchema.optional(),
+          }),
+        )
+        .min(1)
+        .max(12)
+        .optional(),
+    })
+    .refine((edit) => edit.summary !== undefined || edit.facts !== undefined, { message: "nothing to edit" });
+
+  const parsed = schema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid request", details: parsed.error.flatten() });
+  }
+
+  const edited = researchService.editPack(
+    req.params.key,
+    {
+      summary: parsed.data.summary,
+      facts: parsed.data.facts?.map((fact) => ({
+        claim: fact.claim,
+        sourceUrls: fact.source_urls,
+        confidence: fact.confidence,
+      })),
+    },
+    admin.actorId,
+  );
+  if (!edited) {
+    return res.status(404).json({ error: "fact pack not found" });
+  }
+
+  return res.json(edited);
+});
+
+v1Router.post("/admin/fact-cache/:key/review", (req, res) => {
+  const admin = requireAdmin(req, res, "content:write");
+  if (!admin) {
+    return;
+  }
+
+  const schema = z.object({
+    status: reviewStatusSchema.exclude(["draft"]),
+    note: z.string().trim().min(1).max(500).optional(),
+  });
+
+  const parsed = schema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid request", details: parsed.error.flatten() });
+  }
+
+  const cached = researchService.getCachedPack(req.params.key);
+  if (!cached) {
+    return res.status(404).json({ error: "fact pack not found" });
+  }
+
+  const current = reviewStatusOf(cached.pack);
+  if (!REVIEW_TRANSITIONS[current].includes(parsed.data.status)) {
+    return res.status(409).json({ error: `A ${current} fact pack cannot move to ${parsed.data.status}` });
+  }
+
+  return res.json(
+    researchService.setReviewStatus(req.params.key, {
+      status: parsed.data.status,
+      reviewer: admin.actorId,
+      note: parsed.data.note,
+    }),
+  );
+});
+
+v1Router.delete("/admin/fact-cache/:key", (req, res) => {
+  if (!requireAdmin(req, res, "content:write")) {
+    return;
+  }
+
+  if (!researchService.invalidate(req.params.key)) {
+    return res.status(404).json({ error: "fact pack not found" });
+  }
+
+  return res.json({ invalidated: 1 });
+});
+
+v1Router.delete("/admin/fact-cache", (req, res) => {
+  if (!requireAdmin(req, res, "content:write")) {
+    return;
+  }
+
+  return res.json({ invalidated: researchService.invalidateAll() });
+});
+
+v1Router.post("/admin/fact-cache/invalidate-stale", (req, res) => {
+  if (!requireAdmin(req, res, "content:write")) {
+    return;
+  }
+
+  const { invalidated, returnedToReview } = researchService.invalidateStale();
+  return res.json({ invalidated: invalidated.length, keys: invalidated, returned_to_review: returnedToReview });
+});
+
+v1Router.post("/admin/fact-cache/warm", async (req, res) => {
+  if (!requireAdmin(req, res, "content:write")) {
+    return;
+  }
+
+  const schema = z.object({
+    labels: z.array(z.string().trim().min(1).max(140)).min(1).max(25),
+    refresh: z.boolean().optional(),
+    age_band: ageBandSchema.optional(),
+  });
+
+  const parsed = schema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid request", details: parsed.error.flatten() });
+  }
+
+  // Labels that fail are reported in the results with their error; the rest still warm.
+  try {
+    return res.json(await researchService.warm(parsed.data.labels, { refresh: parsed.data.refresh, ageBand: parsed.data.age_band }));
+  } catch (error) {
+    return res.status(500).json({ error: String(error) });
+  }
+});
+
+v1Router.get("/admin/knowledge-base", (req, res) => {
+  if (!requireAdmin(req, res, "content:read")) {
+    return;
+  }
+
+  return res.json(knowledgeBaseService.list());
+});
+
+v1Router.get("/admin/knowledge-base/:entityId", (req, res) => {
+  if (!requireAdmin(req, res, "content:read")) {
+    return;
+  }
+
+  const entry = knowledgeBaseService.get(req.params.entityId);
+  if (!entry) {
+    return res.status(404).json({ error: "knowledge entry not found" });
+  }
+
+  return res.json(entry);
+});
+
+v1Router.post("/admin/knowledge-base", (req, res) => {
+  const admin = requireAdmin(req, res, "content:write");
+  if (!admin) {
+    return;
+  }
+
+  const schema = knowledgeEntrySchema.extend({
+    entity_id: z
+      .string()
+      .regex(/^entity-[a-z0-9-]+$/)
+      .max(160)
+      .optional(),
+  });
+
+  const parsed = schema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid request", details: parsed.error.flatten() });
+  }
+
+  const input = { ...knowledgeEntryInput(parsed.data), entityId: parsed.data.entity_id };
+  const conflict = knowledgeBaseService.findConflict(input, knowledgeBaseService.idFor(input));
+  if (conflict) {
+    return res.status(409).json({ error: `An alias is already used by ${conflict.entityId}` });
+  }
+
+  const entry = knowledgeBaseService.create(input, admin.actorId);
+  if (!entry) {
+    return res.status(409).json({ error: "A knowledge entry for this entity already exists" });
+  }
+
+  return res.status(201).json(entry);
+});
+
+v1Router.put("/admin/knowledge-base/:entityId", (req, res) => {
+  const admin = requireAdmin(req, res, "content:write");
+  if (!admin) {
+    return;
+  }
+
+  // `version` is the one the editor started from, so two editors cannot silently overwrite each other.
+  const schema = knowledgeEntrySchema.extend({
+    version: z.number().int().min(1).optional(),
+  });
+
+  const parsed = schema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid request", details: parsed.error.flatten() });
+  }
+
+  const existing = knowledgeBaseService.get(req.params.entityId);
+  if (!existing) {
+    return res.status(404).json({ error: "knowledge entry not found" });
+  }
+
+  if (parsed.data.version !== undefined && parsed.data.version !== existing.version) {
+    return res.status(409).json({ error: "Knowledge entry changed since it was loaded", version: existing.version });
+  }
+
+  const input = knowledgeEntryInput(parsed.data);
+  const conflict = knowledgeBaseService.findConflict(input, existing.entityId);
+  if (conflict) {
+    return res.status(409).json({ error: `An alias is already used by ${conflict.entityId}` });
+  }
+
+  return res.json(knowledgeBaseService.update(existing.entityId, input, admin.actorId));
+});
+
+v1Router.delete("/admin/knowledge-base/:entityId", (req, res) => {
+  if (!requireAdmin(req, res, "content:write")) {
+    return;
+  }
+
+  if (!knowledgeBaseService.remove(req.params.entityId)) {
+    return res.status(404).json({ error: "knowledge entry not found" });
+  }
+
+  return res.status(204).send();
+});
+
+v1Router.get("/admin/retention", async (req, res) => {
+  if (!requireAdmin(req, res, "analytics:read")) {
+    return;
+  }
+
+  try {
+    return res.json(await retentionService.getUsage());
+  } catch (error) {
+    return res.status(500).json({ error: String(error) });
+  }
+});
+
+v1Router.post("/admin/retention/purge", async (req, res) => {
+  if (!requireAdmin(req, res, "ops:write")) {
+    return;
+  }
+
+  try {
+    return res.json(await retentionService.purge());
+  } catch (error) {
+    return res.status(500).json({ error: String(error) });
+  }
+});
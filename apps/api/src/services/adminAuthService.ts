@@ -0,0 +1,257 @@
+import { randomBytes, randomUUID } from "node:crypto";
+import { env } from "../config/env.js";
+import { store } from "../stores/index.js";
+import type { AdminApiKey, AdminAuditEntry, AdminScope, AdminUser } from "../types/domain.js";
+import { logger } from "../utils/logger.js";
+import { generateToken, hashSecret, hashToken, matchesTokenHash, verifySecret } from "../utils/secrets.js";
+
+export const ADMIN_SCOPES: AdminScope[] = [
+  "analytics:read",
+  "policy:read",
+  "policy:write",
+  "content:read",
+  "content:write",
+  "ops:write",
+  "audit:read",
+  "keys:manage",
+];
+
+const API_KEY_PREFIX = "wtk";
+// A busy integration would otherwise write its key record on every request; a minute is precise enough for audits.
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+export type AdminPrincipal = {
+  actorType: "user" | "api_key";
+  actorId: string;
+  label: string;
+  scopes: AdminScope[];
+};
+
+export type AdminApiKeySummary = Omit<AdminApiKey, "keyHash">;
+
+const summarizeKey = ({ keyHash: _keyHash, ...rest }: AdminApiKey): AdminApiKeySummary => rest;
+
+// Keys look like `wtk_<keyId>_<secret>` so the record can be found without scanning every hash.
+const parseApiKey = (apiKey: string): { keyId: string } | null => {
+  const [prefix, keyId, secret] = apiKey.split("_");
+  if (prefix !== API_KEY_PREFIX || !keyId || !secret) {
+    return null;
+  }
+
+  return { keyId };
+};
+
+export class AdminAuthService {
+  async bootstrap(): Promise<void> {
+    if (store.adminUsers.values().length > 0) {
+      return;
+    }
+
+    if (!env.adminBootstrapPassword) {
+      logger.warn("No admin users exist; set ADMIN_BOOTSTRAP_PASSWORD to create the owner account");
+      return;
+    }
+
+    await this.createUser({
+      username: env.adminBootstrapUsername,
+      password: env.adminBootstrapPassword,
+      scopes: ADMIN_SCOPES,
+    });
+    logger.info("Created bootstrap admin user", { username: env.adminBootstrapUsername });
+  }
+
+  async createUser(input: { username: string; password: string; scopes: AdminScope[] }): Promise<Omit<AdminUser, "passwordHash"> | null> {
+    const username = input.username.trim().toLowerCase();
+    if (store.adminUsers.values().some((user) => user.username === username)) {
+      return null;
+    }
+
+    const user: AdminUser = {
+      adminId: randomUUID(),
+      username,
+      passwordHash: await hashSecret(input.password),
+      scopes: Array.from(new Set(input.scopes)),
+      createdAt: new Date().toISOString(),
+    };
+
+    store.adminUsers.set(user.adminId, user);
+    const { passwordHash: _passwordHash, ...summary } = user;
+    return summary;
+  }
+
+  listUsers(): Array<Omit<AdminUser, "passwordHash">> {
+    return store.adminUsers.values().map(({ passwordHash: _passwordHash, ...summary }) => summary);
+  }
+
+  disableUser(adminId: string): boolean {
+    const user = store.adminUsers.get(adminId);
+    if (!user) {
+      return false;
+    }
+
+    store.adminUsers.set(adminId, { ...user, disabledAt: user.disabledAt ?? new Date().toISOString() });
+    return true;
+  }
+
+  async login(
+    input: { username: string; password: string },
+  ): Promise<{ adminId: string; token: string; expiresAt: string; scopes: AdminScope[] } | null> {
+    const username = input.username.trim().toLowerCase();
+    const user = store.adminUsers.values().find((candidate) => candidate.username === username);
+    if (!user || user.disabledAt || !(await verifySecret(input.password, user.passwordHash))) {
+      return null;
+    }
+
+    const token = generateToken();
+    const createdAt = new Date();
+    const expiresAt = new Date(createdAt.getTime() + env.adminSessionTtlMinutes * 60 * 1000).toISOString();
+    store.adminSessions.set(hashToken(token), {
+      tokenHash: hashToken(token),
+      adminId: user.adminId,
+      createdAt: createdAt.toISOString(),
+      expiresAt,
+    });
+
+    return { adminId: user.adminId, token, expiresAt, scopes: user.scopes };
+  }
+
+  logout(token: string): void {
+    store.adminSessions.delete(hashToken(token));
+  }
+
+  authenticateSession(token: string): AdminPrincipal | null {
+    const session = store.adminSessions.get(hashToken(token));
+    if (!session || Date.parse(session.expiresAt) < Date.now()) {
+      return null;
+    }
+
+    const user = store.adminUsers.get(session.adminId);
+    if (!user || user.disabledAt) {
+      return null;
+    }
+
+    return { actorType: "user", actorId: user.adminId, label: user.username, scopes: user.scopes };
+  }
+
+  authenticateApiKey(apiKey: string): AdminPrincipal | null {
+    const parsed = parseApiKey(apiKey);
+    const key = parsed ? store.adminApiKeys.get(parsed.keyId) : undefined;
+    if (!key || !matchesTokenHash(apiKey, key.keyHash)) {
+      return null;
+    }
+
+    if (key.revokedAt || Date.parse(key.expiresAt) <= Date.now()) {
+      return null;
+    }
+
+    const now = Date.now();
+    if (!key.lastUsedAt || now - Date.parse(key.lastUsedAt) >= LAST_USED_RESOLUTION_MS) {
+      store.adminApiKeys.set(key.keyId, { ...key, lastUsedAt: new Date(now).toISOString() });
+    }
+    return { actorType: "api_key", actorId: key.keyId, label: key.name, scopes: key.scopes };
+  }
+
+  createApiKey(input: {
+    name: string;
+    scopes: AdminScope[];
+    createdBy: string;
+    expiresInDays?: number;
+  }): { apiKey: string; key: AdminApiKeySummary } {
+    const keyId = randomBytes(6).toString("hex");
+    const apiKey = `${API_KEY_PREFIX}_${keyId}_${randomBytes(24).toString("base64url").replace(/_/g, "-")}`;
+    const createdAt = new Date();
+    const ttlDays = input.expiresInDays ?? env.adminApiKeyTtlDays;
+
+    const key: AdminApiKey = {
+      keyId,
+      name: input.name.trim(),
+      keyHash: hashToken(apiKey),
+      scopes: Array.from(new Set(input.scopes)),
+      createdBy: input.createdBy,
+      createdAt: createdAt.toISOString(),
+      expiresAt: new Date(createdAt.getTime() + ttlDays * 24 * 60 * 60 * 1000).toISOString(),
+    };
+
+    store.adminApiKeys.set(keyId, key);
+    return { apiKey, key: summarizeKey(key) };
+  }
+
+  // The old key keeps working for the grace period so deployments can switch over.
+  rotateApiKey(
+    keyId: string,
+    input: { rotatedBy: string; graceMinutes?: number; expiresInDays?: number },
+  ): { apiKey: string; key: AdminApiKeySummary } | null {
+    const current = store.adminApiKeys.get(keyId);
+    if (!current || current.revokedAt) {
+      return null;
+    }
+
+    const next = this.createApiKey({
+      name: current.name,
+      scopes: current.scopes,
+      createdBy: input.rotatedBy,
+      expiresInDays: input.expiresInDays,
+    });
+
+    const graceEndsAt = Date.now() + (input.graceMinutes ?? 60) * 60 * 1000;
+    store.adminApiKeys.set(keyId, {
+      ...current,
+      rotatedTo: next.key.keyId,
+      expiresAt: new Date(Math.min(Date.parse(current.expiresAt), graceEndsAt)).toISOString(),
+    });
+
+    return next;
+  }
+
+  revokeApiKey(keyId: string): boolean {
+    const key = store.adminApiKeys.get(keyId);
+    if (!key) {
+      return false;
+    }
+
+    store.adminApiKeys.set(keyId, { ...key, revokedAt: key.revokedAt ?? new Date().toISOString() });
+    return true;
+  }
+
+  listApiKeys(): AdminApiKeySummary[] {
+    return store.adminApiKeys.values().map(summarizeKey);
+  }
+
+  recordAudit(entry: Omit<AdminAuditEntry, "auditId" | "createdAt">): void {
+    store.adminAudit.append({
+      ...entry,
+      auditId: randomUUID(),
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  queryAudit(filter: {
+    actorId?: string;
+    scope?: AdminScope;
+    outcome?: AdminAuditEntry["outcome"];
+    pathPrefix?: string;
+    since?: string;
+    until?: string;
+    limit?: number;
+  }): AdminAuditEntry[] {
+    const since = filter.since ? Date.parse(filter.since) : null;
+    const until = filter.until ? Date.parse(filter.until) : null;
+
+    return store.adminAudit
+      .list()
+      .filter((entry) => {
+        const createdAt = Date.parse(entry.createdAt);
+        if (filter.actorId && entry.actorId !== filter.actorId) return false;
+        if (filter.scope && entry.scope !== filter.scope) return false;
+        if (filter.outcome && entry.outcome !== filter.outcome) return false;
+        if (filter.pathPrefix && !entry.path.startsWith(filter.pathPrefix)) return false;
+        if (since !== null && createdAt < since) return false;
+        if (until !== null && createdAt > until) return false;
+        return true;
+      })
+      .slice(-(filter.limit ?? 200))
+      .reverse();
+  }
+}
+
+export const adminAuthService = new AdminAuthService();
@@ -1,5 +1,7 @@
-import { store } from "../stores/inMemoryStore.js";
+import { store } from "../stores/index.js";
 import type { PolicyConfig } from "../types/domain.js";
+import { logger } from "../utils/logger.js";
+import { researchService } from "./researchService.js";
 
 const voices = [
   { provider: "gemini", archetype: "playful", voiceId: "Puck", label: "Puck" },
@@ -14,19 +16,34 @@ const voices = [
 
 export class AdminService {
   getPolicy(): PolicyConfig {
-    return store.policy;
+    return store.getPolicy();
   }
 
   updatePolicy(input: Partial<PolicyConfig>): PolicyConfig {
-    store.policy = {
-      ...store.policy,
+    const previous = store.getPolicy();
+    const policy = {
+      ...previous,
       ...input,
     };
-    return store.policy;
+    store.setPolicy(policy);
+
+    const droppedDomain = previous.allowedSourceDomains.some((domain) => !policy.allowedSourceDomains.includes(domain));
+    const stricterCitations =
+      policy.minCitationSupport > previous.minCitationSupport ||
+      (policy.unverifiedFactAction === "drop" && previous.unverifiedFactAction !== "drop");
+    if (droppedDomain || policy.minFactConfidence > previous.minFactConfidence || stricterCitations) {
+      const { invalidated, returnedToReview } = researchService.invalidateStale(policy);
+      logger.info("Policy tightened; invalidated stale fact packs", {
+        invalidated: invalidated.length,
+        returnedToReview: returnedToReview.length,
+      });
+    }
+
+    return policy;
   }
 
   getIncidents() {
-    return store.incidents.slice(-200).reverse();
+    return store.incidents.list(200).reverse();
   }
 
   getVoices() {
@@ -1,31 +1,133 @@
 import { randomUUID } from "node:crypto";
-import { store } from "../stores/inMemoryStore.js";
-import type { AnalysisResult, ConversationState } from "../types/domain.js";
+import { EventEmitter } from "node:events";
+import { DEFAULT_AGE_BAND } from "../config/ageBands.js";
+import { env } from "../config/env.js";
+import { store } from "../stores/index.js";
+import type {
+  AgeBand,
+  AnalysisProgressEvent,
+  AnalysisResult,
+  AnalysisStage,
+  CanonicalEntity,
+  ConversationLine,
+  ConversationState,
+  EntityCandidate,
+  FactPack,
+  FocusRegion,
+  ImageFingerprint,
+  PersonaProfile,
+  ReplyReadability,
+  SafetyVerdict,
+  UploadTarget,
+} from "../types/domain.js";
+import { updateLiveAnalysis } from "./analysisState.js";
 import { analyticsService } from "./analyticsService.js";
-import { ingestionService } from "./ingestionService.js";
+import {
+  OPENING_TURN_INPUT,
+  composeOpeningReply,
+  speakerNames,
+  trackReadability,
+  transcriptOf,
+  worstVerdict,
+} from "./conversationService.js";
+import { ingestionService, REJECTED_UPLOAD_HINT, retakeHintFor } from "./ingestionService.js";
+import { analysisQueue, runStage, type StagePolicy } from "./jobQueue.js";
 import { moderationService } from "./moderationService.js";
 import { personaService } from "./personaService.js";
-import { geminiClient } from "./providers/geminiClient.js";
 import { researchService } from "./researchService.js";
+import { tracingService } from "./tracingService.js";
 import { uploadService } from "./uploadService.js";
-import { visionService } from "./visionService.js";
+import { isDepictedArtwork, visionService } from "./visionService.js";
 import { voiceService } from "./voiceService.js";
-import { logger } from "../utils/logger.js";
 
 const parseUploadIdFromImageUrl = (imageUrl: string): string | null => {
   const match = imageUrl.match(/\/v1\/media\/([a-fA-F0-9-]+)/);
   return match?.[1] ?? null;
 };
 
+const stagePolicy = (name: string, timeoutMs: number): StagePolicy => ({
+  name,
+  timeoutMs,
+  retries: env.analysisStageRetries,
+  baseDelayMs: env.analysisRetryBaseDelayMs,
+});
+
+const STAGES = {
+  vision: stagePolicy("vision", env.analysisVisionTimeoutMs),
+  research: stagePolicy("research", env.analysisResearchTimeoutMs),
+  persona: stagePolicy("persona", env.analysisResearchTimeoutMs),
+  tts: stagePolicy("tts", env.analysisTtsTimeoutMs),
+};
+
+// One span per stage; each retry shows up as its own provider span underneath.
+const tracedStage = <T>(stage: StagePolicy, signal: AbortSignal, work: (signal: AbortSignal) => Promise<T>): Promise<T> =>
+  tracingService.span(stage.name, {}, () => runStage(stage, signal, work));
+
+type ResolvedEntity = {
+  entity: CanonicalEntity;
+  duplicate?: ImageFingerprint;
+  // The second photo of a "meet each other" analysis.
+  partner?: ResolvedEntity;
+};
+
+type ImageDetection = {
+  entity: CanonicalEntity;
+  candidates: EntityCandidate[];
+  duplicate?: ImageFingerprint;
+  imageHash: string;
+  facesDetected: number;
+  facesBlurred: boolean;
+};
+
+// A repeat photo leads with the facts none of the earlier photo's conversations have used yet.
+const freshFactsFirst = (factPack: FactPack, fingerprint: ImageFingerprint): FactPack => {
+  const usedClaims = new Set<string>();
+  for (const conversationId of fingerprint.conversationIds) {
+    const conversation = store.conversations.get(conversationId);
+    for (const index of conversation?.usedFactIndexes ?? []) {
+      const fact = conversation?.factPack.facts[index];
+      if (fact) {
+        usedClaims.add(fact.claim);
+      }
+    }
+  }
+
+  const unused = factPack.facts.filter((fact) => !usedClaims.has(fact.claim));
+  const used = factPack.facts.filter((fact) => usedClaims.has(fact.claim));
+  return { ...factPack, facts: [...unused, ...used] };
+};
+
+export const TERMINAL_ANALYSIS_STAGES = new Set<AnalysisStage>(["audio_ready", "needs_confirmation", "failed", "cancelled"]);
+
+// Settled analyses have nothing left on the queue; only a retarget starts them again.
+export const isAnalysisSettled = (analysis: AnalysisResult): boolean =>
+  analysis.status !== "queued" && analysis.status !== "processing";
+
+const INTERRUPTED_ERROR = "Interrupted by a server restart";
+const INTERRUPTED_HINT = "Oops, I lost my place. Can you show me that picture again?";
+
 export class AnalysisService {
-  createAnalysis(input: { sessionId: string; imageUrl: string }): AnalysisResult {
+  private readonly progress = new EventEmitter().setMaxListeners(0);
+
+  createAnalysis(input: {
+    sessionId: string;
+    childId?: string;
+    ageBand?: AgeBand;
+    imageUrl: string;
+    focus?: FocusRegion;
+    partnerImageUrl?: string;
+  }): AnalysisResult {
     const analysisId = randomUUID();
     const now = new Date().toISOString();
 
     const analysis: AnalysisResult = {
       analysisId,
       sessionId: input.sessionId,
+      childId: input.childId,
+      ageBand: input.ageBand,
       imageUrl: input.imageUrl,
+      focus: input.focus,
+      partnerImageUrl: input.partnerImageUrl,
       status: "queued",
       createdAt: now,
       updatedAt: now,
@@ -34,9 +136,9 @@ export class AnalysisService {
     store.analyses.set(analysisId, analysis);
     analyticsService.track("analysis_requested", input.sessionId, { analysisId });
 
-    void this.processAnalysis(analysisId).catch((error) => {
-      logger.error("Failed to process analysis", { analysisId, error: String(error) });
-    });
+    analysisQueue.enqueue(analysisId, (signal) =>
+      tracingService.trace(analysisId, () => this.processAnalysis(analysisId, signal)),
+    );
 
     return analysis;
   }
@@ -45,91 +147,361 @@ export class AnalysisService {
     return store.analyses.get(analysisId) ?? null;
   }
 
-  private async processAnalysis(analysisId: string): Promise<void> {
-    const existing = store.analyses.get(analysisId);
-    if (!existing) {
-      return;
+  // Listeners only see events from this instance; earlier ones are replayed from `analysis.progress`.
+  subscribe(analysisId: string, listener: (event: AnalysisProgressEvent) => void): () => void {
+    this.progress.on(analysisId, listener);
+    return () => {
+      this.progress.off(analysisId, listener);
+    };
+  }
+
+  // Returns false once the analysis has already settled.
+  cancelAnalysis(analysisId: string): boolean {
+    const analysis = store.analyses.get(analysisId);
+    if (!analysis || isAnalysisSettled(analysis)) {
+      return false;
     }
 
-    this.updateAnalysis(analysisId, { status: "processing" });
+    analysisQueue.cancel(analysisId);
+    this.recordProgress(analysisId, "cancelled", {}, { status: "cancelled", error: "Cancelled by request" });
+    return true;
+  }
 
-    try {
-      const uploadId = parseUploadIdFromImageUrl(existing.imageUrl);
-      if (!uploadId) {
-        throw new Error("Invalid image URL");
-      }
+  // The queue lives in memory, so analyses a previous process left queued or processing would never settle. Called
+  // once at startup, before anything new is enqueued; returns how many were failed.
+  failInterrupted(): number {
+    const interrupted = store.analyses.values().filter((analysis) => !isAnalysisSettled(analysis));
+    for (const analysis of interrupted) {
+      this.recordProgress(
+        analysis.analysisId,
+        "failed",
+        { error: INTERRUPTED_ERROR, retake_hint: INTERRUPTED_HINT },
+        { status: "failed", error: INTERRUPTED_ERROR, retakeHint: INTERRUPTED_HINT },
+      );
+    }
+    return interrupted.length;
+  }
+
+  // Re-runs research, persona and the opening reply for another of the detected candidates.
+  retargetAnalysis(analysisId: string, entityId: string): AnalysisResult {
+    const analysis = store.analyses.get(analysisId);
+    if (!analysis) {
+      throw new Error("Analysis not found");
+    }
+
+    if (analysis.status !== "ready" && analysis.status !== "needs_confirmation") {
+      throw new Error(`Analysis is ${analysis.status}, not ready`);
+    }
+
+    const candidate = analysis.candidates?.find((item) => item.entityId === entityId);
+    if (!candidate) {
+      throw new Error("Unknown candidate");
+    }
+
+    // Picking a guess directly settles the guessing game, so that conversation stops waiting for an answer.
+    const guessing = analysis.conversationId ? store.conversations.get(analysis.conversationId) : undefined;
+    if (guessing?.pendingConfirmation) {
+      store.conversations.set(guessing.conversationId, { ...guessing, pendingConfirmation: undefined });
+    }
+
+    // A fresh progress log lets event streams follow the new run from the start.
+    updateLiveAnalysis(analysisId, {
+      status: "queued",
+      progress: [],
+      hookText: undefined,
+      firstReplyText: undefined,
+      firstReplyAudioStreamUrl: undefined,
+      partnerReplyText: undefined,
+      partnerReplyAudioStreamUrl: undefined,
+      conversationId: undefined,
+      error: undefined,
+    });
+    analysisQueue.enqueue(analysisId, (signal) =>
+      tracingService.trace(analysisId, () =>
+        this.runPipeline(analysisId, signal, async () => {
+          const entity = await tracedStage(STAGES.vision, signal, (stageSignal) =>
+            visionService.entityForCandidate(candidate, stageSignal),
+          );
+          this.recordProgress(analysisId, "entity_detected", { entity, candidates: analysis.candidates }, { entity });
+          // Only the first photo's subject changes; a "meet each other" partner stays as it was.
+          return { entity, partner: analysis.partnerEntity ? { entity: analysis.partnerEntity } : undefined };
+        }, { confirmLowConfidence: false }),
+      ),
+    );
+
+    return store.analyses.get(analysisId) ?? analysis;
+  }
+
+  private processAnalysis(analysisId: string, signal: AbortSignal): Promise<void> {
+    return this.runPipeline(analysisId, signal, async (existing) => {
+      const upload = this.resolveUpload(existing, existing.imageUrl);
+      const partnerUpload = existing.partnerImageUrl ? this.resolveUpload(existing, existing.partnerImageUrl) : null;
 
-      const upload = uploadService.resolveImage(uploadId);
-      if (!upload?.filePath || !upload.mimeType) {
-        throw new Error("Image not found");
+      this.recordProgress(analysisId, "uploaded", {});
+      this.recordProgress(analysisId, "scanning", {});
+      const primary = await this.detectUpload(analysisId, existing, upload, existing.focus, signal);
+      if (!primary) {
+        return null;
       }
 
-      if (upload.sessionId !== existing.sessionId) {
-        throw new Error("Image session mismatch");
+      // Both photos go through the same checks; either one failing settles the whole analysis.
+      const partner = partnerUpload ? await this.detectUpload(analysisId, existing, partnerUpload, undefined, signal) : null;
+      if (partnerUpload && !partner) {
+        return null;
       }
 
-      ingestionService.validateMimeType(upload.mimeType);
-      await ingestionService.malwareScan(upload.filePath);
-      const normalizedPath = await ingestionService.preprocessImage(upload.filePath);
-      const normalizedMimeType = "image/jpeg";
+      const { entity, candidates, duplicate } = primary;
+      const facesDetected = primary.facesDetected + (partner?.facesDetected ?? 0);
+      this.recordProgress(
+        analysisId,
+        "entity_detected",
+        {
+          entity,
+          candidates,
+          ...(duplicate ? { duplicate_of: duplicate.analysisId } : {}),
+          ...(partner ? { partner_entity: partner.entity } : {}),
+          faces_detected: facesDetected,
+        },
+        {
+          entity,
+          candidates,
+          imageHash: primary.imageHash,
+          facesDetected,
+          facesBlurred: primary.facesBlurred || Boolean(partner?.facesBlurred),
+          partnerEntity: partner?.entity,
+        },
+      );
 
-      const entity = await visionService.detectEntity({
-        sessionId: existing.sessionId,
-        imagePath: normalizedPath,
-        mimeType: normalizedMimeType,
-      });
+      return {
+        entity,
+        duplicate,
+        partner: partner ? { entity: partner.entity, duplicate: partner.duplicate } : undefined,
+      };
+    }, { confirmLowConfidence: true });
+  }
 
-      const factPack = await researchService.getFactPack(entity);
-      const persona = personaService.buildPersona(entity);
-      const hook = personaService.buildHook(entity);
-      const initialText =
-        (await geminiClient.generateOpeningReply({
-          entity,
-          hook,
-          summary: factPack.summary,
-          candidateFacts: factPack.facts.slice(0, 3),
-        })) ?? personaService.buildFirstReply({ factPack, hook });
+  private resolveUpload(existing: AnalysisResult, imageUrl: string): UploadTarget & { filePath: string; mimeType: string } {
+    const uploadId = parseUploadIdFromImageUrl(imageUrl);
+    if (!uploadId) {
+      throw new Error("Invalid image URL");
+    }
 
-      const moderated = moderationService.moderateOutput(existing.sessionId, initialText);
-      const safeText = moderated.transformedText ?? initialText;
+    const upload = uploadService.resolveImage(uploadId);
+    if (!upload?.filePath || !upload.mimeType) {
+      throw new Error("Image not found");
+    }
 
-      const voiceAsset = await voiceService.synthesizeToAsset({
-        text: safeText,
-        archetype: persona.voiceArchetype,
-      });
+    if (upload.sessionId !== existing.sessionId) {
+      throw new Error("Image session mismatch");
+    }
 
-      const conversationId = randomUUID();
-      const conversationState: ConversationState = {
-        conversationId,
-        sessionId: existing.sessionId,
+    return { ...upload, filePath: upload.filePath, mimeType: upload.mimeType };
+  }
+
+  // Scan, quality gate, face privacy, then a near-duplicate or vision. Resolves null once it has failed the analysis.
+  private async detectUpload(
+    analysisId: string,
+    existing: AnalysisResult,
+    upload: UploadTarget & { filePath: string; mimeType: string },
+    focus: FocusRegion | undefined,
+    signal: AbortSignal,
+  ): Promise<ImageDetection | null> {
+    ingestionService.validateMimeType(upload.mimeType);
+    const finding = await tracingService.span("scan", {}, () =>
+      ingestionService.malwareScan(upload.filePath, upload.mimeType),
+    );
+    if (finding) {
+      await uploadService.quarantine(upload.uploadId, finding);
+      this.recordProgress(
+        analysisId,
+        "failed",
+        { error: `Upload rejected: ${finding.detail}`, error_code: finding.threat, retake_hint: REJECTED_UPLOAD_HINT },
+        {
+          status: "failed",
+          error: `Upload rejected: ${finding.detail}`,
+          errorCode: finding.threat,
+          retakeHint: REJECTED_UPLOAD_HINT,
+        },
+      );
+      return null;
+    }
+
+    const preprocess = () =>
+      tracingService.span("preprocess", { provider: "sharp" }, () => ingestionService.preprocessImage(upload.filePath));
+    signal.throwIfAborted();
+    const { normalizedPath, qualityIssue } = await preprocess();
+    const normalizedMimeType = "image/jpeg";
+    if (qualityIssue) {
+      const hint = retakeHintFor(qualityIssue);
+      this.recordProgress(
+        analysisId,
+        "failed",
+        { error: `Image rejected: ${qualityIssue}`, error_code: qualityIssue, retake_hint: hint },
+        { status: "failed", error: `Image rejected: ${qualityIssue}`, errorCode: qualityIssue, retakeHint: hint },
+      );
+      return null;
+    }
+
+    // The crop is rewritten whenever the normalized copy is blurred, so it never holds an unblurred face.
+    const cropFocus = async () => (focus ? ingestionService.cropToFocus(normalizedPath, focus) : undefined);
+
+    // A focused photo is fingerprinted by its crop: tapping another object in the same scene is a new subject.
+    const imageHash = await ingestionService.perceptualHash((await cropFocus()) ?? normalizedPath);
+    const faces = store.getPolicy().enforceFaceBlur
+      ? await tracingService.span("face_detection", {}, () => ingestionService.detectFaces(normalizedPath))
+      : [];
+
+    signal.throwIfAborted();
+    const match = ingestionService.findNearDuplicate(existing, imageHash);
+    if (match) {
+      const { entity } = match.fingerprint;
+      const facesBlurred = faces.length > 0 && !isDepictedArtwork(entity);
+      if (facesBlurred) {
+        await ingestionService.blurFaces(normalizedPath, faces);
+        await uploadService.replaceWithRedacted(upload.uploadId, normalizedPath);
+        await cropFocus();
+      }
+
+      analyticsService.track("dedupe_hit", existing.sessionId, {
+        analysisId,
+        duplicateOf: match.fingerprint.analysisId,
+        distance: match.distance,
+        entity: entity.label,
+      });
+      return {
         entity,
-        factPack,
-        persona,
-        usedFactIndexes: new Set([0, 1]),
-        turns: [
-          {
-            turnId: randomUUID(),
-            userInput: "[initial-analysis]",
-            assistantText: safeText,
-            safetyVerdict: moderated.verdict,
-            createdAt: new Date().toISOString(),
-          },
+        candidates: store.analyses.get(match.fingerprint.analysisId)?.candidates ?? [
+          { entityId: entity.entityId, label: entity.label, confidence: entity.confidence },
         ],
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
+        duplicate: match.fingerprint,
+        imageHash,
+        facesDetected: faces.length,
+        facesBlurred,
       };
+    }
+
+    // The child's focus region leads and the full photo comes along as context.
+    const detect = async () => {
+      const focusPath = await cropFocus();
+      return tracedStage(STAGES.vision, signal, (stageSignal) =>
+        visionService.detectEntity({
+          sessionId: existing.sessionId,
+          imagePath: focusPath ?? normalizedPath,
+          contextImagePath: focusPath ? normalizedPath : undefined,
+          mimeType: normalizedMimeType,
+          signal: stageSignal,
+        }),
+      );
+    };
 
-      store.conversations.set(conversationId, conversationState);
+    // Faces are blurred before the provider sees the photo. Depicted artworks are the exception: their
+    // faces are not personal data, so the unblurred copy is restored and looked at again.
+    await ingestionService.blurFaces(normalizedPath, faces);
+    let detection = await detect();
+    const restored = faces.length > 0 && isDepictedArtwork(detection.entity);
+    if (restored) {
+      await preprocess();
+      detection = await detect();
+    }
 
-      this.updateAnalysis(analysisId, {
-        status: "ready",
+    const facesBlurred = faces.length > 0 && !isDepictedArtwork(detection.entity);
+    if (facesBlurred) {
+      if (restored) {
+        await ingestionService.blurFaces(normalizedPath, faces);
+        await cropFocus();
+      }
+      await uploadService.replaceWithRedacted(upload.uploadId, normalizedPath);
+    }
+
+    return { ...detection, imageHash, facesDetected: faces.length, facesBlurred };
+  }
+
+  private async runPipeline(
+    analysisId: string,
+    signal: AbortSignal,
+    // Resolves null when the resolver has already settled the analysis itself.
+    resolveEntity: (existing: AnalysisResult) => Promise<ResolvedEntity | null>,
+    options: { confirmLowConfidence: boolean },
+  ): Promise<void> {
+    const existing = store.analyses.get(analysisId);
+    if (!existing || existing.status === "cancelled") {
+      return;
+    }
+
+    updateLiveAnalysis(analysisId, { status: "processing" });
+
+    try {
+      const resolved = await resolveEntity(existing);
+      if (!resolved) {
+        return;
+      }
+
+      const { entity, duplicate, partner } = resolved;
+      // The guessing game needs a single persona, so two-photo analyses go ahead with their best guesses.
+      const needsConfirmation = !duplicate && !partner && entity.confidence < store.getPolicy().minEntityConfidence;
+      if (options.confirmLowConfidence && needsConfirmation) {
+        await this.askForConfirmation(analysisId, existing, entity, signal);
+        return;
+      }
+
+      const ageBand = existing.ageBand ?? DEFAULT_AGE_BAND;
+      // A repeat photo still resolves its pack through research, usually a cache hit, so it gets the version a
+      // reviewer approved or edited, the current age band, and nothing a tightened policy has since dropped.
+      const research = async (item: ResolvedEntity) => {
+        const pack = await tracedStage(STAGES.research, signal, (stageSignal) =>
+          researchService.getFactPack(item.entity, { ageBand, signal: stageSignal }),
+        );
+        return item.duplicate ? freshFactsFirst(pack, item.duplicate) : pack;
+      };
+      const [factPack, partnerFactPack] = await Promise.all([research(resolved), partner ? research(partner) : undefined]);
+      this.recordProgress(analysisId, "research_ready", {
+        summary: factPack.summary,
+        fact_count: factPack.facts.length,
+        provisional: Boolean(factPack.provisional),
+        reused: Boolean(duplicate),
+        ...(partnerFactPack ? { partner_fact_count: partnerFactPack.facts.length } : {}),
+      });
+
+      if (partner && partnerFactPack) {
+        const meetingPartner = { entity: partner.entity, factPack: partnerFactPack };
+        await this.openMeeting(analysisId, existing, { entity, factPack, duplicate }, meetingPartner, signal);
+        return;
+      }
+
+      const persona = personaService.buildPersona(entity);
+      const hook = personaService.buildHook(entity, duplicate?.hookText, ageBand);
+      const opening = await tracedStage(STAGES.persona, signal, (stageSignal) =>
+        composeOpeningReply({ entity, hook, factPack, ageBand, signal: stageSignal }),
+      );
+
+      const moderated = moderationService.moderateOutput(existing.sessionId, opening.text);
+      const safeText = moderated.transformedText ?? opening.text;
+      this.recordProgress(
+        analysisId,
+        "persona_built",
+        { persona, hook_text: hook, first_reply_text: safeText },
+        { hookText: hook, firstReplyText: safeText, safetyStatus: moderated.verdict },
+      );
+
+      const voiceAsset = await this.synthesizeWithinBudget(existing, safeText, persona, signal);
+      const conversationId = this.startConversation(existing, {
         entity,
-        hookText: hook,
-        firstReplyText: safeText,
-        firstReplyAudioStreamUrl: voiceAsset?.streamUrl,
-        safetyStatus: moderated.verdict,
-        conversationId,
+        factPack,
+        persona,
+        openingText: safeText,
+        safetyVerdict: moderated.verdict,
+        audioId: voiceAsset?.audioId,
+        readability: moderated.transformedText ? undefined : opening.readability,
       });
+      trackReadability(existing.sessionId, opening.readability, { conversationId });
+
+      this.rememberImage(analysisId, { entity, factPack, hookText: hook, conversationId, duplicate });
+      this.recordProgress(
+        analysisId,
+        "audio_ready",
+        { first_reply_audio_stream_url: voiceAsset?.streamUrl ?? null, conversation_id: conversationId },
+        { status: "ready", firstReplyAudioStreamUrl: voiceAsset?.streamUrl, conversationId },
+      );
 
       analyticsService.track("first_audio_ready", existing.sessionId, {
         analysisId,
@@ -137,25 +509,280 @@ export class AnalysisService {
         entity: entity.label,
       });
     } catch (error) {
-      this.updateAnalysis(analysisId, {
-        status: "failed",
-        error: String(error),
-      });
+      if (signal.aborted) {
+        return;
+      }
+
+      this.recordProgress(analysisId, "failed", { error: String(error) }, { status: "failed", error: String(error) });
     }
   }
 
-  private updateAnalysis(analysisId: string, patch: Partial<AnalysisResult>): void {
-    const current = store.analyses.get(analysisId);
-    if (!current) {
+  // Both personas introduce themselves, the partner answering the primary, each in its own voice.
+  private async openMeeting(
+    analysisId: string,
+    existing: AnalysisResult,
+    primary: { entity: CanonicalEntity; factPack: FactPack; duplicate?: ImageFingerprint },
+    partner: { entity: CanonicalEntity; factPack: FactPack },
+    signal: AbortSignal,
+  ): Promise<void> {
+    const persona = personaService.buildPersona(primary.entity);
+    const partnerPersona = personaService.buildPartnerPersona(partner.entity, persona);
+    const hook = personaService.buildMeetingHook(primary.entity, partner.entity, "primary");
+    const partnerHook = personaService.buildMeetingHook(partner.entity, primary.entity, "partner");
+
+    const opening = await tracedStage(STAGES.persona, signal, (stageSignal) =>
+      composeOpeningReply({
+        ...primary,
+        hook,
+        companion: { name: partner.entity.roleplayName },
+        ageBand: existing.ageBand,
+        signal: stageSignal,
+      }),
+    );
+    const moderated = moderationService.moderateOutput(existing.sessionId, opening.text);
+    const safeText = moderated.transformedText ?? opening.text;
+
+    const partnerOpening = await tracedStage(STAGES.persona, signal, (stageSignal) =>
+      composeOpeningReply({
+        ...partner,
+        hook: partnerHook,
+        companion: { name: primary.entity.roleplayName, lastLine: safeText },
+        ageBand: existing.ageBand,
+        signal: stageSignal,
+      }),
+    );
+    const partnerModerated = moderationService.moderateOutput(existing.sessionId, partnerOpening.text);
+    const partnerSafeText = partnerModerated.transformedText ?? partnerOpening.text;
+    const safetyStatus = worstVerdict([moderated.verdict, partnerModerated.verdict]);
+
+    this.recordProgress(
+      analysisId,
+      "persona_built",
+      {
+        persona,
+        partner_persona: partnerPersona,
+        hook_text: hook,
+        first_reply_text: safeText,
+        partner_reply_text: partnerSafeText,
+      },
+      { hookText: hook, firstReplyText: safeText, partnerReplyText: partnerSafeText, safetyStatus },
+    );
+
+    const [voiceAsset, partnerVoiceAsset] = await Promise.all([
+      this.synthesizeWithinBudget(existing, safeText, persona, signal),
+      this.synthesizeWithinBudget(existing, partnerSafeText, partnerPersona, signal),
+    ]);
+    const lines: ConversationLine[] = [
+      {
+        speaker: "primary",
+        text: safeText,
+        safetyVerdict: moderated.verdict,
+        audioId: voiceAsset?.audioId,
+        readability: moderated.transformedText ? undefined : opening.readability,
+      },
+      {
+        speaker: "partner",
+        text: partnerSafeText,
+        safetyVerdict: partnerModerated.verdict,
+        audioId: partnerVoiceAsset?.audioId,
+        readability: partnerModerated.transformedText ? undefined : partnerOpening.readability,
+      },
+    ];
+    const conversationPartner = { ...partner, persona: partnerPersona, usedFactIndexes: new Set([0, 1]) };
+    const conversationId = this.startConversation(existing, {
+      entity: primary.entity,
+      factPack: primary.factPack,
+      persona,
+      partner: conversationPartner,
+      openingText: transcriptOf(speakerNames({ entity: primary.entity, partner: conversationPartner }), lines),
+      safetyVerdict: safetyStatus,
+      audioId: voiceAsset?.audioId,
+      lines,
+    });
+    trackReadability(existing.sessionId, opening.readability, { conversationId, speaker: "primary" });
+    trackReadability(existing.sessionId, partnerOpening.readability, { conversationId, speaker: "partner" });
+
+    this.rememberImage(analysisId, { ...primary, hookText: hook, conversationId });
+    this.recordProgress(
+      analysisId,
+      "audio_ready",
+      {
+        first_reply_audio_stream_url: voiceAsset?.streamUrl ?? null,
+        partner_reply_audio_stream_url: partnerVoiceAsset?.streamUrl ?? null,
+        conversation_id: conversationId,
+      },
+      {
+        status: "ready",
+        firstReplyAudioStreamUrl: voiceAsset?.streamUrl,
+        partnerReplyAudioStreamUrl: partnerVoiceAsset?.streamUrl,
+        conversationId,
+      },
+    );
+
+    analyticsService.track("first_audio_ready", existing.sessionId, {
+      analysisId,
+      hasAudio: Boolean(voiceAsset),
+      entity: primary.entity.label,
+      partnerEntity: partner.entity.label,
+    });
+  }
+
+  // Below the policy threshold the opening becomes a guessing game; the child's first answer picks the entity.
+  private async askForConfirmation(
+    analysisId: string,
+    existing: AnalysisResult,
+    entity: CanonicalEntity,
+    signal: AbortSignal,
+  ): Promise<void> {
+    const candidates = store.analyses.get(analysisId)?.candidates ?? [];
+    const persona = personaService.buildPersona(entity);
+    const guessText = personaService.buildGuessingReply(candidates.map((candidate) => candidate.label));
+    const moderated = moderationService.moderateOutput(existing.sessionId, guessText);
+    const safeText = moderated.transformedText ?? guessText;
+
+    const voiceAsset = await this.synthesizeWithinBudget(existing, safeText, persona, signal);
+    const conversationId = this.startConversation(existing, {
+      entity,
+      factPack: { entity, facts: [], summary: "", generatedAt: new Date().toISOString() },
+      persona,
+      openingText: safeText,
+      safetyVerdict: moderated.verdict,
+      audioId: voiceAsset?.audioId,
+      pendingConfirmation: { analysisId, candidates },
+    });
+
+    this.recordProgress(
+      analysisId,
+      "needs_confirmation",
+      {
+        candidates,
+        first_reply_text: safeText,
+        first_reply_audio_stream_url: voiceAsset?.streamUrl ?? null,
+        conversation_id: conversationId,
+      },
+      {
+        status: "needs_confirmation",
+        firstReplyText: safeText,
+        firstReplyAudioStreamUrl: voiceAsset?.streamUrl,
+        safetyStatus: moderated.verdict,
+        conversationId,
+      },
+    );
+  }
+
+  private rememberImage(
+    analysisId: string,
+    input: { entity: CanonicalEntity; factPack: FactPack; hookText: string; conversationId: string; duplicate?: ImageFingerprint },
+  ): void {
+    const now = new Date().toISOString();
+    if (input.duplicate) {
+      ingestionService.rememberFingerprint({
+        ...input.duplicate,
+        factPack: input.factPack,
+        hookText: input.hookText,
+        conversationIds: [...input.duplicate.conversationIds, input.conversationId],
+        lastMatchedAt: now,
+      });
+      return;
+    }
+
+    const analysis = store.analyses.get(analysisId);
+    if (!analysis?.imageHash) {
       return;
     }
 
-    store.analyses.set(analysisId, {
-      ...current,
-      ...patch,
-      updatedAt: new Date().toISOString(),
+    ingestionService.rememberFingerprint({
+      analysisId,
+      sessionId: analysis.sessionId,
+      childId: analysis.childId,
+      hash: analysis.imageHash,
+      entity: input.entity,
+      factPack: input.factPack,
+      hookText: input.hookText,
+      conversationIds: [input.conversationId],
+      createdAt: now,
+      lastMatchedAt: now,
+    });
+  }
+
+  // Audio is optional: after the TTS budget is spent the reply still goes out as text.
+  private synthesizeWithinBudget(
+    existing: AnalysisResult,
+    text: string,
+    persona: PersonaProfile,
+    signal: AbortSignal,
+  ): Promise<{ audioId: string; streamUrl: string } | null> {
+    return tracedStage(STAGES.tts, signal, (stageSignal) =>
+      voiceService.synthesizeToAsset({
+        sessionId: existing.sessionId,
+        text,
+        archetype: persona.voiceArchetype,
+        ageBand: existing.ageBand,
+        signal: stageSignal,
+      }),
+    ).catch((error: unknown) => {
+      if (signal.aborted) {
+        throw error;
+      }
+
+      return null;
     });
   }
+
+  private startConversation(
+    existing: AnalysisResult,
+    input: Pick<ConversationState, "entity" | "factPack" | "persona" | "partner" | "pendingConfirmation"> & {
+      openingText: string;
+      safetyVerdict: SafetyVerdict;
+      audioId?: string;
+      lines?: ConversationLine[];
+      readability?: ReplyReadability;
+    },
+  ): string {
+    const now = new Date().toISOString();
+    const conversation: ConversationState = {
+      conversationId: randomUUID(),
+      sessionId: existing.sessionId,
+      childId: existing.childId,
+      ageBand: existing.ageBand,
+      entity: input.entity,
+      factPack: input.factPack,
+      persona: input.persona,
+      usedFactIndexes: new Set(input.pendingConfirmation ? [] : [0, 1]),
+      partner: input.partner,
+      turns: [
+        {
+          turnId: randomUUID(),
+          userInput: OPENING_TURN_INPUT,
+          assistantText: input.openingText,
+          safetyVerdict: input.safetyVerdict,
+          audioId: input.audioId,
+          lines: input.lines,
+          readability: input.readability,
+          createdAt: now,
+        },
+      ],
+      pendingConfirmation: input.pendingConfirmation,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    store.conversations.set(conversation.conversationId, conversation);
+    return conversation.conversationId;
+  }
+
+  private recordProgress(
+    analysisId: string,
+    stage: AnalysisStage,
+    data: Record<string, unknown>,
+    patch: Partial<AnalysisResult> = {},
+  ): void {
+    const event: AnalysisProgressEvent = { analysisId, stage, data, createdAt: new Date().toISOString() };
+    const updated = updateLiveAnalysis(analysisId, (current) => ({ ...patch, progress: [...(current.progress ?? []), event] }));
+    if (updated) {
+      this.progress.emit(analysisId, event);
+    }
+  }
 }
 
 export const analysisService = new AnalysisService();
@@ -0,0 +1,26 @@
+import { store } from "../stores/index.js";
+import type { AnalysisResult } from "../types/domain.js";
+
+// Patches are applied to the stored analysis as it is at write time, never to a copy read before an await.
+// Cancelled is final: a run still winding down, or a late answer to the guessing game, cannot record progress or move
+// the status on, so this returns undefined for it just as for a missing analysis.
+export const updateLiveAnalysis = (
+  analysisId: string,
+  patch: Partial<AnalysisResult> | ((current: AnalysisResult) => Partial<AnalysisResult>),
+): AnalysisResult | undefined => {
+  // The store hands back the unchanged record when nothing is written, so a refused write is tracked here.
+  let written = false;
+  const updated = store.analyses.update(analysisId, (current) => {
+    if (!current || current.status === "cancelled") {
+      return undefined;
+    }
+
+    written = true;
+    return {
+      ...current,
+      ...(typeof patch === "function" ? patch(current) : patch),
+      updatedAt: new Date().toISOString(),
+    };
+  });
+  return written ? updated : undefined;
+};
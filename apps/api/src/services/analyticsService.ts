@@ -1,5 +1,8 @@
-import { store } from "../stores/inMemoryStore.js";
-import type { AnalyticsEvent, AnalyticsEventName } from "../types/domain.js";
+import { store } from "../stores/index.js";
+import type { AnalyticsEvent, AnalyticsEventName, StageLatency } from "../types/domain.js";
+import { audioCacheService } from "./audioCacheService.js";
+import { analysisQueue, type JobQueueStats } from "./jobQueue.js";
+import { tracingService } from "./tracingService.js";
 
 export class AnalyticsService {
   track(eventName: AnalyticsEventName, sessionId: string, metadata: Record<string, string | number | boolean | null> = {}): void {
@@ -10,26 +13,44 @@ export class AnalyticsService {
       createdAt: new Date().toISOString(),
     };
 
-    store.analytics.push(item);
+    store.analytics.append(item);
   }
 
   getDashboard(): {
     totalSessions: number;
     totalUploads: number;
+    dedupeHits: number;
     averageTurnsPerSession: number;
     safetyIncidents: number;
+    replyReadability: { scored: number; passRate: number; simplified: number; templateFallbacks: number };
+    ttsCache: ReturnType<typeof audioCacheService.getStats>;
+    analysisQueue: JobQueueStats;
+    stageLatency: Record<string, StageLatency>;
     events: AnalyticsEvent[];
   } {
-    const sessions = new Set(store.analytics.map((event) => event.sessionId));
-    const uploads = store.analytics.filter((event) => event.eventName === "upload_started").length;
-    const turns = store.analytics.filter((event) => event.eventName === "chat_turn").length;
+    const events = store.analytics.list();
+    const sessions = new Set(events.map((event) => event.sessionId));
+    const uploads = events.filter((event) => event.eventName === "upload_started").length;
+    const dedupeHits = events.filter((event) => event.eventName === "dedupe_hit").length;
+    const turns = events.filter((event) => event.eventName === "chat_turn").length;
+    const scored = events.filter((event) => event.eventName === "reply_readability");
 
     return {
       totalSessions: sessions.size,
       totalUploads: uploads,
+      dedupeHits,
       averageTurnsPerSession: sessions.size > 0 ? Number((turns / sessions.size).toFixed(2)) : 0,
-      safetyIncidents: store.incidents.length,
-      events: store.analytics.slice(-100),
+      safetyIncidents: store.incidents.count(),
+      replyReadability: {
+        scored: scored.length,
+        passRate: scored.length > 0 ? Number((scored.filter((event) => event.metadata.passed).length / scored.length).toFixed(2)) : 0,
+        simplified: scored.filter((event) => event.metadata.source === "simplified").length,
+        templateFallbacks: scored.filter((event) => event.metadata.source === "template").length,
+      },
+      ttsCache: audioCacheService.getStats(),
+      analysisQueue: analysisQueue.getStats(),
+      stageLatency: tracingService.latencyByStage(),
+      events: events.slice(-100),
     };
   }
 }
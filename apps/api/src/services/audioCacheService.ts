@@ -0,0 +1,147 @@
+import { createHash } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { env } from "../config/env.js";
+import { store } from "../stores/index.js";
+import type { AgeBand, AudioCacheEntry, VoiceProviderName } from "../types/domain.js";
+import { logger } from "../utils/logger.js";
+
+export type AudioCacheKeyInput = {
+  provider: VoiceProviderName;
+  voiceName: string;
+  styleInstruction?: string;
+  // Gemini paces speech by age band, so the same words are different audio per band.
+  ageBand?: AgeBand;
+  text: string;
+};
+
+export class AudioCacheService {
+  private hits = 0;
+  private misses = 0;
+
+  constructor(
+    readonly cacheDir = path.resolve(env.dataDir, "audio", "cache"),
+    private readonly maxBytes = env.ttsCacheMaxBytes,
+  ) {}
+
+  isEnabled(): boolean {
+    return this.maxBytes > 0;
+  }
+
+  keyFor(input: AudioCacheKeyInput): string {
+    const normalizedText = input.text.replace(/\s+/g, " ").trim();
+    return createHash("sha256")
+      .update(JSON.stringify([input.provider, input.voiceName, input.styleInstruction ?? "", input.ageBand ?? "", normalizedText]))
+      .digest("hex");
+  }
+
+  // Returns the first cached entry in provider preference order and counts one hit or miss.
+  async findFirst(cacheKeys: string[]): Promise<AudioCacheEntry | null> {
+    for (const cacheKey of cacheKeys) {
+      const entry = store.audioCache.get(cacheKey);
+      if (!entry) {
+        continue;
+      }
+
+      const exists = await fs
+        .access(entry.filePath)
+        .then(() => true)
+        .catch(() => false);
+      if (!exists) {
+        store.audioCache.delete(cacheKey);
+        continue;
+      }
+
+      const touched = store.audioCache.update(
+        cacheKey,
+        (current) => current && { ...current, hits: current.hits + 1, lastUsedAt: new Date().toISOString() },
+      );
+      if (!touched) {
+        continue;
+      }
+
+      this.hits += 1;
+      return touched;
+    }
+
+    this.misses += 1;
+    return null;
+  }
+
+  async save(input: {
+    cacheKey: string;
+    provider: VoiceProviderName;
+    voiceName: string;
+    audio: Buffer;
+    contentType: string;
+    extension: string;
+  }): Promise<AudioCacheEntry> {
+    await fs.mkdir(this.cacheDir, { recursive: true });
+
+    const filePath = path.resolve(this.cacheDir, `${input.cacheKey}.${input.extension}`);
+    await fs.writeFile(filePath, input.audio);
+
+    const now = new Date().toISOString();
+    const entry: AudioCacheEntry = {
+      cacheKey: input.cacheKey,
+      provider: input.provider,
+      voiceName: input.voiceName,
+      contentType: input.contentType,
+      filePath,
+      bytes: input.audio.byteLength,
+      hits: 0,
+      createdAt: now,
+      lastUsedAt: now,
+    };
+
+    store.audioCache.set(input.cacheKey, entry);
+    await this.evict(input.cacheKey);
+    return entry;
+  }
+
+  getStats(): {
+    hits: number;
+    misses: number;
+    hitRate: number;
+    entries: number;
+    bytes: number;
+    maxBytes: number;
+  } {
+    const entries = store.audioCache.values();
+    const lookups = this.hits + this.misses;
+
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? Number((this.hits / lookups).toFixed(3)) : 0,
+      entries: entries.length,
+      bytes: entries.reduce((sum, entry) => sum + entry.bytes, 0),
+      maxBytes: this.maxBytes,
+    };
+  }
+
+  // Least recently used entries go first; the entry just written is never evicted. Neither is audio a live voice asset
+  // still plays from: it stays, over budget if need be, until retention expires those assets.
+  private async evict(keep: string): Promise<void> {
+    const entries = store.audioCache.values().sort((a, b) => Date.parse(a.lastUsedAt) - Date.parse(b.lastUsedAt));
+    const inUse = new Set(store.voiceAssets.values().map((asset) => asset.cacheKey));
+    let total = entries.reduce((sum, entry) => sum + entry.bytes, 0);
+
+    for (const entry of entries) {
+      if (total <= this.maxBytes) {
+        break;
+      }
+
+      if (entry.cacheKey === keep || inUse.has(entry.cacheKey)) {
+        continue;
+      }
+
+      await fs.rm(entry.filePath, { force: true });
+      store.audioCache.delete(entry.cacheKey);
+      total -= entry.bytes;
+      logger.info("Evicted cached audio", { cacheKey: entry.cacheKey, bytes: entry.bytes });
+    }
+  }
+}
+
+export const audioCacheService = new AudioCacheService();
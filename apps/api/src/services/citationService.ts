@@ -0,0 +1,90 @@
+import { env } from "../config/env.js";
+import type { FactItem, FactVerification } from "../types/domain.js";
+import { citationFetcher, type CitationFetcher } from "./providers/citationFetcher.js";
+import { geminiClient } from "./providers/geminiClient.js";
+import { tracingService } from "./tracingService.js";
+
+const STOPWORDS = new Set(
+  (
+    "the and for are was were that this with from have has had its it's they them their than then there these those " +
+    "into onto over under about after before when where which while who whom whose what why how can could would should " +
+    "will just also very more most some many much such only even ever still been being did does doing you your our ours"
+  ).split(" "),
+);
+
+// Sentences per window: claims often span a sentence and the one that follows it.
+const WINDOW_SENTENCES = 3;
+
+// Lowercased content words with a light plural strip, so "towers" still matches "tower".
+const contentWords = (text: string): string[] =>
+  (text.toLowerCase().normalize("NFKD").replace(/[\u0300-\u036f]/g, "").match(/[a-z0-9]+/g) ?? [])
+    .filter((word) => (word.length > 2 || /\d/.test(word)) && !STOPWORDS.has(word))
+    .map((word) => (word.length > 4 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word));
+
+// The share of the claim's content words found together in the best few-sentence window of the page.
+export const lexicalSupport = (claim: string, pageText: string): { score: number; passage: string } => {
+  const claimWords = [...new Set(contentWords(claim))];
+  if (claimWords.length === 0) {
+    return { score: 0, passage: "" };
+  }
+
+  const sentences = pageText.split(/(?<=[.!?])\s+/);
+  let best = { score: 0, passage: "" };
+  for (let start = 0; start < sentences.length; start += 1) {
+    const passage = sentences.slice(start, start + WINDOW_SENTENCES).join(" ");
+    const words = new Set(contentWords(passage));
+    const score = claimWords.filter((word) => words.has(word)).length / claimWords.length;
+    if (score > best.score) {
+      best = { score, passage };
+    }
+  }
+
+  return { score: Number(best.score.toFixed(3)), passage: best.passage };
+};
+
+export class CitationService {
+  constructor(private readonly fetcher: CitationFetcher = citationFetcher) {}
+
+  // Only URLs passing `fetchable` are requested, so verification never reaches hosts outside the allowed domains.
+  async verifyFacts(
+    facts: FactItem[],
+    options: { minSupport: number; fetchable: (url: string) => boolean; signal?: AbortSignal },
+  ): Promise<FactItem[]> {
+    return tracingService.span("research.verify", { provider: this.fetcher.name }, () =>
+      Promise.all(facts.map(async (fact) => ({ ...fact, verification: await this.verifyFact(fact, options) }))),
+    );
+  }
+
+  private async verifyFact(
+    fact: FactItem,
+    options: { minSupport: number; fetchable: (url: string) => boolean; signal?: AbortSignal },
+  ): Promise<FactVerification> {
+    const checkedAt = new Date().toISOString();
+    const pages = await Promise.all(
+      fact.sourceUrls.filter(options.fetchable).map((url) => this.fetcher.fetchPage(url, options)),
+    );
+    const fetched = pages.filter((page) => page !== null);
+    if (fetched.length === 0) {
+      return { status: "unreachable", score: 0, checkedAt };
+    }
+
+    const [best] = fetched
+      .map((page) => ({ url: page.url, ...lexicalSupport(fact.claim, page.text) }))
+      .sort((a, b) => b.score - a.score);
+
+    // Paraphrases defeat word overlap, so a model may vouch for the best passage when enabled.
+    let score = best.score;
+    if (score < options.minSupport && env.citationModelCheck && best.passage) {
+      score = Math.max(score, (await geminiClient.judgeCitationSupport(fact.claim, best.passage, options.signal)) ?? 0);
+    }
+
+    return {
+      status: score >= options.minSupport ? "verified" : "unsupported",
+      score,
+      supportingUrl: score > 0 ? best.url : undefined,
+      checkedAt,
+    };
+  }
+}
+
+export const citationService = new CitationService();
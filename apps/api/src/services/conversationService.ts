@@ -1,26 +1,238 @@
 import { randomUUID } from "node:crypto";
-import { store } from "../stores/inMemoryStore.js";
-import type { ConversationTurn, SafetyVerdict } from "../types/domain.js";
+import { store } from "../stores/index.js";
+import type {
+  Addressee,
+  AgeBand,
+  CanonicalEntity,
+  ConversationLine,
+  ConversationPartner,
+  ConversationState,
+  ConversationTurn,
+  EntityCandidate,
+  FactItem,
+  FactPack,
+  ModerationResult,
+  ReplyReadability,
+  SafetyVerdict,
+  Speaker,
+} from "../types/domain.js";
+import { updateLiveAnalysis } from "./analysisState.js";
 import { analyticsService } from "./analyticsService.js";
-import { geminiClient } from "./providers/geminiClient.js";
+import { ingestionService } from "./ingestionService.js";
+import { geminiClient, type Companion } from "./providers/geminiClient.js";
 import { moderationService } from "./moderationService.js";
 import { personaService } from "./personaService.js";
+import { readabilityService } from "./readabilityService.js";
+import { researchService } from "./researchService.js";
 import { speechService } from "./speechService.js";
+import { visionService } from "./visionService.js";
 import { voiceService } from "./voiceService.js";
 
+// The persona's opening line is stored as a turn with this placeholder in place of child input.
+export const OPENING_TURN_INPUT = "[initial-analysis]";
+
+type ConversationScope = {
+  sessionId: string;
+  childId?: string;
+};
+
+type ChatTurnResult = {
+  turn: ConversationTurn;
+  replyAudioStreamUrl?: string;
+  followupSuggestions: string[];
+  // One entry per persona that spoke, for "meet each other" conversations.
+  replies?: Array<{ speaker: Speaker; speakerName: string; text: string; audioStreamUrl?: string }>;
+};
+
+// What one persona needs to answer: the primary's lives on the conversation itself, the partner's on `partner`.
+type PersonaVoice = Pick<ConversationPartner, "entity" | "factPack" | "persona" | "usedFactIndexes">;
+
+type RecentTurns = Array<{ user: string; assistant: string }>;
+
+type ScoredReply = { text: string; readability: ReplyReadability };
+
+const BLOCKED_INPUT_REPLY = "Let's switch to a safe and fun science question.";
+
+const AFFIRMATIVE_PATTERN = /^(?:yes|yeah|yep|yup|right|correct)\b/i;
+
+// Simplified rewrites asked of the model before a reply that reads above the child's age band gives way to the templates.
+const MAX_SIMPLIFY_ATTEMPTS = 1;
+
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Model drafts must pass the band's readability limits. The templates are the last resort and always go out, so
+// their score is recorded but not enforced.
+const readableReply = async (
+  generate: (simplify?: string) => Promise<string | null>,
+  fallback: () => string,
+  scoring: { ageBand?: AgeBand; names: Array<string | undefined> },
+): Promise<ScoredReply> => {
+  let simplify: string | undefined;
+  for (let attempt = 0; attempt <= MAX_SIMPLIFY_ATTEMPTS; attempt += 1) {
+    const text = await generate(simplify);
+    if (!text) {
+      break;
+    }
+
+    const score = readabilityService.score(text, scoring.ageBand, scoring.names);
+    if (score.passed) {
+      return { text, readability: { ...score, source: attempt === 0 ? "model" : "simplified" } };
+    }
+    simplify = readabilityService.simplificationNote(score);
+  }
+
+  const text = fallback();
+  return { text, readability: { ...readabilityService.score(text, scoring.ageBand, scoring.names), source: "template" } };
+};
+
+export const composeOpeningReply = (input: {
+  entity: CanonicalEntity;
+  hook: string;
+  factPack: FactPack;
+  companion?: Companion;
+  ageBand?: AgeBand;
+  signal?: AbortSignal;
+}): Promise<ScoredReply> =>
+  readableReply(
+    (simplify) =>
+      geminiClient.generateOpeningReply({
+        entity: input.entity,
+        hook: input.hook,
+        summary: input.factPack.summary,
+        candidateFacts: input.factPack.facts.slice(0, 3),
+        companion: input.companion,
+        ageBand: input.ageBand,
+        simplify,
+        signal: input.signal,
+      }),
+    () => personaService.buildFirstReply({ factPack: input.factPack, hook: input.hook, ageBand: input.ageBand }),
+    { ageBand: input.ageBand, names: [input.entity.label, input.entity.roleplayName, input.companion?.name] },
+  );
+
+// One `reply_readability` event per scored reply, whether or not moderation let it through unchanged.
+export const trackReadability = (
+  sessionId: string,
+  readability: ReplyReadability,
+  context: { conversationId: string; turnId?: string; speaker?: Speaker },
+): void =>
+  analyticsService.track("reply_readability", sessionId, {
+    conversationId: context.conversationId,
+    turnId: context.turnId ?? null,
+    speaker: context.speaker ?? null,
+    ageBand: readability.ageBand,
+    grade: readability.grade,
+    longestSentenceWords: readability.longestSentenceWords,
+    rareWords: readability.rareWords.length,
+    passed: readability.passed,
+    source: readability.source,
+  });
+
+export const worstVerdict = (verdicts: SafetyVerdict[]): SafetyVerdict =>
+  verdicts.includes("block") ? "block" : verdicts.includes("transform") ? "transform" : "allow";
+
+export const speakerNames = (conversation: Pick<ConversationState, "entity" | "partner">): Record<Speaker, string> => ({
+  primary: conversation.entity.roleplayName,
+  partner: conversation.partner?.entity.roleplayName ?? conversation.entity.roleplayName,
+});
+
+// The readable form of a two-persona turn, kept in `assistantText` for history lists and fact reuse.
+export const transcriptOf = (names: Record<Speaker, string>, lines: ConversationLine[]): string =>
+  lines.map((line) => `${names[line.speaker]}: ${line.text}`).join("\n");
+
+// Prefers a guess the child named; a bare "yes" confirms the top guess; otherwise the answer itself is the label.
+const resolveAnswer = (answer: string, candidates: EntityCandidate[]): string | null => {
+  const mentioned = candidates
+    .filter((candidate) => new RegExp(`\\b${escapeRegex(candidate.label)}\\b`, "i").test(answer))
+    .sort((a, b) => b.label.length - a.label.length);
+  if (mentioned[0]) {
+    return mentioned[0].label;
+  }
+
+  if (AFFIRMATIVE_PATTERN.test(answer.trim())) {
+    return candidates[0]?.label ?? null;
+  }
+
+  const label = answer
+    .replace(/^(?:no,?\s*)?(?:i think\s+)?(?:you(?:'re| are)|it(?:'s| is))\s+/i, "")
+    .replace(/^(?:a|an|the)\s+/i, "")
+    .replace(/[.!?]+$/g, "")
+    .trim();
+
+  return label.length > 0 && label.length <= 60 ? label : null;
+};
+
 export class ConversationService {
+  listConversations(scope: ConversationScope): ConversationState[] {
+    return store.conversations
+      .values()
+      .filter((conversation) => this.canAccess(conversation, scope))
+      .sort((a, b) => Date.parse(b.updatedAt) - Date.parse(a.updatedAt));
+  }
+
+  getConversation(conversationId: string, scope: ConversationScope): ConversationState | null {
+    const conversation = store.conversations.get(conversationId);
+    if (!conversation || !this.canAccess(conversation, scope)) {
+      return null;
+    }
+
+    return conversation;
+  }
+
+  // Voice files are purged long before conversations, so a resumed conversation has its lost audio spoken again. Only
+  // turns that had audio get it back, and their text was moderated when it was first said.
+  async restoreAudio(conversation: ConversationState, sessionId: string): Promise<ConversationState> {
+    const voices: Record<Speaker, PersonaVoice> = { primary: conversation, partner: conversation.partner ?? conversation };
+    let respoken = false;
+    const respeak = async (audioId: string | undefined, text: string, speaker: Speaker): Promise<string | undefined> => {
+      if (!audioId || (await voiceService.isAvailable(audioId))) {
+        return audioId;
+      }
+
+      respoken = true;
+      const voiceAsset = await voiceService.synthesizeToAsset({
+        sessionId,
+        text,
+        archetype: voices[speaker].persona.voiceArchetype,
+        ageBand: conversation.ageBand,
+      });
+      return voiceAsset?.audioId;
+    };
+
+    const restored = new Map<string, ConversationTurn>();
+    for (const turn of conversation.turns) {
+      if (turn.lines) {
+        const lines = await Promise.all(
+          turn.lines.map(async (line) => ({ ...line, audioId: await respeak(line.audioId, line.text, line.speaker) })),
+        );
+        restored.set(turn.turnId, { ...turn, lines, audioId: lines[0]?.audioId });
+      } else {
+        restored.set(turn.turnId, { ...turn, audioId: await respeak(turn.audioId, turn.assistantText, "primary") });
+      }
+    }
+
+    if (!respoken) {
+      return conversation;
+    }
+
+    // Turns added while the audio was being made are kept as they are.
+    return (
+      store.conversations.update(conversation.conversationId, (current) =>
+        current && { ...current, turns: current.turns.map((turn) => restored.get(turn.turnId) ?? turn) },
+      ) ?? conversation
+    );
+  }
+
   async chatTurn(input: {
     sessionId: string;
+    childId?: string;
     conversationId: string;
     text?: string;
     audioBlobUrl?: string;
-  }): Promise<{
-    turn: ConversationTurn;
-    replyAudioStreamUrl?: string;
-    followupSuggestions: string[];
-  }> {
-    const conversation = store.conversations.get(input.conversationId);
-    if (!conversation || conversation.sessionId !== input.sessionId) {
+    // Only meaningful when the conversation has a partner; defaults to both personas answering.
+    addressee?: Addressee;
+  }): Promise<ChatTurnResult> {
+    const conversation = this.getConversation(input.conversationId, input);
+    if (!conversation) {
       throw new Error("Conversation not found");
     }
 
@@ -36,37 +248,25 @@ export class ConversationService {
     const moderatedInput = moderationService.moderateInput(input.sessionId, userText);
     const safeInput = moderatedInput.transformedText ?? userText;
 
-    const recentTurns = conversation.turns.slice(-4).map((turn) => ({
-      user: turn.userInput,
-      assistant: turn.assistantText,
-    }));
-
-    const freshFact = personaService.pickFreshFact(conversation.factPack, conversation.usedFactIndexes);
-    const candidateFacts = [freshFact, ...conversation.factPack.facts.slice(0, 2)].filter(
-      (fact): fact is (typeof conversation.factPack.facts)[number] => Boolean(fact),
-    );
+    if (conversation.pendingConfirmation) {
+      return this.confirmEntity(conversation, input.sessionId, safeInput, moderatedInput.verdict);
+    }
 
-    const generatedReply = await geminiClient.generateFollowupReply({
-      entity: conversation.entity,
-      question: safeInput,
-      summary: conversation.factPack.summary,
-      candidateFacts,
-      recentTurns,
-    });
+    if (conversation.partner) {
+      const addressee = input.addressee ?? "both";
+      return this.meetingTurn(conversation, conversation.partner, input.sessionId, safeInput, moderatedInput, addressee);
+    }
 
-    const fallbackReply = personaService.buildFallbackReply({
-      factPack: conversation.factPack,
-      userQuestion: safeInput,
-      usedFactIndexes: conversation.usedFactIndexes,
+    const draft = await this.draftReply(conversation, safeInput, {
+      recentTurns: this.recentTurns(conversation),
+      ageBand: conversation.ageBand,
     });
-
-    const draftReply = generatedReply ?? fallbackReply;
-    const moderatedOutput = moderationService.moderateOutput(input.sessionId, draftReply);
+    const moderatedOutput = moderationService.moderateOutput(input.sessionId, draft.text);
 
     const replyText =
       moderatedInput.verdict === "block"
-        ? moderatedInput.transformedText ?? "Let's switch to a safe and fun science question."
-        : moderatedOutput.transformedText ?? draftReply;
+        ? moderatedInput.transformedText ?? BLOCKED_INPUT_REPLY
+        : moderatedOutput.transformedText ?? draft.text;
 
     const finalVerdict: SafetyVerdict =
       moderatedInput.verdict === "block"
@@ -75,39 +275,311 @@ export class ConversationService {
           ? "transform"
           : "allow";
 
-    const turn: ConversationTurn = {
-      turnId: randomUUID(),
+    const voiceAsset = await voiceService.synthesizeToAsset({
+      sessionId: input.sessionId,
+      text: replyText,
+      archetype: conversation.persona.voiceArchetype,
+      ageBand: conversation.ageBand,
+    });
+
+    const turn = this.appendTurn(conversation, {
       userInput: safeInput,
       assistantText: replyText,
       safetyVerdict: finalVerdict,
-      createdAt: new Date().toISOString(),
+      audioId: voiceAsset?.audioId,
+      readability: replyText === draft.text ? draft.readability : undefined,
+    });
+
+    analyticsService.track("chat_turn", input.sessionId, {
+      conversationId: input.conversationId,
+      verdict: finalVerdict,
+      hasAudio: Boolean(voiceAsset),
+    });
+    trackReadability(input.sessionId, draft.readability, { conversationId: input.conversationId, turnId: turn.turnId });
+
+    return {
+      turn,
+      replyAudioStreamUrl: voiceAsset?.streamUrl,
+      followupSuggestions: this.followupSuggestions(conversation),
+    };
+  }
+
+  // Each addressed persona answers in turn, hearing what the other just said; every line is moderated on its own.
+  private async meetingTurn(
+    conversation: ConversationState,
+    partner: ConversationPartner,
+    sessionId: string,
+    question: string,
+    moderatedInput: ModerationResult,
+    addressee: Addressee,
+  ): Promise<ChatTurnResult> {
+    const voices: Record<Speaker, PersonaVoice> = { primary: conversation, partner };
+    const names = speakerNames(conversation);
+    // Asked together, the two take turns going first so neither always has the last word.
+    const lastShared = [...conversation.turns].reverse().find((turn) => (turn.lines?.length ?? 0) > 1);
+    const primaryFirst = lastShared?.lines?.[0].speaker === "partner";
+    const order: Speaker[] =
+      addressee === "both" ? (primaryFirst ? ["primary", "partner"] : ["partner", "primary"]) : [addressee];
+    const recentTurns = this.recentTurns(conversation);
+
+    const drafts: Array<Omit<ConversationLine, "audioId">> = [];
+    const scored: Array<{ speaker: Speaker; readability: ReplyReadability }> = [];
+    if (moderatedInput.verdict === "block") {
+      drafts.push({ speaker: order[0], text: moderatedInput.transformedText ?? BLOCKED_INPUT_REPLY, safetyVerdict: "block" });
+    } else {
+      for (const speaker of order) {
+        const other: Speaker = speaker === "primary" ? "partner" : "primary";
+        const draft = await this.draftReply(voices[speaker], question, {
+          recentTurns,
+          ageBand: conversation.ageBand,
+          companion: { name: names[other], lastLine: drafts.at(-1)?.text },
+        });
+        const moderatedOutput = moderationService.moderateOutput(sessionId, draft.text);
+        drafts.push({
+          speaker,
+          text: moderatedOutput.transformedText ?? draft.text,
+          safetyVerdict: moderatedOutput.verdict === "transform" ? "transform" : "allow",
+          readability: moderatedOutput.transformedText ? undefined : draft.readability,
+        });
+        scored.push({ speaker, readability: draft.readability });
+      }
+    }
+
+    const voiceAssets = await Promise.all(
+      drafts.map((line) =>
+        voiceService.synthesizeToAsset({
+          sessionId,
+          text: line.text,
+          archetype: voices[line.speaker].persona.voiceArchetype,
+          ageBand: conversation.ageBand,
+        }),
+      ),
+    );
+    const lines: ConversationLine[] = drafts.map((line, index) => ({ ...line, audioId: voiceAssets[index]?.audioId }));
+
+    const turn = this.appendTurn(conversation, {
+      userInput: question,
+      assistantText: transcriptOf(names, lines),
+      safetyVerdict: worstVerdict(lines.map((line) => line.safetyVerdict)),
+      audioId: lines[0]?.audioId,
+      addressee,
+      lines,
+    });
+
+    analyticsService.track("chat_turn", sessionId, {
+      conversationId: conversation.conversationId,
+      verdict: turn.safetyVerdict,
+      hasAudio: voiceAssets.some(Boolean),
+      addressee,
+    });
+    for (const { speaker, readability } of scored) {
+      trackReadability(sessionId, readability, { conversationId: conversation.conversationId, turnId: turn.turnId, speaker });
+    }
+
+    return {
+      turn,
+      replyAudioStreamUrl: voiceAssets[0]?.streamUrl,
+      followupSuggestions: this.followupSuggestions(conversation),
+      replies: lines.map((line, index) => ({
+        speaker: line.speaker,
+        speakerName: names[line.speaker],
+        text: line.text,
+        audioStreamUrl: voiceAssets[index]?.streamUrl,
+      })),
     };
+  }
+
+  private async draftReply(
+    voice: PersonaVoice,
+    question: string,
+    context: { recentTurns: RecentTurns; ageBand?: AgeBand; companion?: Companion },
+  ): Promise<ScoredReply> {
+    const { recentTurns, ageBand, companion } = context;
+    const freshFact = personaService.pickFreshFact(voice.factPack, voice.usedFactIndexes);
+    const candidateFacts = [freshFact, ...voice.factPack.facts.slice(0, 2)].filter((fact): fact is FactItem => Boolean(fact));
 
-    conversation.turns.push(turn);
-    conversation.updatedAt = new Date().toISOString();
-    store.conversations.set(conversation.conversationId, conversation);
+    return readableReply(
+      (simplify) =>
+        geminiClient.generateFollowupReply({
+          entity: voice.entity,
+          question,
+          summary: voice.factPack.summary,
+          candidateFacts,
+          recentTurns,
+          companion,
+          ageBand,
+          simplify,
+        }),
+      () =>
+        personaService.buildFallbackReply({
+          factPack: voice.factPack,
+          userQuestion: question,
+          usedFactIndexes: voice.usedFactIndexes,
+          replyingTo: companion?.lastLine ? companion.name : undefined,
+          ageBand,
+        }),
+      { ageBand, names: [voice.entity.label, voice.entity.roleplayName, companion?.name] },
+    );
+  }
+
+  private recentTurns(conversation: ConversationState): RecentTurns {
+    return conversation.turns.slice(-4).map((turn) => ({
+      user: turn.userInput,
+      assistant: turn.assistantText,
+    }));
+  }
+
+  // The child's answer to the guessing game locks in the entity, then research and the real opening run.
+  private async confirmEntity(
+    conversation: ConversationState,
+    sessionId: string,
+    answer: string,
+    inputVerdict: SafetyVerdict,
+  ): Promise<ChatTurnResult> {
+    const pending = conversation.pendingConfirmation;
+    const candidates = pending?.candidates ?? [];
+    const label = inputVerdict === "block" ? null : resolveAnswer(answer, candidates);
+    const labelAllowed = label !== null && moderationService.moderateImageLabel(sessionId, label).verdict !== "block";
+
+    if (!pending || !label || !labelAllowed) {
+      const retryText = personaService.buildGuessingReply(candidates.map((candidate) => candidate.label));
+      const voiceAsset = await voiceService.synthesizeToAsset({
+        sessionId,
+        text: retryText,
+        archetype: conversation.persona.voiceArchetype,
+        ageBand: conversation.ageBand,
+      });
+
+      return {
+        turn: this.appendTurn(conversation, {
+          userInput: answer,
+          assistantText: retryText,
+          safetyVerdict: inputVerdict,
+          audioId: voiceAsset?.audioId,
+        }),
+        replyAudioStreamUrl: voiceAsset?.streamUrl,
+        followupSuggestions: candidates.map((candidate) => `You're ${candidate.label}!`),
+      };
+    }
+
+    const entity = await visionService.entityForCandidate({ entityId: conversation.entity.entityId, label, confidence: 1 });
+    const { ageBand } = conversation;
+    const factPack = await researchService.getFactPack(entity, { ageBand });
+    const persona = personaService.buildPersona(entity);
+    const hook = personaService.buildHook(entity, undefined, ageBand);
+    const opening = await composeOpeningReply({ entity, hook, factPack, ageBand });
+    const moderatedOutput = moderationService.moderateOutput(sessionId, opening.text);
+    const replyText = moderatedOutput.transformedText ?? opening.text;
 
     const voiceAsset = await voiceService.synthesizeToAsset({
+      sessionId,
       text: replyText,
-      archetype: conversation.persona.voiceArchetype,
+      archetype: persona.voiceArchetype,
+      ageBand,
     });
 
-    analyticsService.track("chat_turn", input.sessionId, {
-      conversationId: input.conversationId,
-      verdict: finalVerdict,
-      hasAudio: Boolean(voiceAsset),
+    const turn = this.appendTurn(
+      conversation,
+      {
+        userInput: answer,
+        assistantText: replyText,
+        safetyVerdict: moderatedOutput.verdict,
+        audioId: voiceAsset?.audioId,
+        readability: moderatedOutput.transformedText ? undefined : opening.readability,
+      },
+      { entity, factPack, persona, usedFactIndexes: new Set([0, 1]), pendingConfirmation: undefined },
+    );
+
+    const now = new Date().toISOString();
+    const analysis = updateLiveAnalysis(pending.analysisId, { status: "ready", entity, hookText: hook });
+    if (analysis) {
+      if (analysis.imageHash) {
+        ingestionService.rememberFingerprint({
+          analysisId: analysis.analysisId,
+          sessionId: analysis.sessionId,
+          childId: analysis.childId,
+          hash: analysis.imageHash,
+          entity,
+          factPack,
+          hookText: hook,
+          conversationIds: [conversation.conversationId],
+          createdAt: now,
+          lastMatchedAt: now,
+        });
+      }
+    }
+
+    analyticsService.track("entity_confirmed", sessionId, {
+      conversationId: conversation.conversationId,
+      entity: entity.label,
+      matchedGuess: candidates.some((candidate) => candidate.label === label),
     });
+    trackReadability(sessionId, opening.readability, { conversationId: conversation.conversationId, turnId: turn.turnId });
 
     return {
       turn,
       replyAudioStreamUrl: voiceAsset?.streamUrl,
-      followupSuggestions: [
-        personaService.getCuriosityQuestion(conversation.entity),
-        "Want another surprising fact?",
-        `Ask me how ${conversation.entity.roleplayName} changes over time!`,
-      ],
+      followupSuggestions: this.followupSuggestions(conversation),
     };
   }
+
+  // Merges into the stored conversation rather than writing back the copy read before the awaits, which would drop a
+  // turn and the facts another request used meanwhile. `changes` replace their fields outright.
+  private appendTurn(
+    conversation: ConversationState,
+    input: Omit<ConversationTurn, "turnId" | "createdAt">,
+    changes: Partial<Pick<ConversationState, "entity" | "factPack" | "persona" | "usedFactIndexes" | "pendingConfirmation">> = {},
+  ): ConversationTurn {
+    const turn: ConversationTurn = { turnId: randomUUID(), ...input, createdAt: new Date().toISOString() };
+    const merged = store.conversations.update(conversation.conversationId, (latest) => {
+      // Deleted meanwhile, e.g. by retention: the turn is not written back.
+      if (!latest) {
+        return undefined;
+      }
+
+      const partner = latest.partner && {
+        ...latest.partner,
+        usedFactIndexes: new Set([...latest.partner.usedFactIndexes, ...(conversation.partner?.usedFactIndexes ?? [])]),
+      };
+      return {
+        ...latest,
+        turns: [...latest.turns, turn],
+        usedFactIndexes: new Set([...latest.usedFactIndexes, ...conversation.usedFactIndexes]),
+        partner,
+        ...changes,
+        updatedAt: turn.createdAt,
+      };
+    });
+
+    Object.assign(conversation, merged ?? changes);
+    return turn;
+  }
+
+  followupSuggestions(conversation: ConversationState): string[] {
+    if (conversation.partner) {
+      const names = speakerNames(conversation);
+      return [
+        "What do you two have in common?",
+        `${names.primary}, what do you like about ${names.partner}?`,
+        `${names.partner}, what's your wildest fact?`,
+      ];
+    }
+
+    return [
+      personaService.getCuriosityQuestion(conversation.entity),
+      "Want another surprising fact?",
+      `Ask me how ${conversation.entity.roleplayName} changes over time!`,
+    ];
+  }
+
+  // A child can pick a conversation back up from any of their later sessions.
+  private canAccess(conversation: ConversationState, scope: ConversationScope): boolean {
+    if (conversation.sessionId === scope.sessionId) {
+      return true;
+    }
+
+    return Boolean(scope.childId) && conversation.childId === scope.childId;
+  }
 }
 
 export const conversationService = new ConversationService();
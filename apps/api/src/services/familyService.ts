@@ -0,0 +1,156 @@
+import { randomUUID } from "node:crypto";
+import { env } from "../config/env.js";
+import { store } from "../stores/index.js";
+import type { AgeBand, ChildProfile, ParentAccount } from "../types/domain.js";
+import { generateToken, hashSecret, hashToken, verifySecret } from "../utils/secrets.js";
+
+const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+export class FamilyService {
+  // Stands in for the password hash of an email with no account, so a failed login costs the same either way.
+  private dummyHash: Promise<string> | null = null;
+
+  // Hashes before looking the email up, so a taken address answers no faster than a new one.
+  async createAccount(input: { email: string; password: string }): Promise<ParentAccount | null> {
+    const email = normalizeEmail(input.email);
+    const passwordHash = await hashSecret(input.password);
+    if (this.findAccountByEmail(email)) {
+      return null;
+    }
+
+    const now = new Date().toISOString();
+    const account: ParentAccount = {
+      accountId: randomUUID(),
+      email,
+      passwordHash,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    store.parentAccounts.set(account.accountId, account);
+    return account;
+  }
+
+  async login(input: { email: string; password: string }): Promise<{
+    account: ParentAccount;
+    token: string;
+    expiresAt: string;
+  } | null> {
+    const account = this.findAccountByEmail(normalizeEmail(input.email));
+    this.dummyHash ??= hashSecret(randomUUID());
+    const verified = await verifySecret(input.password, account?.passwordHash ?? (await this.dummyHash));
+    if (!account || !verified) {
+      return null;
+    }
+
+    return { account, ...this.issueParentToken(account.accountId) };
+  }
+
+  validateParentToken(token: string): ParentAccount | null {
+    const tokenHash = hashToken(token);
+    const parentSession = store.parentSessions.get(tokenHash);
+    if (!parentSession) {
+      return null;
+    }
+
+    if (Date.parse(parentSession.expiresAt) < Date.now()) {
+      store.parentSessions.delete(tokenHash);
+      return null;
+    }
+
+    return store.parentAccounts.get(parentSession.accountId) ?? null;
+  }
+
+  logout(token: string): void {
+    store.parentSessions.delete(hashToken(token));
+  }
+
+  createChild(
+    accountId: string,
+    input: { nickname: string; ageBand?: AgeBand },
+  ): ChildProfile {
+    const now = new Date().toISOString();
+    const child: ChildProfile = {
+      childId: randomUUID(),
+      accountId,
+      nickname: input.nickname.trim(),
+      ageBand: input.ageBand ?? "7-10",
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    store.childProfiles.set(child.childId, child);
+    return child;
+  }
+
+  listChildren(accountId: string): ChildProfile[] {
+    return store.childProfiles.values().filter((child) => child.accountId === accountId);
+  }
+
+  getChild(accountId: string, childId: string): ChildProfile | null {
+    const child = store.childProfiles.get(childId);
+    if (!child || child.accountId !== accountId) {
+      return null;
+    }
+
+    return child;
+  }
+
+  updateChild(
+    accountId: string,
+    childId: string,
+    patch: { nickname?: string; ageBand?: AgeBand },
+  ): ChildProfile | null {
+    const child = this.getChild(accountId, childId);
+    if (!child) {
+      return null;
+    }
+
+    const updated: ChildProfile = {
+      ...child,
+      nickname: patch.nickname?.trim() ?? child.nickname,
+      ageBand: patch.ageBand ?? child.ageBand,
+      updatedAt: new Date().toISOString(),
+    };
+
+    store.childProfiles.set(childId, updated);
+    return updated;
+  }
+
+  // The child's sessions end and their conversations are unlinked with the profile, so no device keeps reaching them.
+  deleteChild(accountId: string, childId: string): boolean {
+    if (!this.getChild(accountId, childId)) {
+      return false;
+    }
+
+    for (const session of store.sessions.values().filter((candidate) => candidate.childId === childId)) {
+      store.sessions.delete(session.sessionId);
+    }
+    for (const conversation of store.conversations.values().filter((candidate) => candidate.childId === childId)) {
+      store.conversations.set(conversation.conversationId, { ...conversation, childId: undefined });
+    }
+
+    return store.childProfiles.delete(childId);
+  }
+
+  private findAccountByEmail(email: string): ParentAccount | null {
+    return store.parentAccounts.values().find((account) => account.email === email) ?? null;
+  }
+
+  private issueParentToken(accountId: string): { token: string; expiresAt: string } {
+    const token = generateToken();
+    const createdAt = new Date();
+    const expiresAt = new Date(createdAt.getTime() + env.parentSessionTtlMinutes * 60 * 1000).toISOString();
+
+    store.parentSessions.set(hashToken(token), {
+      tokenHash: hashToken(token),
+      accountId,
+      createdAt: createdAt.toISOString(),
+      expiresAt,
+    });
+
+    return { token, expiresAt };
+  }
+}
+
+export const familyService = new FamilyService();
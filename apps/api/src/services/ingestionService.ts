@@ -1,13 +1,239 @@
 import fs from "node:fs/promises";
 import path from "node:path";
-import sharp from "sharp";
+import decodeHeic from "heic-decode";
+import sharp, { type FormatEnum, type Sharp } from "sharp";
 import { env } from "../config/env.js";
+import { store } from "../stores/index.js";
+import type { FocusRegion, ImageFingerprint, ImageQualityIssue, UploadScanFinding } from "../types/domain.js";
+import { faceDetector, type FaceBox } from "./providers/faceDetector.js";
+import { malwareScanner } from "./providers/malwareScanner.js";
+import { tracingService } from "./tracingService.js";
 
-const ALLOWED_MIME_TYPES = new Set(["image/jpeg", "image/png", "image/webp"]);
+// Stored uploads keep the extension of their declared type.
+export const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/heic": "heic",
+  "image/heif": "heif",
+  "image/avif": "avif",
+};
+
+export const SUPPORTED_IMAGE_TYPES = Object.keys(IMAGE_EXTENSIONS);
+
+const IMAGE_EXTENSION_PATTERN = /\.(png|webp|jpg|jpeg|heic|heif|avif)$/i;
+
+export const normalizedPathFor = (filePath: string): string =>
+  filePath.replace(IMAGE_EXTENSION_PATTERN, "") + "-normalized.jpg";
+
+export const focusPathFor = (filePath: string): string =>
+  filePath.replace(IMAGE_EXTENSION_PATTERN, "") + "-focus.jpg";
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// HEIC, HEIF and AVIF are all ISO media files; the brands in the leading `ftyp` box say which codec is inside.
+const HEVC_BRANDS = ["heic", "heix", "heim", "heis", "hevc", "hevx"];
+const AV1_BRANDS = ["avif", "avis"];
+const HEIF_BRANDS = [...HEVC_BRANDS, ...AV1_BRANDS, "mif1", "msf1"];
+
+const ftypBrands = (data: Buffer): string[] => {
+  if (data.length < 16 || data.toString("latin1", 4, 8) !== "ftyp") {
+    return [];
+  }
+
+  // The major brand, then the compatible brands after the minor version.
+  const end = Math.min(data.readUInt32BE(0), data.length);
+  const brands = [data.toString("latin1", 8, 12)];
+  for (let offset = 16; offset + 4 <= end; offset += 4) {
+    brands.push(data.toString("latin1", offset, offset + 4));
+  }
+  return brands;
+};
+
+const hasBrand = (data: Buffer, accepted: string[]): boolean => ftypBrands(data).some((brand) => accepted.includes(brand));
+
+// Walks the top-level boxes; a size that runs past the file or below a header ends the image there.
+const isoMediaEnd = (data: Buffer): number => {
+  let offset = 0;
+  while (offset + 8 <= data.length) {
+    const size = data.readUInt32BE(offset);
+    // Size 1 means a 64-bit size follows the type; size 0 means the box runs to the end of the file.
+    const boxSize =
+      size === 1 && offset + 16 <= data.length
+        ? Number(data.readBigUInt64BE(offset + 8))
+        : size === 0
+          ? data.length - offset
+          : size;
+    if (boxSize < 8 || offset + boxSize > data.length) {
+      break;
+    }
+    offset += boxSize;
+  }
+  return offset;
+};
+
+type IsoBox = { type: string; start: number; end: number };
+
+// The boxes directly inside [start, end); like `isoMediaEnd`, a size that runs past the range ends the walk.
+const childBoxes = (data: Buffer, start: number, end: number): IsoBox[] => {
+  const boxes: IsoBox[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    const size = data.readUInt32BE(offset);
+    if (size < 8 || offset + size > end) {
+      break;
+    }
+    boxes.push({ type: data.toString("latin1", offset + 4, offset + 8), start: offset, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+};
+
+// The largest picture an HEIF-family file declares in its `ispe` properties (meta > iprp > ipco), read from the
+// container so the limit holds even when sharp cannot parse the file and it goes to the wasm decoder instead.
+const heifDimensions = (data: Buffer): { width: number; height: number } | null => {
+  const find = (boxes: IsoBox[], type: string) => boxes.find((candidate) => candidate.type === type);
+  const meta = find(childBoxes(data, 0, data.length), "meta");
+  // `meta` is a full box: version and flags come before its children.
+  const iprp = meta && find(childBoxes(data, meta.start + 12, meta.end), "iprp");
+  const ipco = iprp && find(childBoxes(data, iprp.start + 8, iprp.end), "ipco");
+  const sizes = (ipco ? childBoxes(data, ipco.start + 8, ipco.end) : [])
+    .filter((property) => property.type === "ispe" && property.end - property.start >= 20)
+    .map((property) => ({ width: data.readUInt32BE(property.start + 12), height: data.readUInt32BE(property.start + 16) }));
+
+  return sizes.reduce<{ width: number; height: number } | null>(
+    (largest, size) => (!largest || size.width * size.height > largest.width * largest.height ? size : largest),
+    null,
+  );
+};
+
+const HEIF_TYPES = ["image/heic", "image/heif", "image/avif"];
+
+const MAGIC_BYTES: Record<string, (data: Buffer) => boolean> = {
+  "image/jpeg": (data) => data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff,
+  "image/png": (data) => data.subarray(0, 8).equals(PNG_SIGNATURE),
+  "image/webp": (data) => data.toString("latin1", 0, 4) === "RIFF" && data.toString("latin1", 8, 12) === "WEBP",
+  "image/heic": (data) => hasBrand(data, HEVC_BRANDS),
+  "image/heif": (data) => hasBrand(data, HEIF_BRANDS),
+  "image/avif": (data) => hasBrand(data, AV1_BRANDS),
+};
+
+// A file cut off before its end marker is truncated, not smuggling anything, so it ends where the data does; the
+// decoder decides later whether what is there is a usable picture.
+const endAfterMarker = (data: Buffer, marker: Buffer | string, markerLength: number): number => {
+  const index = data.lastIndexOf(marker);
+  return index < 0 ? data.length : index + markerLength;
+};
+
+// Where the image itself ends; anything after it is smuggled payload, bar a little padding some encoders add.
+const IMAGE_END: Record<string, (data: Buffer) => number> = {
+  "image/jpeg": (data) => endAfterMarker(data, Buffer.from([0xff, 0xd9]), 2),
+  "image/png": (data) => endAfterMarker(data, "IEND", 8),
+  "image/webp": (data) => data.readUInt32LE(4) + 8,
+  "image/heic": isoMediaEnd,
+  "image/heif": isoMediaEnd,
+  "image/avif": isoMediaEnd,
+};
+
+// Long enough that compressed pixel data will not contain them by chance.
+const EMBEDDED_SIGNATURES = ["<?php", "<script", "<html", "%PDF-"];
+const MAX_TRAILING_BYTES = 16;
+
+// Quality is judged on a small greyscale copy so the checks cost the same for every upload.
+const QUALITY_SAMPLE_SIDE = 256;
+const MIN_IMAGE_SIDE = 200;
+const MIN_MEAN_LUMA = 35;
+const MAX_MEAN_LUMA = 225;
+const MIN_LUMA_STDEV = 8;
+const MIN_LAPLACIAN_VARIANCE = 12;
+
+// Blurred patches reach a little past the detected face box so hairlines and ears are covered too.
+const FACE_MARGIN = 0.2;
+
+// A bare tap stands for a box this wide around the point; drags are never narrower than the minimum.
+const FOCUS_TAP_SIZE = 0.35;
+const MIN_FOCUS_SIZE = 0.1;
+// Crops keep a little of the surroundings so a rough drag does not cut the object off.
+const FOCUS_MARGIN = 0.1;
+
+const RETAKE_HINTS: Record<ImageQualityIssue, string> = {
+  too_small: "That picture is super tiny! Try taking a bigger photo.",
+  too_dark: "Too dark! Try turning on a light.",
+  too_bright: "Whoa, too bright! Try stepping out of the glare.",
+  uniform: "I can't spot anything there! Point the camera at one thing.",
+  blurry: "Oops, that's a bit blurry! Hold still and try again.",
+  unsupported_format: "Hmm, I can't open that picture! Try taking it again, or take a screenshot of it.",
+};
+
+export const retakeHintFor = (issue: ImageQualityIssue): string => RETAKE_HINTS[issue];
+
+const toNormalizedJpeg = (image: Sharp): Promise<Buffer> =>
+  image
+    .resize({ width: 1280, height: 1280, fit: "inside", withoutEnlargement: true })
+    .jpeg({ quality: 88, mozjpeg: true })
+    .toBuffer();
+
+// Prebuilt sharp decodes AVIF but not HEVC, so iPhone HEIC photos go through libheif's wasm build instead. It applies
+// the rotation and mirroring the camera recorded, and hands back bare pixels with no metadata to strip.
+const decodeHeicFallback = async (imageBuffer: Buffer): Promise<Buffer | null> => {
+  const decoded = await decodeHeic({ buffer: imageBuffer }).catch(() => null);
+  if (!decoded) {
+    return null;
+  }
+
+  const pixels = Buffer.from(decoded.data.buffer, decoded.data.byteOffset, decoded.data.byteLength);
+  return toNormalizedJpeg(sharp(pixels, { raw: { width: decoded.width, height: decoded.height, channels: 4 } }));
+};
+
+export const REJECTED_UPLOAD_HINT = "Hmm, I couldn't open that picture. Try taking a new photo!";
+
+// Places a box of the given size around a centre point, shifted so it stays inside the image.
+const clampedRegion = (centerX: number, centerY: number, width: number, height: number): FocusRegion => {
+  const clampedWidth = Math.min(1, width);
+  const clampedHeight = Math.min(1, height);
+  return {
+    left: Math.min(Math.max(0, centerX - clampedWidth / 2), 1 - clampedWidth),
+    top: Math.min(Math.max(0, centerY - clampedHeight / 2), 1 - clampedHeight),
+    width: clampedWidth,
+    height: clampedHeight,
+  };
+};
+
+// A tap is a point; a drag is a box whose x/y is its top-left corner. Both are fractions of the photo.
+export const focusRegionFor = (selection: { x: number; y: number; width?: number; height?: number }): FocusRegion => {
+  if (selection.width === undefined || selection.height === undefined) {
+    return clampedRegion(selection.x, selection.y, FOCUS_TAP_SIZE, FOCUS_TAP_SIZE);
+  }
+
+  return clampedRegion(
+    selection.x + selection.width / 2,
+    selection.y + selection.height / 2,
+    Math.max(MIN_FOCUS_SIZE, selection.width),
+    Math.max(MIN_FOCUS_SIZE, selection.height),
+  );
+};
+
+type FingerprintScope = {
+  sessionId: string;
+  childId?: string;
+};
+
+export const hammingDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let index = 0; index < Math.max(a.length, b.length); index += 1) {
+    let bits = parseInt(a[index] ?? "0", 16) ^ parseInt(b[index] ?? "0", 16);
+    while (bits > 0) {
+      distance += bits & 1;
+      bits >>= 1;
+    }
+  }
+
+  return distance;
+};
 
 export class IngestionService {
   validateMimeType(mimeType: string): void {
-    if (!ALLOWED_MIME_TYPES.has(mimeType)) {
+    if (!IMAGE_EXTENSIONS[mimeType]) {
       throw new Error("Unsupported image type");
     }
   }
@@ -18,25 +244,227 @@ export class IngestionService {
     }
   }
 
-  async preprocessImage(filePath: string): Promise<string> {
-    const normalizedPath = filePath.replace(/\.(png|webp|jpg|jpeg)$/i, "") + "-normalized.jpg";
+  async preprocessImage(filePath: string): Promise<{ normalizedPath: string; qualityIssue: ImageQualityIssue | null }> {
+    const normalizedPath = normalizedPathFor(filePath);
 
     const imageBuffer = await fs.readFile(filePath);
     this.validateSize(imageBuffer.byteLength);
 
-    const normalized = await sharp(imageBuffer)
-      .rotate()
-      .resize({ width: 1280, height: 1280, fit: "inside", withoutEnlargement: true })
-      .jpeg({ quality: 88, mozjpeg: true })
-      .toBuffer();
+    // HEIF transforms are applied by the decoder, and the JPEG is written without EXIF, GPS or XMP.
+    const normalized = await toNormalizedJpeg(sharp(imageBuffer).rotate()).catch(async (error: unknown) => {
+      const { format } = await sharp(imageBuffer).metadata().catch(() => ({ format: undefined }));
+      if (format === "heif") {
+        return decodeHeicFallback(imageBuffer);
+      }
+      throw error;
+    });
+    if (!normalized) {
+      return { normalizedPath: path.resolve(normalizedPath), qualityIssue: "unsupported_format" };
+    }
 
     await fs.writeFile(normalizedPath, normalized);
-    return path.resolve(normalizedPath);
+    return { normalizedPath: path.resolve(normalizedPath), qualityIssue: await this.assessQuality(normalized) };
+  }
+
+  // Writes the focused region next to the normalized copy; the full photo stays untouched for context.
+  async cropToFocus(normalizedPath: string, focus: FocusRegion): Promise<string> {
+    const focusPath = normalizedPath.replace(/-normalized\.jpg$/, "-focus.jpg");
+    const image = sharp(await fs.readFile(normalizedPath));
+    const { width = 0, height = 0 } = await image.metadata();
+
+    const region = clampedRegion(
+      focus.left + focus.width / 2,
+      focus.top + focus.height / 2,
+      focus.width + FOCUS_MARGIN * 2,
+      focus.height + FOCUS_MARGIN * 2,
+    );
+    const left = Math.floor(region.left * width);
+    const top = Math.floor(region.top * height);
+    const extract = {
+      left,
+      top,
+      width: Math.max(1, Math.min(width - left, Math.round(region.width * width))),
+      height: Math.max(1, Math.min(height - top, Math.round(region.height * height))),
+    };
+
+    await fs.writeFile(focusPath, await image.extract(extract).jpeg({ quality: 88, mozjpeg: true }).toBuffer());
+    return focusPath;
+  }
+
+  // Cheap pixel checks that catch photos vision would only guess at: tiny, badly exposed, featureless or blurry.
+  async assessQuality(image: Buffer): Promise<ImageQualityIssue | null> {
+    const { width = 0, height = 0 } = await sharp(image).metadata();
+    if (Math.min(width, height) < MIN_IMAGE_SIDE) {
+      return "too_small";
+    }
+
+    const { data, info } = await sharp(image)
+      .greyscale()
+      .resize(QUALITY_SAMPLE_SIDE, QUALITY_SAMPLE_SIDE, { fit: "inside" })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    const luma = (x: number, y: number) => data[(y * info.width + x) * info.channels];
+
+    let sum = 0;
+    let sumOfSquares = 0;
+    let laplacianSum = 0;
+    let laplacianSumOfSquares = 0;
+    for (let y = 0; y < info.height; y += 1) {
+      for (let x = 0; x < info.width; x += 1) {
+        const value = luma(x, y);
+        sum += value;
+        sumOfSquares += value * value;
+
+        if (x > 0 && y > 0 && x < info.width - 1 && y < info.height - 1) {
+          const laplacian = luma(x - 1, y) + luma(x + 1, y) + luma(x, y - 1) + luma(x, y + 1) - 4 * value;
+          laplacianSum += laplacian;
+          laplacianSumOfSquares += laplacian * laplacian;
+        }
+      }
+    }
+
+    const pixels = info.width * info.height;
+    const mean = sum / pixels;
+    const stdev = Math.sqrt(Math.max(0, sumOfSquares / pixels - mean * mean));
+    const inner = Math.max(1, (info.width - 2) * (info.height - 2));
+    const laplacianVariance = laplacianSumOfSquares / inner - (laplacianSum / inner) ** 2;
+
+    if (mean < MIN_MEAN_LUMA) {
+      return "too_dark";
+    }
+
+    if (mean > MAX_MEAN_LUMA) {
+      return "too_bright";
+    }
+
+    if (stdev < MIN_LUMA_STDEV) {
+      return "uniform";
+    }
+
+    return laplacianVariance < MIN_LAPLACIAN_VARIANCE ? "blurry" : null;
+  }
+
+  // 64-bit difference hash: each bit says whether a pixel is brighter than its right neighbour on a 9x8 greyscale thumbnail.
+  async perceptualHash(filePath: string): Promise<string> {
+    const pixels = await sharp(filePath).greyscale().resize(9, 8, { fit: "fill" }).raw().toBuffer();
+
+    let hash = "";
+    for (let row = 0; row < 8; row += 1) {
+      let nibble = 0;
+      for (let column = 0; column < 8; column += 1) {
+        nibble = (nibble << 1) | (pixels[row * 9 + column] > pixels[row * 9 + column + 1] ? 1 : 0);
+        if (column % 4 === 3) {
+          hash += nibble.toString(16);
+          nibble = 0;
+        }
+      }
+    }
+
+    return hash;
+  }
+
+  // A child's photos match across sessions; without a child profile only the same session counts.
+  findNearDuplicate(scope: FingerprintScope, hash: string): { fingerprint: ImageFingerprint; distance: number } | null {
+    if (env.imageDedupeMaxDistance < 0) {
+      return null;
+    }
+
+    let best: { fingerprint: ImageFingerprint; distance: number } | null = null;
+    for (const fingerprint of store.imageFingerprints.values()) {
+      const sameOwner = scope.childId ? fingerprint.childId === scope.childId : fingerprint.sessionId === scope.sessionId;
+      if (!sameOwner) {
+        continue;
+      }
+
+      const distance = hammingDistance(fingerprint.hash, hash);
+      if (distance <= env.imageDedupeMaxDistance && (!best || distance < best.distance)) {
+        best = { fingerprint, distance };
+      }
+    }
+
+    return best;
+  }
+
+  rememberFingerprint(fingerprint: ImageFingerprint): void {
+    store.imageFingerprints.set(fingerprint.analysisId, fingerprint);
   }
 
-  // Placeholder hook for malware scanners in production deployment.
-  async malwareScan(_filePath: string): Promise<void> {
-    return;
+  async detectFaces(filePath: string): Promise<FaceBox[]> {
+    tracingService.annotate({ provider: faceDetector.name });
+    return faceDetector.detect(await fs.readFile(filePath));
+  }
+
+  // Blurs the boxes in place and keeps the file's format; EXIF orientation is baked in so the boxes line up.
+  async blurFaces(filePath: string, faces: FaceBox[]): Promise<void> {
+    if (faces.length === 0) {
+      return;
+    }
+
+    const upright = await sharp(await fs.readFile(filePath)).rotate().toBuffer({ resolveWithObject: true });
+    const { width, height, format } = upright.info;
+
+    const patches = await Promise.all(
+      faces.map(async (face) => {
+        const left = Math.max(0, Math.floor((face.left - face.width * FACE_MARGIN) * width));
+        const top = Math.max(0, Math.floor((face.top - face.height * FACE_MARGIN) * height));
+        const right = Math.min(width, Math.ceil((face.left + face.width * (1 + FACE_MARGIN)) * width));
+        const bottom = Math.min(height, Math.ceil((face.top + face.height * (1 + FACE_MARGIN)) * height));
+        const region = { left, top, width: Math.max(1, right - left), height: Math.max(1, bottom - top) };
+
+        const input = await sharp(upright.data)
+          .extract(region)
+          .blur(Math.max(8, Math.min(region.width, region.height) / 4))
+          .toBuffer();
+        return { input, left, top };
+      }),
+    );
+
+    const redacted = await sharp(upright.data).composite(patches).toFormat(format as keyof FormatEnum).toBuffer();
+    await fs.writeFile(filePath, redacted);
+  }
+
+  // Structural checks run first so a disguised file is caught even when the engine has no signature for it.
+  async malwareScan(filePath: string, declaredMimeType: string): Promise<UploadScanFinding | null> {
+    const data = await fs.readFile(filePath);
+
+    if (!MAGIC_BYTES[declaredMimeType]?.(data)) {
+      return { threat: "mime_mismatch", detail: `File contents do not match declared ${declaredMimeType}` };
+    }
+
+    const embedded = EMBEDDED_SIGNATURES.find((signature) => data.includes(signature, 0, "latin1"));
+    if (embedded) {
+      return { threat: "polyglot", detail: `Embedded ${JSON.stringify(embedded)} content` };
+    }
+
+    const trailing = data.subarray(Math.max(0, IMAGE_END[declaredMimeType](data))).filter((byte) => byte !== 0);
+    if (trailing.length > MAX_TRAILING_BYTES) {
+      return { threat: "polyglot", detail: `${trailing.length} bytes after the end of the image` };
+    }
+
+    // Header-only reads: the pixel count is known before anything is decompressed. A picture whose size cannot be
+    // read is turned away, since nothing downstream would bound it either.
+    const declared = HEIF_TYPES.includes(declaredMimeType) ? heifDimensions(data) : null;
+    const read = await sharp(data)
+      .metadata()
+      .then(({ width, height }) => (width && height ? { width, height } : null))
+      .catch(() => null);
+    const sizes = [declared, read].filter((size) => size !== null);
+    if (sizes.length === 0) {
+      return { threat: "decompression_bomb", detail: "Image dimensions could not be read" };
+    }
+
+    const { width, height } = sizes.reduce((largest, size) => (size.width * size.height > largest.width * largest.height ? size : largest));
+    if (width * height > env.maxImagePixels) {
+      return { threat: "decompression_bomb", detail: `${width}x${height} exceeds ${env.maxImagePixels} pixels` };
+    }
+
+    tracingService.annotate({ provider: malwareScanner.name });
+    const result = await malwareScanner.scan(data);
+    if (result.infected) {
+      return { threat: "malware", detail: `${malwareScanner.name}: ${result.signature ?? "infected"}` };
+    }
+
+    return null;
   }
 }
 
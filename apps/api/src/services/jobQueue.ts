@@ -0,0 +1,193 @@
+import { env } from "../config/env.js";
+import { logger } from "../utils/logger.js";
+
+type QueuedJob = {
+  jobId: string;
+  enqueuedAt: number;
+  controller: AbortController;
+  run: (signal: AbortSignal) => Promise<void>;
+};
+
+export type StagePolicy = {
+  name: string;
+  timeoutMs: number;
+  retries: number;
+  baseDelayMs: number;
+};
+
+export type JobQueueStats = {
+  concurrency: number;
+  running: number;
+  queued: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+  averageWaitMs: number;
+  maxWaitMs: number;
+  oldestQueuedMs: number;
+};
+
+const WAIT_SAMPLE_SIZE = 200;
+
+const delay = (ms: number, signal: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new Error("Job cancelled"));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error("Job cancelled"));
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+
+// Resolves with the stage result, or rejects on timeout or cancellation. Either way the attempt's signal is aborted
+// too, so provider calls made with it stop rather than running on past the job's slot in the queue.
+const withBudget = <T>(work: (signal: AbortSignal) => Promise<T>, stage: StagePolicy, signal: AbortSignal): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const attempt = new AbortController();
+    const abort = (reason: Error) => {
+      attempt.abort(reason);
+      finish(() => reject(reason));
+    };
+    const onAbort = () => abort(new Error("Job cancelled"));
+    const timer = setTimeout(() => abort(new Error(`${stage.name} stage timed out after ${stage.timeoutMs}ms`)), stage.timeoutMs);
+    const finish = (settle: () => void) => {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", onAbort);
+      settle();
+    };
+
+    signal.addEventListener("abort", onAbort, { once: true });
+    work(attempt.signal).then(
+      (value) => finish(() => resolve(value)),
+      (error: unknown) => finish(() => reject(error)),
+    );
+  });
+
+// `work` is handed a signal for this attempt alone; pass it to every provider call the stage makes.
+export const runStage = async <T>(
+  stage: StagePolicy,
+  signal: AbortSignal,
+  work: (signal: AbortSignal) => Promise<T>,
+): Promise<T> => {
+  for (let attempt = 0; ; attempt += 1) {
+    if (signal.aborted) {
+      throw new Error("Job cancelled");
+    }
+
+    try {
+      return await withBudget(work, stage, signal);
+    } catch (error) {
+      if (signal.aborted || attempt >= stage.retries) {
+        throw error;
+      }
+
+      logger.warn("Job stage failed, retrying", { stage: stage.name, attempt: attempt + 1, error: String(error) });
+      await delay(stage.baseDelayMs * 2 ** attempt, signal);
+    }
+  }
+};
+
+export class JobQueue {
+  private readonly pending: QueuedJob[] = [];
+  private readonly running = new Map<string, QueuedJob>();
+  private readonly waitSamples: number[] = [];
+  private completed = 0;
+  private failed = 0;
+  private cancelled = 0;
+
+  constructor(
+    readonly name: string,
+    private readonly concurrency: number,
+  ) {}
+
+  enqueue(jobId: string, run: (signal: AbortSignal) => Promise<void>): void {
+    this.pending.push({ jobId, enqueuedAt: Date.now(), controller: new AbortController(), run });
+    this.drain();
+  }
+
+  cancel(jobId: string): boolean {
+    const index = this.pending.findIndex((job) => job.jobId === jobId);
+    if (index >= 0) {
+      this.pending.splice(index, 1);
+      this.cancelled += 1;
+      return true;
+    }
+
+    const job = this.running.get(jobId);
+    if (!job) {
+      return false;
+    }
+
+    job.controller.abort();
+    return true;
+  }
+
+  getStats(): JobQueueStats {
+    const now = Date.now();
+    const totalWait = this.waitSamples.reduce((sum, value) => sum + value, 0);
+
+    return {
+      concurrency: this.concurrency,
+      running: this.running.size,
+      queued: this.pending.length,
+      completed: this.completed,
+      failed: this.failed,
+      cancelled: this.cancelled,
+      averageWaitMs: this.waitSamples.length > 0 ? Math.round(totalWait / this.waitSamples.length) : 0,
+      maxWaitMs: this.waitSamples.length > 0 ? Math.max(...this.waitSamples) : 0,
+      oldestQueuedMs: this.pending.length > 0 ? now - this.pending[0].enqueuedAt : 0,
+    };
+  }
+
+  private drain(): void {
+    while (this.running.size < Math.max(1, this.concurrency) && this.pending.length > 0) {
+      const job = this.pending.shift();
+      if (job) {
+        this.start(job);
+      }
+    }
+  }
+
+  private start(job: QueuedJob): void {
+    this.waitSamples.push(Date.now() - job.enqueuedAt);
+    if (this.waitSamples.length > WAIT_SAMPLE_SIZE) {
+      this.waitSamples.shift();
+    }
+
+    this.running.set(job.jobId, job);
+    void job
+      .run(job.controller.signal)
+      .then(
+        () => {
+          if (job.controller.signal.aborted) {
+            this.cancelled += 1;
+          } else {
+            this.completed += 1;
+          }
+        },
+        (error: unknown) => {
+          if (job.controller.signal.aborted) {
+            this.cancelled += 1;
+            return;
+          }
+
+          this.failed += 1;
+          logger.error(`${this.name} job failed`, { jobId: job.jobId, error: String(error) });
+        },
+      )
+      .finally(() => {
+        this.running.delete(job.jobId);
+        this.drain();
+      });
+  }
+}
+
+export const analysisQueue = new JobQueue("analysis", env.analysisWorkerConcurrency);
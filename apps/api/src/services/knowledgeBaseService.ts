@@ -0,0 +1,177 @@
+import { store } from "../stores/index.js";
+import type { CanonicalEntity, EntityCategory, FactItem, FactPack, KnowledgeEntry, KnowledgeRevision } from "../types/domain.js";
+import { entityIdFor } from "./providers/geminiClient.js";
+
+// Replaced revisions kept per entry; older ones remain only in the admin audit log.
+const MAX_HISTORY = 20;
+
+// Editors reviewed these facts, so they rank above anything research produces.
+const CURATED_CONFIDENCE = 0.95;
+
+export type KnowledgeEntryInput = {
+  label: string;
+  category: EntityCategory;
+  aliases?: string[];
+  summary: string;
+  facts: Array<{ claim: string; sourceUrls: string[]; confidence?: number; freshnessDate?: string }>;
+};
+
+export type KnowledgeEntrySummary = {
+  entityId: string;
+  label: string;
+  category: EntityCategory;
+  aliases: string[];
+  factCount: number;
+  version: number;
+  updatedBy: string;
+  updatedAt: string;
+};
+
+// "Eiffel  Tower", "eiffel-tower" and "Eiffel Tówer" all match the same alias.
+const normalizeAlias = (value: string): string =>
+  value
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+const aliasesOf = (entry: Pick<KnowledgeEntry, "label" | "aliases">): string[] =>
+  [entry.label, ...entry.aliases].map(normalizeAlias).filter(Boolean);
+
+const revisionOf = (entry: KnowledgeEntry): KnowledgeRevision => ({
+  version: entry.version,
+  label: entry.label,
+  category: entry.category,
+  aliases: entry.aliases,
+  summary: entry.summary,
+  facts: entry.facts,
+  updatedBy: entry.updatedBy,
+  updatedAt: entry.updatedAt,
+});
+
+const contentFrom = (input: KnowledgeEntryInput, updatedAt: string) => ({
+  label: input.label.trim(),
+  category: input.category,
+  aliases: [...new Set((input.aliases ?? []).map((alias) => alias.trim()).filter(Boolean))],
+  summary: input.summary.trim(),
+  facts: input.facts.map(
+    (fact): FactItem => ({
+      claim: fact.claim.trim(),
+      confidence: fact.confidence ?? CURATED_CONFIDENCE,
+      sourceUrls: fact.sourceUrls,
+      freshnessDate: fact.freshnessDate ?? updatedAt.slice(0, 10),
+    }),
+  ),
+});
+
+export class KnowledgeBaseService {
+  list(): KnowledgeEntrySummary[] {
+    return store.knowledgeBase
+      .values()
+      .map((entry) => ({
+        entityId: entry.entityId,
+        label: entry.label,
+        category: entry.category,
+        aliases: entry.aliases,
+        factCount: entry.facts.length,
+        version: entry.version,
+        updatedBy: entry.updatedBy,
+        updatedAt: entry.updatedAt,
+      }))
+      .sort((a, b) => a.label.localeCompare(b.label));
+  }
+
+  get(entityId: string): KnowledgeEntry | null {
+    return store.knowledgeBase.get(entityId) ?? null;
+  }
+
+  // The entry for the recognized entity: an exact entity ID first, then any alias against the names vision gave it.
+  match(entity: CanonicalEntity): KnowledgeEntry | null {
+    const exact = store.knowledgeBase.get(entity.entityId);
+    if (exact) {
+      return exact;
+    }
+
+    const names = new Set(
+      [entity.label, entity.researchSubject, entity.detectedLabel]
+        .filter((name): name is string => Boolean(name))
+        .map(normalizeAlias),
+    );
+    return store.knowledgeBase.values().find((entry) => aliasesOf(entry).some((alias) => names.has(alias))) ?? null;
+  }
+
+  // Another entry already answering to one of these names, which would make matching ambiguous.
+  findConflict(input: Pick<KnowledgeEntryInput, "label" | "aliases">, entityId: string): KnowledgeEntry | null {
+    const aliases = new Set(aliasesOf({ label: input.label, aliases: input.aliases ?? [] }));
+    return (
+      store.knowledgeBase
+        .values()
+        .find((entry) => entry.entityId !== entityId && aliasesOf(entry).some((alias) => aliases.has(alias))) ?? null
+    );
+  }
+
+  // Editors may pin an entity ID; otherwise it is derived from the label the way vision derives it.
+  idFor(input: { entityId?: string; label: string }): string {
+    return input.entityId ?? entityIdFor(input.label.trim());
+  }
+
+  create(input: KnowledgeEntryInput & { entityId?: string }, editor: string): KnowledgeEntry | null {
+    const entityId = this.idFor(input);
+    if (store.knowledgeBase.get(entityId)) {
+      return null;
+    }
+
+    const now = new Date().toISOString();
+    const entry: KnowledgeEntry = {
+      entityId,
+      ...contentFrom(input, now),
+      version: 1,
+      updatedBy: editor,
+      updatedAt: now,
+      createdAt: now,
+      history: [],
+    };
+
+    store.knowledgeBase.set(entityId, entry);
+    return entry;
+  }
+
+  update(entityId: string, input: KnowledgeEntryInput, editor: string): KnowledgeEntry | null {
+    const existing = store.knowledgeBase.get(entityId);
+    if (!existing) {
+      return null;
+    }
+
+    const now = new Date().toISOString();
+    const updated: KnowledgeEntry = {
+      ...existing,
+      ...contentFrom(input, now),
+      version: existing.version + 1,
+      updatedBy: editor,
+      updatedAt: now,
+      history: [revisionOf(existing), ...existing.history].slice(0, MAX_HISTORY),
+    };
+
+    store.knowledgeBase.set(entityId, updated);
+    return updated;
+  }
+
+  remove(entityId: string): boolean {
+    return store.knowledgeBase.delete(entityId);
+  }
+
+  // Curated packs keep the entity vision recognized, so personas still speak as what the child photographed.
+  toFactPack(entry: KnowledgeEntry, entity: CanonicalEntity): FactPack {
+    return {
+      entity,
+      summary: entry.summary,
+      facts: entry.facts,
+      generatedAt: entry.updatedAt,
+      source: "knowledge_base",
+      knowledgeVersion: entry.version,
+    };
+  }
+}
+
+export const knowledgeBaseService = new KnowledgeBaseService();
@@ -1,6 +1,6 @@
 import { randomUUID } from "node:crypto";
 import { env } from "../config/env.js";
-import { store } from "../stores/inMemoryStore.js";
+import { store } from "../stores/index.js";
 import type { ModerationResult } from "../types/domain.js";
 
 const BLOCKED_PATTERNS = [
@@ -105,7 +105,7 @@ export class ModerationService {
   }
 
   private recordIncident(sessionId: string, reason: string, payload: string): void {
-    store.incidents.push({
+    store.incidents.append({
       incidentId: randomUUID(),
       sessionId,
       reason,
@@ -1,4 +1,5 @@
-import type { CanonicalEntity, FactItem, FactPack, PersonaArchetype, PersonaProfile } from "../types/domain.js";
+import { DEFAULT_AGE_BAND } from "../config/ageBands.js";
+import type { AgeBand, CanonicalEntity, FactItem, FactPack, PersonaArchetype, PersonaProfile, Speaker } from "../types/domain.js";
 
 const archetypeByCategory: Record<CanonicalEntity["category"], PersonaArchetype> = {
   landmark: "wise",
@@ -17,19 +18,64 @@ const styleByArchetype: Record<PersonaArchetype, string> = {
   inventor: "clever, hands-on, and discovery-driven",
 };
 
-const objectHookTemplates = [
-  "Psst... want to hear a secret? I'm {name}!",
-  "Whoa, you found me! I'm {name}. Ready for a surprise?",
-  "Guess what? I'm {name}. Wanna hear my wildest fact?",
-  "Adventure alert! I'm {name}. Ready to be amazed?",
-];
+// Younger children get a plain, friendly hello; older ones a hint that there is more to the story.
+const hookTemplatesByBand: Record<AgeBand, { object: string[]; character: string[] }> = {
+  "4-6": {
+    object: [
+      "Hi, friend! I'm {name}!",
+      "Peekaboo! You found me! I'm {name}!",
+      "Hello! I'm {name}. Want to hear something fun?",
+    ],
+    character: [
+      "Hi there! I'm {name}! Want to hear my story?",
+      "Hello, friend! It's me, {name}!",
+      "You found me! I'm {name}, from long, long ago!",
+    ],
+  },
+  "7-10": {
+    object: [
+      "Psst... want to hear a secret? I'm {name}!",
+      "Whoa, you found me! I'm {name}. Ready for a surprise?",
+      "Guess what? I'm {name}. Wanna hear my wildest fact?",
+      "Adventure alert! I'm {name}. Ready to be amazed?",
+    ],
+    character: [
+      "Psst... it's really me, {name}! Want my biggest secret?",
+      "You spotted me! I'm {name}. Wanna know why people still talk about me?",
+      "Time-travel moment: I'm {name}. Ready for a jaw-dropping clue?",
+      "History hook: I'm {name}. Want to know what changed everything for me?",
+    ],
+  },
+  "11-13": {
+    object: [
+      "Hey, I'm {name}. Most people walk right past me. Want to know what they miss?",
+      "I'm {name}, and there's more going on here than you'd think.",
+      "So you found {name}. Ready for the story behind me?",
+    ],
+    character: [
+      "I'm {name}. History remembers me, but not always the way it happened.",
+      "It's {name}. Want the part of my story the textbooks skip?",
+      "I'm {name}. One decision changed everything for me. Want to hear it?",
+    ],
+  },
+};
 
-const characterHookTemplates = [
-  "Psst... it's really me, {name}! Want my biggest secret?",
-  "You spotted me! I'm {name}. Wanna know why people still talk about me?",
-  "Time-travel moment: I'm {name}. Ready for a jaw-dropping clue?",
-  "History hook: I'm {name}. Want to know what changed everything for me?",
-];
+// Facts in a template opening; the youngest listeners get one so the reply stays short.
+const openingFactsByBand: Record<AgeBand, number> = { "4-6": 1, "7-10": 2, "11-13": 2 };
+
+// "Meet each other" openings: the first object introduces both, the second greets the first.
+const meetingHookTemplates: Record<Speaker, string[]> = {
+  primary: [
+    "Look who's here! I'm {name}, and I just met {other}!",
+    "Whoa, a double discovery! I'm {name}, and {other} is right here with me.",
+    "Guess what? I'm {name}, and today I get to hang out with {other}!",
+  ],
+  partner: [
+    "Hi {other}! I'm {name}. So nice to meet you!",
+    "Hey there, {other}! I'm {name}. Want to swap secrets?",
+    "Well hello, {other}! I'm {name}, and I've got a story too!",
+  ],
+};
 
 const curiosityQuestionsByCategory: Record<CanonicalEntity["category"], string[]> = {
   landmark: [
@@ -85,6 +131,14 @@ const toFirstPersonFact = (fact: FactItem | undefined, entity: CanonicalEntity):
   return rewritten;
 };
 
+const withArticle = (label: string): string => {
+  if (/^(?:a|an|the)\s/i.test(label) || /^[A-Z]/.test(label)) {
+    return label;
+  }
+
+  return /^[aeiou]/i.test(label) ? `an ${label}` : `a ${label}`;
+};
+
 export class PersonaService {
   buildPersona(entity: CanonicalEntity): PersonaProfile {
     let voiceArchetype = archetypeByCategory[entity.category] ?? "adventurous";
@@ -100,15 +154,57 @@ export class PersonaService {
     };
   }
 
-  buildHook(entity: CanonicalEntity): string {
-    const templates = entity.roleplayMode === "as_character" ? characterHookTemplates : objectHookTemplates;
-    const template = templates[Math.floor(Math.random() * templates.length)];
-    return template.replace("{name}", entity.roleplayName);
+  // Two personas in one conversation must not share a voice, so the partner moves on to the next archetype.
+  buildPartnerPersona(entity: CanonicalEntity, primary: PersonaProfile): PersonaProfile {
+    const persona = this.buildPersona(entity);
+    if (persona.voiceArchetype !== primary.voiceArchetype) {
+      return persona;
+    }
+
+    const archetypes = Object.keys(styleByArchetype) as PersonaArchetype[];
+    const voiceArchetype = archetypes[(archetypes.indexOf(persona.voiceArchetype) + 1) % archetypes.length];
+    return {
+      voiceArchetype,
+      speakingStyle: styleByArchetype[voiceArchetype],
+      hookTemplateId: `${voiceArchetype}-hook-1`,
+    };
+  }
+
+  buildMeetingHook(entity: CanonicalEntity, other: CanonicalEntity, speaker: Speaker): string {
+    const templates = meetingHookTemplates[speaker];
+    return templates[Math.floor(Math.random() * templates.length)]
+      .replace("{name}", entity.roleplayName)
+      .replace("{other}", other.roleplayName);
   }
 
-  buildFirstReply(input: { factPack: FactPack; hook: string }): string {
-    const firstFact = toFirstPersonFact(input.factPack.facts[0], input.factPack.entity);
-    const secondFact = toFirstPersonFact(input.factPack.facts[1], input.factPack.entity);
+  // Pass the previous hook to make sure a repeat visit opens differently.
+  buildHook(entity: CanonicalEntity, previousHook?: string, ageBand: AgeBand = DEFAULT_AGE_BAND): string {
+    const hooks = hookTemplatesByBand[ageBand];
+    const templates = (entity.roleplayMode === "as_character" ? hooks.character : hooks.object)
+      .map((template) => template.replace("{name}", entity.roleplayName))
+      .filter((hook) => hook !== previousHook);
+    return templates[Math.floor(Math.random() * templates.length)];
+  }
+
+  buildGuessingReply(labels: string[]): string {
+    const guesses = labels.slice(0, 3);
+    if (guesses.length === 0) {
+      return "Hmm, I'm not sure what I am yet! Can you tell me what you see?";
+    }
+
+    const question =
+      guesses.length === 1
+        ? `Am I ${withArticle(guesses[0])}?`
+        : `Am I ${guesses.slice(0, -1).map(withArticle).join(", ")} or ${withArticle(guesses[guesses.length - 1])}?`;
+
+    return `Hmm, I'm not quite sure who I am! ${question} Tell me what you see!`;
+  }
+
+  buildFirstReply(input: { factPack: FactPack; hook: string; ageBand?: AgeBand }): string {
+    const factCount = openingFactsByBand[input.ageBand ?? DEFAULT_AGE_BAND];
+    const facts = Array.from({ length: factCount }, (_, index) =>
+      toFirstPersonFact(input.factPack.facts[index], input.factPack.entity),
+    );
     const question = this.getCuriosityQuestion(input.factPack.entity);
 
     const identityLine =
@@ -116,22 +212,33 @@ export class PersonaService {
         ? `I'm ${input.factPack.entity.roleplayName}, and yep, this is my real story.`
         : `I'm ${input.factPack.entity.roleplayName}, and here's what makes me amazing.`;
 
-    return [input.hook, identityLine, firstFact, secondFact, question].join(" ");
+    return [input.hook, identityLine, ...facts, question].join(" ");
   }
 
-  buildFallbackReply(input: { factPack: FactPack; userQuestion: string; usedFactIndexes: Set<number> }): string {
+  // `replyingTo` names the other persona when this line follows theirs in a two-persona turn.
+  buildFallbackReply(input: {
+    factPack: FactPack;
+    userQuestion: string;
+    usedFactIndexes: Set<number>;
+    replyingTo?: string;
+    ageBand?: AgeBand;
+  }): string {
     const freshFact = this.pickFreshFact(input.factPack, input.usedFactIndexes);
     const question = this.getCuriosityQuestion(input.factPack.entity);
 
-    const intro =
-      input.factPack.entity.roleplayMode === "as_character"
+    const intro = input.replyingTo
+      ? `Ooh, good one, ${input.replyingTo}! I'm ${input.factPack.entity.roleplayName}.`
+      : input.factPack.entity.roleplayMode === "as_character"
         ? `Great question! I'm ${input.factPack.entity.roleplayName}.`
         : `Great question! I'm ${input.factPack.entity.roleplayName}.`;
 
+    // Repeating the question back only makes the reply longer for the youngest listeners.
+    const echo = input.ageBand === "4-6" ? [] : [`You asked: "${input.userQuestion}" and I love that curiosity.`];
+
     return [
       intro,
       `Here's something awesome: ${toFirstPersonFact(freshFact, input.factPack.entity)}`,
-      `You asked: "${input.userQuestion}" and I love that curiosity.`,
+      ...echo,
       question,
     ].join(" ");
   }
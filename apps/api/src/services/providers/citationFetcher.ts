@@ -0,0 +1,190 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { env } from "../../config/env.js";
+import { logger } from "../../utils/logger.js";
+
+export type CitationPage = {
+  url: string;
+  text: string;
+};
+
+export interface CitationFetcher {
+  readonly name: string;
+  // Resolves null when the page is missing or unreadable, or when it or a redirect on the way is not `fetchable`; that
+  // is a verdict on the citation, not an error. Rejects only when `signal` is aborted.
+  fetchPage(
+    url: string,
+    options: { fetchable: (url: string) => boolean; signal?: AbortSignal },
+  ): Promise<CitationPage | null>;
+}
+
+// Long pages are cut here; claims are checked against their opening, which is where encyclopedias put the facts.
+const MAX_TEXT_CHARS = 200_000;
+const MAX_CACHE_ENTRIES = 500;
+const MAX_REDIRECTS = 5;
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  lsquo: "'",
+  rsquo: "'",
+  ldquo: '"',
+  rdquo: '"',
+  ndash: "-",
+  mdash: "-",
+  hellip: "...",
+};
+
+// Drops markup, scripts and page chrome, keeping the prose a reader would see.
+export const readableText = (html: string): string =>
+  html
+    .replace(/<!--[\s\S]*?-->/g, " ")
+    .replace(/<(script|style|noscript|svg|nav|header|footer|aside|form)\b[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<\/?(p|div|br|li|h[1-6]|tr|section|article)\b[^>]*>/gi, ". ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (match, code: string) => {
+      if (code.startsWith("#")) {
+        const point = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+        // Out-of-range references become the replacement character, as browsers read them.
+        return point <= 0x10ffff ? String.fromCodePoint(point) : "\uFFFD";
+      }
+      return ENTITIES[code.toLowerCase()] ?? match;
+    })
+    .replace(/\s+/g, " ")
+    .replace(/(\s*\.\s*){2,}/g, ". ")
+    .replace(/^[\s.]+/, "")
+    .trim()
+    .slice(0, MAX_TEXT_CHARS);
+
+const readCapped = async (response: Response, maxBytes: number): Promise<string> => {
+  const reader = response.body?.getReader();
+  if (!reader) {
+    return "";
+  }
+
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  while (total < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    chunks.push(value);
+    total += value.byteLength;
+  }
+  await reader.cancel().catch(() => undefined);
+  return Buffer.concat(chunks).subarray(0, maxBytes).toString("utf8");
+};
+
+// Fetches the cited page once per TTL. Misses are remembered for a shorter time so a page that was briefly down gets retried.
+export class HttpCitationFetcher implements CitationFetcher {
+  readonly name = "http";
+  private readonly cache = new Map<string, { page: CitationPage | null; expiresAt: number }>();
+
+  constructor(private readonly options: { timeoutMs: number; cacheTtlMs: number; maxBytes: number }) {}
+
+  async fetchPage(
+    url: string,
+    options: { fetchable: (url: string) => boolean; signal?: AbortSignal },
+  ): Promise<CitationPage | null> {
+    const cached = this.cache.get(url);
+    if (cached && cached.expiresAt > Date.now()) {
+      // A page reached through a redirect is only served while the policy still allows where it ended up.
+      return cached.page && options.fetchable(cached.page.url) ? cached.page : null;
+    }
+
+    const page = await this.download(url, options);
+    this.cache.delete(url);
+    const ttlMs = page ? this.options.cacheTtlMs : this.options.cacheTtlMs / 24;
+    this.cache.set(url, { page, expiresAt: Date.now() + ttlMs });
+    if (this.cache.size > MAX_CACHE_ENTRIES) {
+      this.cache.delete(this.cache.keys().next().value as string);
+    }
+
+    return page;
+  }
+
+  // Redirects are followed by hand so every hop is held to the allowed domains, not just the cited URL.
+  private async download(
+    url: string,
+    { fetchable, signal }: { fetchable: (url: string) => boolean; signal?: AbortSignal },
+  ): Promise<CitationPage | null> {
+    const timeout = AbortSignal.timeout(this.options.timeoutMs);
+    try {
+      let target = url;
+      let response: Response;
+      for (let hops = 0; ; hops += 1) {
+        if (hops > MAX_REDIRECTS || !fetchable(target)) {
+          logger.warn("Citation fetch refused", { url, target, hops });
+          return null;
+        }
+
+        response = await fetch(target, {
+          headers: { Accept: "text/html,text/plain", "User-Agent": "WonderTalk citation check" },
+          redirect: "manual",
+          signal: signal ? AbortSignal.any([timeout, signal]) : timeout,
+        });
+        const location = response.headers.get("location");
+        if (response.status < 300 || response.status >= 400 || !location) {
+          break;
+        }
+        await response.body?.cancel().catch(() => undefined);
+        target = new URL(location, target).href;
+      }
+
+      const contentType = response.headers.get("content-type") ?? "";
+      if (!response.ok || !/text\/(html|plain)|application\/xhtml/.test(contentType)) {
+        await response.body?.cancel().catch(() => undefined);
+        return null;
+      }
+
+      const body = await readCapped(response, this.options.maxBytes);
+      const text = contentType.includes("plain") ? body.slice(0, MAX_TEXT_CHARS) : readableText(body);
+      return { url: target, text };
+    } catch (error) {
+      // Rejecting keeps an aborted download out of the cache, where it would count as a dead link.
+      signal?.throwIfAborted();
+      logger.warn("Citation fetch failed", { url, error: String(error) });
+      return null;
+    }
+  }
+}
+
+// Serves pages from a directory for tests and offline development: `https://www.nasa.gov/moon/` is `www_nasa_gov_moon.html`.
+export class FixtureCitationFetcher implements CitationFetcher {
+  readonly name = "fixture";
+
+  constructor(private readonly dir: string) {}
+
+  static fileNameFor(url: string): string {
+    const { hostname, pathname } = new URL(url);
+    return `${`${hostname}${pathname}`.replace(/[^a-z0-9]+/gi, "_").replace(/^_+|_+$/g, "")}.html`;
+  }
+
+  async fetchPage(url: string): Promise<CitationPage | null> {
+    try {
+      const html = await fs.readFile(path.resolve(this.dir, FixtureCitationFetcher.fileNameFor(url)), "utf8");
+      return { url, text: readableText(html) };
+    } catch {
+      return null;
+    }
+  }
+}
+
+export const createCitationFetcher = (driver: "http" | "fixture" = env.citationFetcher): CitationFetcher => {
+  if (driver === "fixture") {
+    return new FixtureCitationFetcher(env.citationFixtureDir);
+  }
+
+  return new HttpCitationFetcher({
+    timeoutMs: env.citationFetchTimeoutMs,
+    cacheTtlMs: env.citationCacheTtlMinutes * 60 * 1000,
+    maxBytes: env.citationMaxPageBytes,
+  });
+};
+
+export const citationFetcher = createCitationFetcher();
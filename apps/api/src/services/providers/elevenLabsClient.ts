@@ -11,7 +11,7 @@ export class ElevenLabsClient {
     return Boolean(env.elevenLabsApiKey);
   }
 
-  async synthesize(input: { text: string; voiceId?: string }): Promise<ElevenLabsSynthesis | null> {
+  async synthesize(input: { text: string; voiceId?: string; signal?: AbortSignal }): Promise<ElevenLabsSynthesis | null> {
     if (!this.isEnabled()) {
       return null;
     }
@@ -35,7 +35,7 @@ export class ElevenLabsClient {
           "Content-Type": "application/json",
           "xi-api-key": env.elevenLabsApiKey ?? "",
         },
-        signal: controller.signal,
+        signal: input.signal ? AbortSignal.any([controller.signal, input.signal]) : controller.signal,
         body: JSON.stringify({
           text: input.text,
           model_id: env.elevenLabsModel,
@@ -59,6 +59,7 @@ export class ElevenLabsClient {
         contentType: response.headers.get("content-type") ?? "audio/mpeg",
       };
     } catch (error) {
+      input.signal?.throwIfAborted();
       if (error instanceof Error && error.name === "AbortError") {
         logger.warn("ElevenLabs request timed out", { timeoutMs: env.voiceRequestTimeoutMs });
         return null;
@@ -1,8 +1,10 @@
 import fs from "node:fs/promises";
-import type { CanonicalEntity, EntityCategory, FactItem, RoleplayMode } from "../../types/domain.js";
+import type { AgeBand, CanonicalEntity, EntityCandidate, EntityCategory, FactItem, RoleplayMode } from "../../types/domain.js";
+import { ageBandProfile } from "../../config/ageBands.js";
 import { env } from "../../config/env.js";
 import { extractJsonObject } from "../../utils/json.js";
 import { logger } from "../../utils/logger.js";
+import { tracingService } from "../tracingService.js";
 
 type GeminiGenerateResponse = {
   candidates?: Array<{
@@ -35,6 +37,12 @@ type ReplyOutput = {
   reply: string;
 };
 
+// The other persona in a "meet each other" conversation, and what it just said, if anything.
+export type Companion = {
+  name: string;
+  lastLine?: string;
+};
+
 const CATEGORY_SET = new Set<EntityCategory>([
   "landmark",
   "nature",
@@ -45,7 +53,7 @@ const CATEGORY_SET = new Set<EntityCategory>([
   "other",
 ]);
 
-const DEPICTION_PATTERN = /\b(bust|statue|sculpture|portrait|painting|figure)\b/i;
+export const DEPICTION_PATTERN = /\b(bust|statue|sculpture|portrait|painting|figure)\b/i;
 
 const categoryFromLabel = (label: string): EntityCategory => {
   const lower = label.toLowerCase();
@@ -72,6 +80,11 @@ const categoryFromLabel = (label: string): EntityCategory => {
 
 const normalizeWhitespace = (value: string): string => value.replace(/\s+/g, " ").trim();
 
+export const entityIdFor = (canonicalLabel: string): string =>
+  `entity-${canonicalLabel.toLowerCase().replace(/[^a-z0-9]+/g, "-")}`;
+
+const clampConfidence = (value: number): number => Math.max(0, Math.min(1, value));
+
 const sanitizeName = (value: string | undefined, fallback: string): string => {
   if (!value) {
     return fallback;
@@ -122,6 +135,19 @@ const heuristicIdentity = (detectedLabel: string, category: EntityCategory): Ent
   };
 };
 
+const companionInstructions = (companion: Companion | undefined): string[] => {
+  if (!companion) {
+    return [];
+  }
+
+  return [
+    `${companion.name} is in this conversation too, as a separate character with its own voice.`,
+    "Talk to the child and to them like a new friend, and you may compare yourselves.",
+    ...(companion.lastLine ? [`${companion.name} just said: "${companion.lastLine}". React to it in one short sentence first.`] : []),
+    `Never speak as ${companion.name}.`,
+  ];
+};
+
 export class GeminiClient {
   private readonly endpoint = `https://generativelanguage.googleapis.com/v1beta/models/${env.geminiModel}:generateContent`;
 
@@ -129,6 +155,11 @@ export class GeminiClient {
     return Boolean(env.geminiApiKey);
   }
 
+  // Provider spans name the model that was asked; each caller flags when it had to fall back instead.
+  private traced<T>(name: string, run: () => Promise<T>): Promise<T> {
+    return tracingService.span(name, { provider: "gemini", model: env.geminiModel }, run);
+  }
+
   private normalizeCategory(category: string | undefined, label: string): EntityCategory {
     if (category && CATEGORY_SET.has(category as EntityCategory)) {
       return category as EntityCategory;
@@ -137,7 +168,12 @@ export class GeminiClient {
     return categoryFromLabel(label);
   }
 
-  private async generate(parts: Array<Record<string, unknown>>, systemInstruction?: string): Promise<string | null> {
+  // A failed or timed-out request resolves null so callers fall back; one the caller aborted rejects with its reason.
+  private async generate(
+    parts: Array<Record<string, unknown>>,
+    systemInstruction?: string,
+    signal?: AbortSignal,
+  ): Promise<string | null> {
     if (!this.isEnabled()) {
       return null;
     }
@@ -149,7 +185,7 @@ export class GeminiClient {
       const response = await fetch(`${this.endpoint}?key=${env.geminiApiKey}`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        signal: controller.signal,
+        signal: signal ? AbortSignal.any([controller.signal, signal]) : controller.signal,
         body: JSON.stringify({
           system_instruction: systemInstruction
             ? {
@@ -173,6 +209,7 @@ export class GeminiClient {
       const text = payload.candidates?.[0]?.content?.parts?.map((part) => part.text ?? "").join("\n") ?? null;
       return text;
     } catch (error) {
+      signal?.throwIfAborted();
       if (error instanceof Error && error.name === "AbortError") {
         logger.warn("Gemini request timed out", { timeoutMs: env.geminiRequestTimeoutMs });
         return null;
@@ -188,161 +225,256 @@ export class GeminiClient {
   private async resolveEntityIdentity(input: {
     detectedLabel: string;
     category: EntityCategory;
+    signal?: AbortSignal;
   }): Promise<EntityResolutionOutput> {
-    const heuristic = heuristicIdentity(input.detectedLabel, input.category);
+    return this.traced("vision.identity", async () => {
+      const heuristic = heuristicIdentity(input.detectedLabel, input.category);
 
-    const shouldRefineWithModel =
-      this.isEnabled() && (input.category === "statue" || DEPICTION_PATTERN.test(input.detectedLabel));
+      const shouldRefineWithModel =
+        this.isEnabled() && (input.category === "statue" || DEPICTION_PATTERN.test(input.detectedLabel));
 
-    if (!shouldRefineWithModel) {
-      return heuristic;
-    }
+      if (!shouldRefineWithModel) {
+        tracingService.annotate({ provider: "heuristic", model: undefined });
+        return heuristic;
+      }
 
-    const prompt = JSON.stringify(
-      {
-        detectedLabel: input.detectedLabel,
-        category: input.category,
-        instruction: [
-          "Resolve the best character identity for a kids voice roleplay app.",
-          "If the image is a depiction (bust/statue/portrait of a person), set roleplayMode to as_character and set canonicalLabel/researchSubject/roleplayName to the depicted person.",
-          "If not a depiction, set roleplayMode to as_object and keep identity as the object.",
-          "Never return labels like 'bust of X' as canonicalLabel when roleplayMode is as_character.",
-          "Return strict JSON only.",
-        ].join(" "),
-      },
-      null,
-      2,
-    );
+      const prompt = JSON.stringify(
+        {
+          detectedLabel: input.detectedLabel,
+          category: input.category,
+          instruction: [
+            "Resolve the best character identity for a kids voice roleplay app.",
+            "If the image is a depiction (bust/statue/portrait of a person), set roleplayMode to as_character and set canonicalLabel/researchSubject/roleplayName to the depicted person.",
+            "If not a depiction, set roleplayMode to as_object and keep identity as the object.",
+            "Never return labels like 'bust of X' as canonicalLabel when roleplayMode is as_character.",
+            "Return strict JSON only.",
+          ].join(" "),
+        },
+        null,
+        2,
+      );
 
-    const text = await this.generate([{ text: prompt }], "Return strict JSON: {canonicalLabel,researchSubject,roleplayName,roleplayMode}");
-    const parsed = text ? extractJsonObject<EntityResolutionOutput>(text) : null;
+      const text = await this.generate(
+        [{ text: prompt }],
+        "Return strict JSON: {canonicalLabel,researchSubject,roleplayName,roleplayMode}",
+        input.signal,
+      );
+      const parsed = text ? extractJsonObject<EntityResolutionOutput>(text) : null;
 
-    if (!parsed) {
-      return heuristic;
-    }
+      if (!parsed) {
+        tracingService.annotate({ fallback: true });
+        return heuristic;
+      }
 
-    const mode: RoleplayMode = parsed.roleplayMode === "as_character" ? "as_character" : "as_object";
-    const subjectFallback = mode === "as_character" ? heuristic.researchSubject : heuristic.canonicalLabel;
+      const mode: RoleplayMode = parsed.roleplayMode === "as_character" ? "as_character" : "as_object";
+      const subjectFallback = mode === "as_character" ? heuristic.researchSubject : heuristic.canonicalLabel;
 
-    const researchSubject = sanitizeName(parsed.researchSubject, subjectFallback);
-    const roleplayName = sanitizeName(parsed.roleplayName, researchSubject);
-    let canonicalLabel = sanitizeName(parsed.canonicalLabel, researchSubject);
+      const researchSubject = sanitizeName(parsed.researchSubject, subjectFallback);
+      const roleplayName = sanitizeName(parsed.roleplayName, researchSubject);
+      let canonicalLabel = sanitizeName(parsed.canonicalLabel, researchSubject);
 
-    if (mode === "as_character" && DEPICTION_PATTERN.test(canonicalLabel)) {
-      canonicalLabel = researchSubject;
-    }
+      if (mode === "as_character" && DEPICTION_PATTERN.test(canonicalLabel)) {
+        canonicalLabel = researchSubject;
+      }
 
-    return {
-      canonicalLabel,
-      researchSubject,
-      roleplayName,
-      roleplayMode: mode,
-    };
+      return {
+        canonicalLabel,
+        researchSubject,
+        roleplayName,
+        roleplayMode: mode,
+      };
+    });
   }
 
-  async detectEntityFromImage(imagePath: string, mimeType: string): Promise<CanonicalEntity> {
-    if (this.isEnabled()) {
-      const bytes = await fs.readFile(imagePath);
-      const prompt =
-        "Identify the main visible subject in this image for a child educational app. Return strict JSON: {label, category, confidence, alternatives:[{label,confidence}]}. category must be one of landmark,nature,statue,electronics,science,animal,other.";
-      const text = await this.generate(
-        [
-          { text: prompt },
-          {
+  // Alternatives are the model's other guesses, raw labels only; identity resolution runs once one is chosen.
+  // With a context image, the first image is the region the child picked and the second is the whole photo.
+  async detectEntityFromImage(
+    imagePath: string,
+    mimeType: string,
+    contextImagePath?: string,
+    signal?: AbortSignal,
+  ): Promise<{ entity: CanonicalEntity; alternatives: EntityCandidate[] }> {
+    return this.traced("vision.detect", async () => {
+      if (this.isEnabled()) {
+        const images = [imagePath, ...(contextImagePath ? [contextImagePath] : [])];
+        const inlineImages = await Promise.all(
+          images.map(async (filePath) => ({
             inline_data: {
               mime_type: mimeType,
-              data: bytes.toString("base64"),
+              data: (await fs.readFile(filePath)).toString("base64"),
             },
-          },
-        ],
-        "You classify image subjects for children and return only valid JSON.",
-      );
+          })),
+        );
+        const subject = contextImagePath
+          ? "Identify the main visible subject in the first image, which is the part of the photo a child pointed at; the second image is the full photo, for context only."
+          : "Identify the main visible subject in this image for a child educational app.";
+        const prompt = `${subject} Return strict JSON: {label, category, confidence, alternatives:[{label,confidence}]}. category must be one of landmark,nature,statue,electronics,science,animal,other.`;
+        const text = await this.generate(
+          [{ text: prompt }, ...inlineImages],
+          "You classify image subjects for children and return only valid JSON.",
+          signal,
+        );
+
+        const parsed = text ? extractJsonObject<VisionOutput>(text) : null;
+        if (parsed?.label) {
+          const detectedLabel = sanitizeName(parsed.label, "mystery object");
+          const category = this.normalizeCategory(parsed.category, detectedLabel);
+          const identity = await this.resolveEntityIdentity({
+            detectedLabel,
+            category,
+            signal,
+          });
+
+          const alternatives = (Array.isArray(parsed.alternatives) ? parsed.alternatives : [])
+            .map((alternative) => ({
+              label: sanitizeName(alternative?.label, ""),
+              confidence: clampConfidence(alternative?.confidence ?? 0),
+            }))
+            .filter((alternative) => alternative.label.length > 0)
+            .map((alternative) => ({ entityId: entityIdFor(alternative.label), ...alternative }));
 
-      const parsed = text ? extractJsonObject<VisionOutput>(text) : null;
-      if (parsed?.label) {
-        const detectedLabel = sanitizeName(parsed.label, "mystery object");
-        const category = this.normalizeCategory(parsed.category, detectedLabel);
-        const identity = await this.resolveEntityIdentity({
-          detectedLabel,
-          category,
-        });
+          return {
+            entity: {
+              entityId: entityIdFor(identity.canonicalLabel),
+              label: identity.canonicalLabel,
+              detectedLabel,
+              category,
+              confidence: clampConfidence(parsed.confidence ?? 0.5),
+              researchSubject: identity.researchSubject,
+              roleplayName: identity.roleplayName,
+              roleplayMode: identity.roleplayMode,
+            },
+            alternatives,
+          };
+        }
+      }
+
+      tracingService.annotate({ fallback: true });
+      const fallbackLabel = this.fallbackLabelFromFilename(imagePath);
+      const category = categoryFromLabel(fallbackLabel);
+      const identity = heuristicIdentity(fallbackLabel, category);
 
-        return {
-          entityId: `entity-${identity.canonicalLabel.toLowerCase().replace(/[^a-z0-9]+/g, "-")}`,
+      return {
+        entity: {
+          entityId: entityIdFor(identity.canonicalLabel),
           label: identity.canonicalLabel,
-          detectedLabel,
+          detectedLabel: fallbackLabel,
           category,
-          confidence: Math.max(0, Math.min(1, parsed.confidence ?? 0.5)),
+          confidence: 0.42,
           researchSubject: identity.researchSubject,
           roleplayName: identity.roleplayName,
           roleplayMode: identity.roleplayMode,
-        };
-      }
-    }
+        },
+        alternatives: [],
+      };
+    });
+  }
 
-    const fallbackLabel = this.fallbackLabelFromFilename(imagePath);
-    const category = categoryFromLabel(fallbackLabel);
-    const identity = heuristicIdentity(fallbackLabel, category);
+  // Builds an entity from a typed label (admin warmup) using the same identity rules as vision.
+  async entityFromLabel(label: string, signal?: AbortSignal): Promise<CanonicalEntity> {
+    const detectedLabel = sanitizeName(label, "mystery object");
+    const category = categoryFromLabel(detectedLabel);
+    const identity = await this.resolveEntityIdentity({ detectedLabel, category, signal });
 
     return {
-      entityId: `entity-${identity.canonicalLabel.toLowerCase().replace(/[^a-z0-9]+/g, "-")}`,
+      entityId: entityIdFor(identity.canonicalLabel),
       label: identity.canonicalLabel,
-      detectedLabel: fallbackLabel,
+      detectedLabel,
       category,
-      confidence: 0.42,
+      confidence: 1,
       researchSubject: identity.researchSubject,
       roleplayName: identity.roleplayName,
       roleplayMode: identity.roleplayMode,
     };
   }
 
+  // Null when the model is off or returns nothing usable; callers fall back to `fallbackResearch`.
   async deepResearch(
     entity: CanonicalEntity,
     allowedSourceDomains: string[],
-  ): Promise<{ summary: string; facts: FactItem[] }> {
-    if (this.isEnabled()) {
-      const domainText = allowedSourceDomains.join(", ");
-      const prompt = [
-        `Research subject: ${entity.researchSubject}.`,
-        `Detected visual label: ${entity.detectedLabel ?? entity.label}.`,
-        `Roleplay identity: ${entity.roleplayName} (${entity.roleplayMode}).`,
-        "Return strict JSON with: {summary, facts:[{claim, confidence, sourceUrls, freshnessDate}]}",
-        "Rules:",
-        "- Provide 4 to 6 highly interesting facts for children ages 7-10.",
-        "- Focus on the research subject, not the artwork container, when roleplayMode is as_character.",
-        "- Prefer facts that spark curiosity (surprises, myths vs truth, design secrets, big turning points).",
-        "- Claims must be concise, child-friendly, and citation-backed.",
-        "- Include only trustworthy educational sources.",
-        `- Prefer these domains when possible: ${domainText}.`,
-        "- confidence between 0 and 1.",
-      ].join("\n");
+    ageBand?: AgeBand,
+    signal?: AbortSignal,
+  ): Promise<{ summary: string; facts: FactItem[] } | null> {
+    return this.traced("research.generate", async () => {
+      if (this.isEnabled()) {
+        const profile = ageBandProfile(ageBand);
+        const domainText = allowedSourceDomains.join(", ");
+        const prompt = [
+          `Research subject: ${entity.researchSubject}.`,
+          `Detected visual label: ${entity.detectedLabel ?? entity.label}.`,
+          `Roleplay identity: ${entity.roleplayName} (${entity.roleplayMode}).`,
+          "Return strict JSON with: {summary, facts:[{claim, confidence, sourceUrls, freshnessDate}]}",
+          "Rules:",
+          `- Provide ${profile.factCount.min} to ${profile.factCount.max} highly interesting facts for ${profile.audience}.`,
+          "- Focus on the research subject, not the artwork container, when roleplayMode is as_character.",
+          `- ${profile.researchFocus}`,
+          "- Claims must be concise, child-friendly, and citation-backed.",
+          "- Include only trustworthy educational sources.",
+          `- Prefer these domains when possible: ${domainText}.`,
+          "- confidence between 0 and 1.",
+        ].join("\n");
+
+        const text = await this.generate(
+          [{ text: prompt }],
+          "You are a rigorous research assistant. Verify claims and include citation URLs in each fact.",
+          signal,
+        );
+
+        const parsed = text ? extractJsonObject<ResearchOutput>(text) : null;
+        if (parsed?.facts?.length) {
+          const facts: FactItem[] = parsed.facts
+            .filter((fact) => fact.claim && Array.isArray(fact.sourceUrls) && fact.sourceUrls.length > 0)
+            .map((fact) => ({
+              claim: fact.claim,
+              confidence: Math.max(0, Math.min(1, fact.confidence ?? 0.55)),
+              sourceUrls: fact.sourceUrls,
+              freshnessDate: fact.freshnessDate ?? new Date().toISOString().slice(0, 10),
+            }));
+
+          if (facts.length > 0) {
+            return {
+              summary: parsed.summary ?? `${entity.roleplayName} is full of fascinating stories and science.`,
+              facts,
+            };
+          }
+        }
+      }
 
-      const text = await this.generate(
-        [{ text: prompt }],
-        "You are a rigorous research assistant. Verify claims and include citation URLs in each fact.",
-      );
+      tracingService.annotate({ fallback: true });
+      return null;
+    });
+  }
 
-      const parsed = text ? extractJsonObject<ResearchOutput>(text) : null;
-      if (parsed?.facts?.length) {
-        const facts: FactItem[] = parsed.facts
-          .filter((fact) => fact.claim && Array.isArray(fact.sourceUrls) && fact.sourceUrls.length > 0)
-          .map((fact) => ({
-            claim: fact.claim,
-            confidence: Math.max(0, Math.min(1, fact.confidence ?? 0.55)),
-            sourceUrls: fact.sourceUrls,
-            freshnessDate: fact.freshnessDate ?? new Date().toISOString().slice(0, 10),
-          }));
-
-        if (facts.length > 0) {
-          return {
-            summary: parsed.summary ?? `${entity.roleplayName} is full of fascinating stories and science.`,
-            facts,
-          };
-        }
+  // How well a source passage supports a claim, 0 to 1; null when the model is off or gives no usable answer.
+  async judgeCitationSupport(claim: string, passage: string, signal?: AbortSignal): Promise<number | null> {
+    return this.traced("research.judge", async () => {
+      if (!this.isEnabled()) {
+        tracingService.annotate({ fallback: true });
+        return null;
       }
-    }
 
-    return this.fallbackResearch(entity);
+      const prompt = JSON.stringify(
+        {
+          instruction: [
+            "Decide whether the source passage supports the claim.",
+            "Paraphrase is fine, but every specific detail in the claim (numbers, names, dates) must be backed by the passage.",
+            "Return strict JSON: {support} with support between 0 (unsupported or contradicted) and 1 (fully supported).",
+          ].join(" "),
+          claim,
+          passage: passage.slice(0, 4000),
+        },
+        null,
+        2,
+      );
+
+      const text = await this.generate([{ text: prompt }], "You are a careful fact checker. Return strict JSON only.", signal);
+      const parsed = text ? extractJsonObject<{ support: number }>(text) : null;
+      if (typeof parsed?.support !== "number") {
+        tracingService.annotate({ fallback: true });
+        return null;
+      }
+      return clampConfidence(parsed.support);
+    });
   }
 
   async generateOpeningReply(input: {
@@ -350,40 +482,54 @@ export class GeminiClient {
     hook: string;
     summary: string;
     candidateFacts: FactItem[];
+    companion?: Companion;
+    ageBand?: AgeBand;
+    // Why the previous draft was too hard to follow; asks for a simpler rewrite.
+    simplify?: string;
+    signal?: AbortSignal;
   }): Promise<string | null> {
-    if (!this.isEnabled()) {
-      return null;
-    }
+    return this.traced("persona.reply", async () => {
+      if (!this.isEnabled()) {
+        tracingService.annotate({ fallback: true });
+        return null;
+      }
 
-    const prompt = JSON.stringify(
-      {
-        instruction: [
-          "Create the first spoken reply for a child ages 7-10.",
-          `You are roleplaying as: ${input.entity.roleplayName}.`,
-          `Roleplay mode: ${input.entity.roleplayMode}.`,
-          "Always speak in first person.",
-          "If mode is as_character, never describe yourself as 'the bust/statue/portrait of ...'.",
-          "Use short spoken sentences and simple words a 7-year-old can understand.",
-          "Sound like a warm storyteller, not a textbook.",
-          "Start with the exact hook sentence provided.",
-          "Then add one surprising twist or conflict fact (for example: people once disliked me at first).",
-          "Add one more wow fact.",
-          "End with one curiosity question that piques interest.",
-          "Use contractions naturally.",
-          "Keep under 90 words.",
-          "Return strict JSON: {reply}.",
-        ].join(" "),
-        hook: input.hook,
-        summary: input.summary,
-        candidateFacts: input.candidateFacts,
-      },
-      null,
-      2,
-    );
+      const profile = ageBandProfile(input.ageBand);
+      const prompt = JSON.stringify(
+        {
+          instruction: [
+            `Create the first spoken reply for ${profile.audience}.`,
+            `You are roleplaying as: ${input.entity.roleplayName}.`,
+            `Roleplay mode: ${input.entity.roleplayMode}.`,
+            "Always speak in first person.",
+            "If mode is as_character, never describe yourself as 'the bust/statue/portrait of ...'.",
+            profile.vocabulary,
+            "Sound like a warm storyteller, not a textbook.",
+            "Start with the exact hook sentence provided.",
+            "Then add one surprising twist or conflict fact (for example: people once disliked me at first).",
+            "Add one more wow fact.",
+            "End with one curiosity question that piques interest.",
+            "Use contractions naturally.",
+            ...companionInstructions(input.companion),
+            ...(input.simplify ? [input.simplify] : []),
+            `Keep under ${profile.openingWordLimit} words.`,
+            "Return strict JSON: {reply}.",
+          ].join(" "),
+          hook: input.hook,
+          summary: input.summary,
+          candidateFacts: input.candidateFacts,
+        },
+        null,
+        2,
+      );
 
-    const text = await this.generate([{ text: prompt }], "Return strict JSON only.");
-    const parsed = text ? extractJsonObject<ReplyOutput>(text) : null;
-    return parsed?.reply ?? null;
+      const text = await this.generate([{ text: prompt }], "Return strict JSON only.", input.signal);
+      const parsed = text ? extractJsonObject<ReplyOutput>(text) : null;
+      if (!parsed?.reply) {
+        tracingService.annotate({ fallback: true });
+      }
+      return parsed?.reply ?? null;
+    });
   }
 
   async generateFollowupReply(input: {
@@ -392,40 +538,54 @@ export class GeminiClient {
     summary: string;
     candidateFacts: FactItem[];
     recentTurns: Array<{ user: string; assistant: string }>;
+    companion?: Companion;
+    ageBand?: AgeBand;
+    simplify?: string;
+    signal?: AbortSignal;
   }): Promise<string | null> {
-    if (!this.isEnabled()) {
-      return null;
-    }
+    return this.traced("persona.reply", async () => {
+      if (!this.isEnabled()) {
+        tracingService.annotate({ fallback: true });
+        return null;
+      }
 
-    const prompt = JSON.stringify(
-      {
-        instruction: [
-          "Answer as a child-safe, wonder-driven voice guide for ages 7-10.",
-          `Roleplay identity: ${input.entity.roleplayName}.`,
-          `Roleplay mode: ${input.entity.roleplayMode}.`,
-          "Speak in first person.",
-          "If mode is as_character, never call yourself 'the bust/statue/portrait of ...'.",
-          "If needed, you may say a bust/statue is an artwork made of you.",
-          "Use short conversational sentences, lively tone, and simple language.",
-          "Add one fresh wow fact linked to the child's question.",
-          "End with one curiosity question that invites the child to ask more.",
-          "Use contractions naturally.",
-          "Under 80 words.",
-          "Return strict JSON: {reply}.",
-        ].join(" "),
-        entity: input.entity,
-        question: input.question,
-        summary: input.summary,
-        candidateFacts: input.candidateFacts,
-        recentTurns: input.recentTurns,
-      },
-      null,
-      2,
-    );
+      const profile = ageBandProfile(input.ageBand);
+      const prompt = JSON.stringify(
+        {
+          instruction: [
+            `Answer as a child-safe, wonder-driven voice guide for ${profile.audience}.`,
+            `Roleplay identity: ${input.entity.roleplayName}.`,
+            `Roleplay mode: ${input.entity.roleplayMode}.`,
+            "Speak in first person.",
+            "If mode is as_character, never call yourself 'the bust/statue/portrait of ...'.",
+            "If needed, you may say a bust/statue is an artwork made of you.",
+            "Use short conversational sentences, lively tone, and simple language.",
+            profile.vocabulary,
+            "Add one fresh wow fact linked to the child's question.",
+            "End with one curiosity question that invites the child to ask more.",
+            "Use contractions naturally.",
+            ...companionInstructions(input.companion),
+            ...(input.simplify ? [input.simplify] : []),
+            `Under ${profile.followupWordLimit} words.`,
+            "Return strict JSON: {reply}.",
+          ].join(" "),
+          entity: input.entity,
+          question: input.question,
+          summary: input.summary,
+          candidateFacts: input.candidateFacts,
+          recentTurns: input.recentTurns,
+        },
+        null,
+        2,
+      );
 
-    const text = await this.generate([{ text: prompt }], "Return strict JSON only.");
-    const parsed = text ? extractJsonObject<ReplyOutput>(text) : null;
-    return parsed?.reply ?? null;
+      const text = await this.generate([{ text: prompt }], "Return strict JSON only.", input.signal);
+      const parsed = text ? extractJsonObject<ReplyOutput>(text) : null;
+      if (!parsed?.reply) {
+        tracingService.annotate({ fallback: true });
+      }
+      return parsed?.reply ?? null;
+    });
   }
 
   async transcribeAudio(base64Audio: string, mimeType: string): Promise<string | null> {
@@ -451,7 +611,8 @@ export class GeminiClient {
     return parsed?.text ?? null;
   }
 
-  private fallbackResearch(entity: CanonicalEntity): { summary: string; facts: FactItem[] } {
+  // Category templates for subjects neither the knowledge base nor the model can cover.
+  fallbackResearch(entity: CanonicalEntity): { summary: string; facts: FactItem[] } {
     const date = new Date().toISOString().slice(0, 10);
     const subject = entity.researchSubject;
 
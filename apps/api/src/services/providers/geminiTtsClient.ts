@@ -1,5 +1,8 @@
+import { ageBandProfile } from "../../config/ageBands.js";
 import { env } from "../../config/env.js";
+import type { AgeBand } from "../../types/domain.js";
 import { logger } from "../../utils/logger.js";
+import { tracingService } from "../tracingService.js";
 
 type GeminiAudioResponse = {
   candidates?: Array<{
@@ -46,7 +49,13 @@ export class GeminiTtsClient {
     return Boolean(env.geminiApiKey);
   }
 
-  async synthesize(input: { text: string; voiceName?: string; styleInstruction?: string }): Promise<GeminiTtsSynthesis | null> {
+  async synthesize(input: {
+    text: string;
+    voiceName?: string;
+    styleInstruction?: string;
+    ageBand?: AgeBand;
+    signal?: AbortSignal;
+  }): Promise<GeminiTtsSynthesis | null> {
     if (!this.isEnabled()) {
       return null;
     }
@@ -56,7 +65,7 @@ export class GeminiTtsClient {
           "Generate speech audio only.",
           "Speak ONLY the text inside <say> tags, exactly as written, without adding extra words.",
           `Voice style: ${input.styleInstruction}.`,
-          "Use natural pacing, warm intonation, and expressive but gentle energy for children ages 7-10.",
+          `${ageBandProfile(input.ageBand).ttsPacing}.`,
           `<say>${input.text}</say>`,
         ].join("\n")
       : input.text;
@@ -76,7 +85,7 @@ export class GeminiTtsClient {
             headers: {
               "Content-Type": "application/json",
             },
-            signal: controller.signal,
+            signal: input.signal ? AbortSignal.any([controller.signal, input.signal]) : controller.signal,
             body: JSON.stringify({
               contents: [
                 {
@@ -118,6 +127,7 @@ export class GeminiTtsClient {
           return null;
         }
 
+        tracingService.annotate({ model, fallback: model !== env.geminiTtsModel });
         const audioBytes = Buffer.from(inlineData.data, "base64");
         const mimeType = inlineData.mimeType ?? "audio/pcm";
         if (mimeType.includes("wav")) {
@@ -142,6 +152,8 @@ export class GeminiTtsClient {
 
       return null;
     } catch (error) {
+      // Only a timeout falls through to the next provider; a cancelled job stops here.
+      input.signal?.throwIfAborted();
       if (error instanceof Error && error.name === "AbortError") {
         logger.warn("Gemini TTS request timed out", { timeoutMs: env.voiceRequestTimeoutMs });
         return null;
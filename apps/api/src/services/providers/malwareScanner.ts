@@ -0,0 +1,93 @@
+import net from "node:net";
+import { env } from "../../config/env.js";
+
+export type MalwareScanResult = {
+  infected: boolean;
+  signature?: string;
+};
+
+export interface MalwareScanner {
+  readonly name: string;
+  scan(data: Buffer): Promise<MalwareScanResult>;
+}
+
+// clamd's default StreamMaxLength is 25 MB; chunks just need to stay well under it.
+const INSTREAM_CHUNK_BYTES = 64 * 1024;
+
+// Talks to clamd's INSTREAM command over TCP or a Unix socket, so the file never has to be readable by clamd itself.
+export class ClamdScanner implements MalwareScanner {
+  readonly name = "clamd";
+
+  constructor(
+    private readonly options: { host: string; port: number; socketPath?: string; timeoutMs: number },
+  ) {}
+
+  scan(data: Buffer): Promise<MalwareScanResult> {
+    return new Promise((resolve, reject) => {
+      const socket = this.options.socketPath
+        ? net.createConnection(this.options.socketPath)
+        : net.createConnection(this.options.port, this.options.host);
+      const replies: Buffer[] = [];
+
+      socket.setTimeout(this.options.timeoutMs, () => {
+        socket.destroy(new Error(`clamd timed out after ${this.options.timeoutMs}ms`));
+      });
+      socket.on("error", reject);
+      socket.on("data", (chunk: Buffer) => replies.push(chunk));
+
+      socket.on("connect", () => {
+        socket.write("zINSTREAM\0");
+        for (let offset = 0; offset < data.length; offset += INSTREAM_CHUNK_BYTES) {
+          const chunk = data.subarray(offset, offset + INSTREAM_CHUNK_BYTES);
+          const size = Buffer.alloc(4);
+          size.writeUInt32BE(chunk.length);
+          socket.write(size);
+          socket.write(chunk);
+        }
+        socket.end(Buffer.alloc(4));
+      });
+
+      socket.on("close", (hadError) => {
+        if (hadError) {
+          return;
+        }
+
+        const reply = Buffer.concat(replies).toString("utf8").replace(/\0/g, "").trim();
+        const found = reply.match(/^stream: (.+) FOUND$/);
+        if (found) {
+          resolve({ infected: true, signature: found[1] });
+        } else if (reply === "stream: OK") {
+          resolve({ infected: false });
+        } else {
+          reject(new Error(`clamd replied: ${reply || "nothing"}`));
+        }
+      });
+    });
+  }
+}
+
+// Stand-in for tests and local development: flags only the EICAR test file, the way a real engine would.
+export class StandInScanner implements MalwareScanner {
+  readonly name = "stand-in";
+
+  async scan(data: Buffer): Promise<MalwareScanResult> {
+    return data.includes("EICAR-STANDARD-ANTIVIRUS-TEST-FILE")
+      ? { infected: true, signature: "Eicar-Test-Signature" }
+      : { infected: false };
+  }
+}
+
+export const createMalwareScanner = (driver: "clamd" | "stand-in" = env.malwareScanner): MalwareScanner => {
+  if (driver === "clamd") {
+    return new ClamdScanner({
+      host: env.clamdHost,
+      port: env.clamdPort,
+      socketPath: env.clamdSocket,
+      timeoutMs: env.clamdTimeoutMs,
+    });
+  }
+
+  return new StandInScanner();
+};
+
+export const malwareScanner = createMalwareScanner();
@@ -0,0 +1,140 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { env } from "../../config/env.js";
+import type { TraceSpan } from "../../types/domain.js";
+
+type OtlpAttribute = {
+  key: string;
+  value: { stringValue: string } | { boolValue: boolean } | { intValue: string };
+};
+
+// The OTLP/HTTP JSON shape (ExportTraceServiceRequest), so any OpenTelemetry collector can ingest it as-is.
+export type OtlpTracePayload = {
+  resourceSpans: Array<{
+    resource: { attributes: OtlpAttribute[] };
+    scopeSpans: Array<{
+      scope: { name: string };
+      spans: Array<{
+        traceId: string;
+        spanId: string;
+        parentSpanId?: string;
+        name: string;
+        kind: number;
+        startTimeUnixNano: string;
+        endTimeUnixNano: string;
+        attributes: OtlpAttribute[];
+        status: { code: number; message?: string };
+      }>;
+    }>;
+  }>;
+};
+
+export interface TraceExporter {
+  readonly name: string;
+  export(payload: OtlpTracePayload): Promise<void>;
+}
+
+const SPAN_KIND_INTERNAL = 1;
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+
+// Milliseconds times a million overflows a double, so the last three digits are added as a bigint.
+const unixNano = (ms: number): string => (BigInt(Math.round(ms * 1000)) * 1000n).toString();
+
+const attribute = (key: string, value: string | boolean | number | undefined): OtlpAttribute[] => {
+  if (value === undefined) {
+    return [];
+  }
+
+  if (typeof value === "boolean") {
+    return [{ key, value: { boolValue: value } }];
+  }
+
+  return typeof value === "number"
+    ? [{ key, value: { intValue: String(Math.round(value)) } }]
+    : [{ key, value: { stringValue: value } }];
+};
+
+export const toOtlpPayload = (spans: TraceSpan[], resource: { analysisId: string }): OtlpTracePayload => ({
+  resourceSpans: [
+    {
+      resource: { attributes: [...attribute("service.name", "wondertalk-api"), ...attribute("analysis.id", resource.analysisId)] },
+      scopeSpans: [
+        {
+          scope: { name: "wondertalk.pipeline" },
+          spans: spans.map((span) => {
+            const start = Date.parse(span.startedAt);
+            return {
+              traceId: span.traceId,
+              spanId: span.spanId,
+              parentSpanId: span.parentSpanId,
+              name: span.name,
+              kind: SPAN_KIND_INTERNAL,
+              startTimeUnixNano: unixNano(start),
+              endTimeUnixNano: unixNano(start + span.durationMs),
+              attributes: [
+                ...attribute("provider", span.provider),
+                ...attribute("model", span.model),
+                ...attribute("fallback", span.fallback),
+                ...attribute("cache_hit", span.cacheHit),
+              ],
+              status: span.outcome === "ok" ? { code: STATUS_OK } : { code: STATUS_ERROR, message: span.error },
+            };
+          }),
+        },
+      ],
+    },
+  ],
+});
+
+// Posts each finished trace to an OTLP/HTTP collector's JSON endpoint, usually `:4318/v1/traces`.
+export class OtlpHttpExporter implements TraceExporter {
+  readonly name = "otlp";
+
+  constructor(private readonly options: { endpoint: string; timeoutMs: number }) {}
+
+  async export(payload: OtlpTracePayload): Promise<void> {
+    const response = await fetch(this.options.endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(this.options.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`OTLP collector replied ${response.status}`);
+    }
+  }
+}
+
+// Appends one payload per line, the layout the collector's `otlpjsonfile` receiver reads back.
+export class FileTraceExporter implements TraceExporter {
+  readonly name = "file";
+
+  constructor(private readonly filePath: string) {}
+
+  async export(payload: OtlpTracePayload): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(this.filePath, `${JSON.stringify(payload)}\n`);
+  }
+}
+
+export class NoopTraceExporter implements TraceExporter {
+  readonly name = "none";
+
+  async export(): Promise<void> {}
+}
+
+export const createTraceExporter = (driver: "none" | "file" | "otlp" = env.traceExporter): TraceExporter => {
+  if (driver === "otlp") {
+    return new OtlpHttpExporter({ endpoint: env.otlpTracesEndpoint, timeoutMs: env.traceExportTimeoutMs });
+  }
+
+  if (driver === "file") {
+    return new FileTraceExporter(env.traceFilePath);
+  }
+
+  return new NoopTraceExporter();
+};
+
+export const traceExporter = createTraceExporter();
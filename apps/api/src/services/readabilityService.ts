@@ -0,0 +1,107 @@
+import { ageBandProfile, DEFAULT_AGE_BAND } from "../config/ageBands.js";
+import type { AgeBand, FactItem, ReadabilityScore } from "../types/domain.js";
+
+// Long words young children still hear every day, so they never count as rare. Some are here only because the
+// syllable count overshoots them ("something", "awesome").
+const FAMILIAR_WORDS = new Set(
+  (
+    "actually adventure already amazing animal another anybody anyone anything anywhere awesome banana beautiful bicycle " +
+    "butterfly camera chocolate computer crocodile dinosaur discover elephant energy every everybody everyone " +
+    "everything everywhere exciting family favorite favourite gorilla hamburger hospital idea imagine important " +
+    "incredible interesting kangaroo library magical medicine mystery nobody octopus officer peekaboo potato probably really " +
+    "remember science scientist somebody someone something sometimes spaghetti strawberry together tomato tomorrow " +
+    "underground understand umbrella usually vegetable video wonderful yesterday"
+  ).split(" "),
+);
+
+const WORD_PATTERN = /[A-Za-z]+(?:'[A-Za-z]+)?|\d[\d,.]*/g;
+
+// Vowel groups after dropping a silent final "e" or "-es"/"-ed"; good enough to rank text, not to hyphenate it.
+export const countSyllables = (word: string): number => {
+  if (/^\d/.test(word)) {
+    // Numbers are read aloud: "1889" is "eighteen eighty-nine".
+    return Math.max(1, word.replace(/\D/g, "").length);
+  }
+
+  const letters = word.toLowerCase().replace(/'[a-z]+$/, "").replace(/[^a-z]/g, "");
+  if (letters.length <= 3) {
+    return 1;
+  }
+
+  const groups = letters
+    .replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, "")
+    .replace(/^y/, "")
+    .match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups?.length ?? 0);
+};
+
+const nameWordsOf = (names: Array<string | undefined>): Set<string> =>
+  new Set(names.flatMap((name) => name?.toLowerCase().match(/[a-z]+/g) ?? []));
+
+export class ReadabilityService {
+  // Names are never rare words: a child who photographed the Eiffel Tower will hear "Eiffel".
+  score(text: string, ageBand: AgeBand = DEFAULT_AGE_BAND, names: Array<string | undefined> = []): ReadabilityScore {
+    const limits = ageBandProfile(ageBand).readability;
+    const nameWords = nameWordsOf(names);
+    const sentences = text
+      .split(/[.!?]+|\n+/)
+      .map((sentence) => sentence.match(WORD_PATTERN) ?? [])
+      .filter((words) => words.length > 0);
+    const words = sentences.flat();
+    if (words.length === 0) {
+      return { ageBand, grade: 0, averageSentenceWords: 0, longestSentenceWords: 0, rareWords: [], passed: true };
+    }
+
+    const syllables = words.reduce((total, word) => total + countSyllables(word), 0);
+    const grade = 0.39 * (words.length / sentences.length) + 11.8 * (syllables / words.length) - 15.59;
+    // Capitalized words after the first in a sentence are taken as proper nouns.
+    const rareWords = [
+      ...new Set(
+        sentences.flatMap((sentenceWords) =>
+          sentenceWords
+            .filter((word, index) => index === 0 || !/^[A-Z]/.test(word))
+            .map((word) => word.toLowerCase())
+            .filter(
+              (word) =>
+                /^[a-z]/.test(word) &&
+                countSyllables(word) >= limits.rareWordSyllables &&
+                !FAMILIAR_WORDS.has(word) &&
+                !FAMILIAR_WORDS.has(word.replace(/s$/, "")) &&
+                !nameWords.has(word),
+            ),
+        ),
+      ),
+    ];
+
+    const score = {
+      ageBand,
+      grade: Number(Math.max(0, grade).toFixed(1)),
+      averageSentenceWords: Number((words.length / sentences.length).toFixed(1)),
+      longestSentenceWords: Math.max(...sentences.map((sentenceWords) => sentenceWords.length)),
+      rareWords,
+    };
+    return {
+      ...score,
+      passed:
+        score.grade <= limits.maxGrade &&
+        score.longestSentenceWords <= limits.maxSentenceWords &&
+        rareWords.length / words.length <= limits.maxRareWordShare,
+    };
+  }
+
+  scoreFacts(facts: FactItem[], ageBand: AgeBand = DEFAULT_AGE_BAND, names: Array<string | undefined> = []): FactItem[] {
+    return facts.map((fact) => ({ ...fact, readability: this.score(fact.claim, ageBand, names) }));
+  }
+
+  // Added to the prompt when a draft fails, naming what to fix rather than only asking for "simpler".
+  simplificationNote(score: ReadabilityScore): string {
+    const limits = ageBandProfile(score.ageBand).readability;
+    return [
+      `Your last draft was too hard for ${ageBandProfile(score.ageBand).audience} (grade ${score.grade}).`,
+      `Rewrite it so every sentence has at most ${limits.maxSentenceWords} words and reads at grade ${limits.maxGrade} or below.`,
+      ...(score.rareWords.length > 0 ? [`Swap these words for everyday ones: ${score.rareWords.join(", ")}.`] : []),
+    ].join(" ");
+  }
+}
+
+export const readabilityService = new ReadabilityService();
@@ -1,49 +1,343 @@
+import { DEFAULT_AGE_BAND } from "../config/ageBands.js";
 import { env } from "../config/env.js";
-import { store } from "../stores/inMemoryStore.js";
-import type { CanonicalEntity, FactPack } from "../types/domain.js";
+import { store, type FactCacheEntry } from "../stores/index.js";
+import type { AgeBand, CanonicalEntity, FactItem, FactPack, FactReviewStatus, PolicyConfig } from "../types/domain.js";
+import { logger } from "../utils/logger.js";
+import { citationService } from "./citationService.js";
+import { knowledgeBaseService } from "./knowledgeBaseService.js";
 import { geminiClient } from "./providers/geminiClient.js";
+import { readabilityService } from "./readabilityService.js";
+import { tracingService } from "./tracingService.js";
 
-const cacheKeyFor = (entity: CanonicalEntity): string =>
-  `${entity.entityId}:age-7-10:en-US:strict-safety-v1`;
+const cacheKeyFor = (entity: CanonicalEntity, ageBand: AgeBand = DEFAULT_AGE_BAND): string =>
+  `${entity.entityId}:age-${ageBand}:en-US:strict-safety-v1`;
 
-const sourceAllowed = (url: string): boolean => {
+// Names a claim may use freely without them counting as rare words.
+const namesOf = (entity: CanonicalEntity): string[] => [entity.label, entity.researchSubject, entity.roleplayName];
+
+const sourceAllowed = (url: string, allowedSourceDomains: string[]): boolean => {
   try {
     const host = new URL(url).hostname.replace(/^www\./, "");
-    return store.policy.allowedSourceDomains.some((domain) => host === domain || host.endsWith(`.${domain}`));
+    return allowedSourceDomains.some((domain) => host === domain || host.endsWith(`.${domain}`));
   } catch {
     return false;
   }
 };
 
+// Down-weighted facts are judged on the confidence research gave them, not the reduced one.
+const factMeetsPolicy = (fact: FactItem, policy: PolicyConfig): boolean =>
+  (fact.verification?.originalConfidence ?? fact.confidence) >= policy.minFactConfidence &&
+  fact.sourceUrls.length > 0 &&
+  fact.sourceUrls.every((url) => sourceAllowed(url, policy.allowedSourceDomains)) &&
+  (policy.unverifiedFactAction !== "drop" || (fact.verification?.score ?? 0) >= policy.minCitationSupport);
+
+const UNVERIFIED_CONFIDENCE_FACTOR = 0.5;
+
+// Verified facts lead, since personas use facts in order. The rest are dropped or kept at reduced confidence;
+// a pack is never left empty, so with nothing verified every fact stays, down-weighted.
+const applyVerificationPolicy = (facts: FactItem[], policy: PolicyConfig): FactItem[] => {
+  const supported = (fact: FactItem) => (fact.verification?.score ?? 0) >= policy.minCitationSupport;
+  const verified = facts.filter(supported);
+  if (policy.unverifiedFactAction === "drop" && verified.length > 0) {
+    return verified;
+  }
+
+  const downweighted = facts
+    .filter((fact) => !supported(fact))
+    .map((fact) => ({
+      ...fact,
+      confidence: Number((fact.confidence * UNVERIFIED_CONFIDENCE_FACTOR).toFixed(3)),
+      verification: fact.verification && { ...fact.verification, originalConfidence: fact.confidence },
+    }));
+  return [...verified, ...downweighted];
+};
+
+// Status changes a reviewer may make from each status. Editing a pack sends it back to `in_review` from any of them.
+export const REVIEW_TRANSITIONS: Record<FactReviewStatus, FactReviewStatus[]> = {
+  draft: ["in_review", "approved", "rejected"],
+  in_review: ["approved", "rejected"],
+  approved: ["rejected"],
+  rejected: ["in_review", "approved"],
+};
+
+export const reviewStatusOf = (pack: FactPack): FactReviewStatus => pack.review?.status ?? "draft";
+
+// Approved packs and those a reviewer is working on are held; neither expiry nor a refresh replaces them.
+const isHeld = (entry: FactCacheEntry): boolean =>
+  Boolean(entry.pinned) || reviewStatusOf(entry.value as FactPack) === "in_review";
+
+// Facts a reviewer adds or rewrites carry their judgement rather than the model's.
+const REVIEWED_CONFIDENCE = 0.9;
+
+const sameSources = (a: string[], b: string[]): boolean => a.length === b.length && a.every((url) => b.includes(url));
+
+export type FactPackEdit = {
+  summary?: string;
+  facts?: Array<{ claim: string; sourceUrls: string[]; confidence?: number }>;
+};
+
+export type FactCacheSummary = {
+  key: string;
+  entityId: string;
+  label: string;
+  category: CanonicalEntity["category"];
+  factCount: number;
+  generatedAt: string;
+  expiresAt: string;
+  ageMinutes: number;
+  expired: boolean;
+  ageBand: AgeBand;
+  // Facts whose claim reads above the pack's age band.
+  unreadableFacts: number;
+  reviewStatus: FactReviewStatus;
+  pinned: boolean;
+};
+
+// One entry per requested label; a label that could not be resolved or researched reports why instead.
+export type FactCacheWarmResult =
+  | { label: string; key: string; entityId: string; factCount: number; alreadyCached: boolean }
+  | { label: string; error: string };
+
 export class ResearchService {
-  async getFactPack(entity: CanonicalEntity): Promise<FactPack> {
-    const key = cacheKeyFor(entity);
+  // Editor-reviewed entries win over research, and are read before the cache so an edit applies to the next analysis.
+  // Model research comes next; the category templates only cover subjects neither source has.
+  async getFactPack(
+    entity: CanonicalEntity,
+    options: { refresh?: boolean; ageBand?: AgeBand; signal?: AbortSignal } = {},
+  ): Promise<FactPack> {
+    const curated = knowledgeBaseService.match(entity);
+    if (curated) {
+      tracingService.annotate({ provider: "knowledge_base" });
+      const pack = knowledgeBaseService.toFactPack(curated, entity);
+      // Curated packs serve every band, so their claims are scored against the one asking.
+      return { ...pack, facts: readabilityService.scoreFacts(pack.facts, options.ageBand, namesOf(entity)) };
+    }
+
+    const ageBand = options.ageBand ?? DEFAULT_AGE_BAND;
+    const key = cacheKeyFor(entity, ageBand);
     const cached = store.factCache.get(key);
-    if (cached && Date.parse(cached.expiresAt) > Date.now()) {
-      return cached.value as FactPack;
+    if (cached && (isHeld(cached) || (!options.refresh && Date.parse(cached.expiresAt) > Date.now()))) {
+      tracingService.annotate({ cacheHit: true });
+      return this.servable(cached.value as FactPack);
     }
 
-    const research = await geminiClient.deepResearch(entity, store.policy.allowedSourceDomains);
+    const policy = store.getPolicy();
+    const generated = await geminiClient.deepResearch(entity, policy.allowedSourceDomains, ageBand, options.signal);
+    const research = generated ?? geminiClient.fallbackResearch(entity);
     const filteredFacts = research.facts
       .map((fact) => ({
         ...fact,
-        sourceUrls: fact.sourceUrls.filter(sourceAllowed),
+        sourceUrls: fact.sourceUrls.filter((url) => sourceAllowed(url, policy.allowedSourceDomains)),
       }))
-      .filter((fact) => fact.confidence >= store.policy.minFactConfidence && fact.sourceUrls.length > 0);
+      .filter((fact) => fact.confidence >= policy.minFactConfidence && fact.sourceUrls.length > 0);
+
+    const checked = await citationService.verifyFacts(filteredFacts.length > 0 ? filteredFacts : research.facts, {
+      minSupport: policy.minCitationSupport,
+      fetchable: (url) => sourceAllowed(url, policy.allowedSourceDomains),
+      signal: options.signal,
+    });
 
     const factPack: FactPack = {
       entity,
       summary: research.summary,
-      facts: filteredFacts.length > 0 ? filteredFacts : research.facts,
+      facts: readabilityService.scoreFacts(applyVerificationPolicy(checked, policy), ageBand, namesOf(entity)),
       generatedAt: new Date().toISOString(),
+      source: generated ? "model" : "template",
+      ageBand,
+    };
+    factPack.review = { status: "draft", updatedAt: factPack.generatedAt };
+
+    // A reviewer may have approved or edited this pack while research ran; their version is kept and served.
+    const stored = store.factCache.update(key, (latest) =>
+      latest && isHeld(latest)
+        ? undefined
+        : { value: factPack, expiresAt: new Date(Date.now() + env.factCacheTtlMinutes * 60 * 1000).toISOString() },
+    );
+
+    return this.servable((stored?.value as FactPack | undefined) ?? factPack);
+  }
+
+  // Approved packs go out as they are. Rejected packs never reach children; other unapproved ones go out marked
+  // provisional, or are swapped for the category templates when policy forbids serving them.
+  private servable(pack: FactPack): FactPack {
+    const status = reviewStatusOf(pack);
+    if (status === "approved") {
+      return pack;
+    }
+
+    if (status !== "rejected" && store.getPolicy().serveUnapprovedFacts) {
+      return { ...pack, provisional: true };
+    }
+
+    return {
+      entity: pack.entity,
+      ...geminiClient.fallbackResearch(pack.entity),
+      generatedAt: new Date().toISOString(),
+      source: "template",
+    };
+  }
+
+  listCachedPacks(filter: { reviewStatus?: FactReviewStatus } = {}): FactCacheSummary[] {
+    const now = Date.now();
+
+    const summaries = store.factCache.entries().map(([key, entry]): FactCacheSummary => {
+      const pack = entry.value as FactPack;
+      return {
+        key,
+        entityId: pack.entity.entityId,
+        label: pack.entity.label,
+        category: pack.entity.category,
+        factCount: pack.facts.length,
+        generatedAt: pack.generatedAt,
+        expiresAt: entry.expiresAt,
+        ageMinutes: Math.round((now - Date.parse(pack.generatedAt)) / 60_000),
+        expired: !entry.pinned && Date.parse(entry.expiresAt) <= now,
+        ageBand: pack.ageBand ?? DEFAULT_AGE_BAND,
+        unreadableFacts: pack.facts.filter((fact) => fact.readability?.passed === false).length,
+        reviewStatus: reviewStatusOf(pack),
+        pinned: Boolean(entry.pinned),
+      };
+    });
+
+    return filter.reviewStatus ? summaries.filter((item) => item.reviewStatus === filter.reviewStatus) : summaries;
+  }
+
+  getCachedPack(key: string): { pack: FactPack; expiresAt: string; pinned: boolean } | null {
+    const entry = store.factCache.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    return { pack: entry.value as FactPack, expiresAt: entry.expiresAt, pinned: Boolean(entry.pinned) };
+  }
+
+  // Callers check REVIEW_TRANSITIONS first. Approving pins the pack; any other status unpins it.
+  setReviewStatus(
+    key: string,
+    input: { status: FactReviewStatus; reviewer: string; note?: string },
+  ): { pack: FactPack; expiresAt: string; pinned: boolean } | null {
+    const entry = store.factCache.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    const pack = entry.value as FactPack;
+    const updated: FactPack = {
+      ...pack,
+      review: {
+        ...pack.review,
+        status: input.status,
+        updatedAt: new Date().toISOString(),
+        reviewedBy: input.reviewer,
+        note: input.note ?? pack.review?.note,
+      },
     };
 
-    store.factCache.set(key, {
-      value: factPack,
-      expiresAt: new Date(Date.now() + env.factCacheTtlMinutes * 60 * 1000).toISOString(),
+    store.factCache.set(key, { value: updated, expiresAt: entry.expiresAt, pinned: input.status === "approved" });
+    return this.getCachedPack(key);
+  }
+
+  // Replaces the summary and/or the fact list. Facts whose claim and sources are unchanged keep their citation check;
+  // rewritten ones drop it, since the reviewer now vouches for them. The pack goes back to review.
+  editPack(key: string, edit: FactPackEdit, reviewer: string): { pack: FactPack; expiresAt: string; pinned: boolean } | null {
+    const entry = store.factCache.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    const pack = entry.value as FactPack;
+    const now = new Date().toISOString();
+    const facts = edit.facts?.map((fact): FactItem => {
+      const original = pack.facts.find((item) => item.claim === fact.claim);
+      if (original && sameSources(original.sourceUrls, fact.sourceUrls) && fact.confidence === undefined) {
+        return original;
+      }
+
+      return {
+        claim: fact.claim,
+        confidence: fact.confidence ?? original?.confidence ?? REVIEWED_CONFIDENCE,
+        sourceUrls: fact.sourceUrls,
+        freshnessDate: now.slice(0, 10),
+        readability: readabilityService.score(fact.claim, pack.ageBand, namesOf(pack.entity)),
+      };
     });
 
-    return factPack;
+    const updated: FactPack = {
+      ...pack,
+      summary: edit.summary ?? pack.summary,
+      facts: facts ?? pack.facts,
+      review: { ...pack.review, status: "in_review", updatedAt: now, reviewedBy: reviewer, edited: true },
+    };
+
+    store.factCache.set(key, { value: updated, expiresAt: entry.expiresAt, pinned: false });
+    return this.getCachedPack(key);
+  }
+
+  invalidate(key: string): boolean {
+    return store.factCache.delete(key);
+  }
+
+  invalidateAll(): number {
+    const keys = store.factCache.entries().map(([key]) => key);
+    for (const key of keys) {
+      store.factCache.delete(key);
+    }
+
+    return keys.length;
+  }
+
+  // Drops packs holding any fact the given policy would no longer accept. A reviewer's work is never thrown away:
+  // approved packs go back to review instead, and packs already in review are left to the reviewer.
+  invalidateStale(policy: PolicyConfig = store.getPolicy()): { invalidated: string[]; returnedToReview: string[] } {
+    const stale = store.factCache
+      .entries()
+      .filter(([, entry]) => (entry.value as FactPack).facts.some((fact) => !factMeetsPolicy(fact, policy)));
+    const invalidated: string[] = [];
+    const returnedToReview: string[] = [];
+
+    for (const [key, entry] of stale) {
+      const status = reviewStatusOf(entry.value as FactPack);
+      if (status === "approved") {
+        this.setReviewStatus(key, { status: "in_review", reviewer: "policy", note: "No longer meets the content policy." });
+        returnedToReview.push(key);
+      } else if (status !== "in_review") {
+        store.factCache.delete(key);
+        invalidated.push(key);
+      }
+    }
+
+    return { invalidated, returnedToReview };
+  }
+
+  async warm(
+    labels: string[],
+    options: { refresh?: boolean; ageBand?: AgeBand } = {},
+  ): Promise<FactCacheWarmResult[]> {
+    const results: FactCacheWarmResult[] = [];
+
+    // A failing label must not cost the ones after it their warm-up.
+    for (const label of labels) {
+      try {
+        const entity = await geminiClient.entityFromLabel(label);
+        const key = cacheKeyFor(entity, options.ageBand);
+        const cached = store.factCache.get(key);
+        const alreadyCached = Boolean(cached && (isHeld(cached) || Date.parse(cached.expiresAt) > Date.now()));
+        const pack = await this.getFactPack(entity, options);
+
+        results.push({
+          label,
+          key,
+          entityId: entity.entityId,
+          factCount: pack.facts.length,
+          alreadyCached,
+        });
+      } catch (error) {
+        logger.warn("Fact cache warm-up failed", { label, error: String(error) });
+        results.push({ label, error: String(error) });
+      }
+    }
+
+    return results;
   }
 }
 
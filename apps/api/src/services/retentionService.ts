@@ -0,0 +1,315 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { env } from "../config/env.js";
+import { store } from "../stores/index.js";
+import { logger } from "../utils/logger.js";
+import { audioCacheService } from "./audioCacheService.js";
+import { focusPathFor, normalizedPathFor } from "./ingestionService.js";
+import { uploadService } from "./uploadService.js";
+import { voiceService } from "./voiceService.js";
+
+export type RetentionConfig = {
+  uploadDir: string;
+  audioDir: string;
+  audioCacheDir: string;
+  sweepIntervalMinutes: number;
+  uploadMinutes: number;
+  audioMinutes: number;
+  analysisMinutes: number;
+  expiredSessionMinutes: number;
+};
+
+export type RetentionReport = {
+  startedAt: string;
+  finishedAt: string;
+  uploads: number;
+  expiredUploadTargets: number;
+  normalizedImages: number;
+  audio: number;
+  analyses: number;
+  imageFingerprints: number;
+  sessions: number;
+  parentSessions: number;
+  adminSessions: number;
+  orphanFiles: number;
+  bytesFreed: number;
+};
+
+type DirectoryUsage = {
+  path: string;
+  files: number;
+  bytes: number;
+};
+
+const MINUTE_MS = 60_000;
+
+const configFromEnv = (): RetentionConfig => ({
+  uploadDir: uploadService.uploadDir,
+  audioDir: voiceService.audioDir,
+  audioCacheDir: audioCacheService.cacheDir,
+  sweepIntervalMinutes: env.retentionSweepIntervalMinutes,
+  uploadMinutes: env.retentionUploadMinutes,
+  audioMinutes: env.retentionAudioMinutes,
+  analysisMinutes: env.retentionAnalysisMinutes,
+  expiredSessionMinutes: env.retentionExpiredSessionMinutes,
+});
+
+const removeFile = async (filePath: string): Promise<number | null> => {
+  try {
+    const stat = await fs.stat(filePath);
+    await fs.rm(filePath, { force: true });
+    return stat.size;
+  } catch {
+    return null;
+  }
+};
+
+const listFiles = async (dir: string): Promise<Array<{ filePath: string; size: number; modifiedAt: number }>> => {
+  let names: string[];
+  try {
+    names = await fs.readdir(dir);
+  } catch {
+    return [];
+  }
+
+  const files: Array<{ filePath: string; size: number; modifiedAt: number }> = [];
+  for (const name of names) {
+    if (name.startsWith(".")) {
+      continue;
+    }
+
+    const filePath = path.resolve(dir, name);
+    const stat = await fs.stat(filePath).catch(() => null);
+    if (stat?.isFile()) {
+      files.push({ filePath, size: stat.size, modifiedAt: stat.mtimeMs });
+    }
+  }
+
+  return files;
+};
+
+export class RetentionService {
+  private timer: NodeJS.Timeout | null = null;
+  private inFlight: Promise<RetentionReport> | null = null;
+
+  constructor(private readonly config: RetentionConfig = configFromEnv()) {}
+
+  start(): void {
+    if (this.timer || this.config.sweepIntervalMinutes <= 0) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      void this.purge().catch((error) => {
+        logger.error("Retention purge failed", { error: String(error) });
+      });
+    }, this.config.sweepIntervalMinutes * MINUTE_MS);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Concurrent callers (scheduler and admin endpoint) share the same sweep.
+  purge(now = Date.now()): Promise<RetentionReport> {
+    if (!this.inFlight) {
+      this.inFlight = this.runPurge(now).finally(() => {
+        this.inFlight = null;
+      });
+    }
+
+    return this.inFlight;
+  }
+
+  async getUsage(): Promise<{
+    uploads: DirectoryUsage;
+    audio: DirectoryUsage;
+    audioCache: DirectoryUsage;
+    totalBytes: number;
+    records: Record<"sessions" | "uploads" | "analyses" | "voiceAssets", number>;
+    ttlMinutes: Record<"uploads" | "audio" | "analyses" | "expiredSessions", number>;
+  }> {
+    const usageFor = async (dir: string): Promise<DirectoryUsage> => {
+      const files = await listFiles(dir);
+      return {
+        path: dir,
+        files: files.length,
+        bytes: files.reduce((sum, file) => sum + file.size, 0),
+      };
+    };
+
+    const uploads = await usageFor(this.config.uploadDir);
+    const audio = await usageFor(this.config.audioDir);
+    const audioCache = await usageFor(this.config.audioCacheDir);
+
+    return {
+      uploads,
+      audio,
+      audioCache,
+      totalBytes: uploads.bytes + audio.bytes + audioCache.bytes,
+      records: {
+        sessions: store.sessions.values().length,
+        uploads: store.uploads.values().length,
+        analyses: store.analyses.values().length,
+        voiceAssets: store.voiceAssets.values().length,
+      },
+      ttlMinutes: {
+        uploads: this.config.uploadMinutes,
+        audio: this.config.audioMinutes,
+        analyses: this.config.analysisMinutes,
+        expiredSessions: this.config.expiredSessionMinutes,
+      },
+    };
+  }
+
+  private async runPurge(now: number): Promise<RetentionReport> {
+    const report: RetentionReport = {
+      startedAt: new Date(now).toISOString(),
+      finishedAt: "",
+      uploads: 0,
+      expiredUploadTargets: 0,
+      normalizedImages: 0,
+      audio: 0,
+      analyses: 0,
+      imageFingerprints: 0,
+      sessions: 0,
+      parentSessions: 0,
+      adminSessions: 0,
+      orphanFiles: 0,
+      bytesFreed: 0,
+    };
+
+    const uploadCutoff = now - this.config.uploadMinutes * MINUTE_MS;
+    const audioCutoff = now - this.config.audioMinutes * MINUTE_MS;
+    const analysisCutoff = now - this.config.analysisMinutes * MINUTE_MS;
+    const sessionCutoff = now - this.config.expiredSessionMinutes * MINUTE_MS;
+
+    for (const upload of store.uploads.values()) {
+      if (!upload.consumed) {
+        if (Date.parse(upload.expiresAt) < now) {
+          store.uploads.delete(upload.uploadId);
+          report.expiredUploadTargets += 1;
+        }
+        continue;
+      }
+
+      if (Date.parse(upload.createdAt) >= uploadCutoff) {
+        continue;
+      }
+
+      if (upload.filePath) {
+        report.bytesFreed += (await removeFile(upload.filePath)) ?? 0;
+
+        for (const derivedPath of [normalizedPathFor(upload.filePath), focusPathFor(upload.filePath)]) {
+          const derivedBytes = await removeFile(derivedPath);
+          if (derivedBytes !== null) {
+            report.normalizedImages += 1;
+            report.bytesFreed += derivedBytes;
+          }
+        }
+      }
+
+      if (upload.quarantinedPath) {
+        report.bytesFreed += (await removeFile(upload.quarantinedPath)) ?? 0;
+      }
+
+      store.uploads.delete(upload.uploadId);
+      report.uploads += 1;
+    }
+
+    for (const asset of store.voiceAssets.values()) {
+      if (Date.parse(asset.createdAt) >= audioCutoff) {
+        continue;
+      }
+
+      // Cached audio is shared across sessions; its files follow the cache's own LRU budget.
+      if (!asset.cacheKey) {
+        report.bytesFreed += (await removeFile(asset.filePath)) ?? 0;
+      }
+      store.voiceAssets.delete(asset.audioId);
+      report.audio += 1;
+    }
+
+    for (const analysis of store.analyses.values()) {
+      const settled =
+        analysis.status === "ready" ||
+        analysis.status === "needs_confirmation" ||
+        analysis.status === "failed" ||
+        analysis.status === "cancelled";
+      if (settled && Date.parse(analysis.updatedAt) < analysisCutoff) {
+        store.analyses.delete(analysis.analysisId);
+        report.analyses += 1;
+      }
+    }
+
+    // Fingerprints stay while they keep matching new photos.
+    for (const fingerprint of store.imageFingerprints.values()) {
+      if (Date.parse(fingerprint.lastMatchedAt) < analysisCutoff) {
+        store.imageFingerprints.delete(fingerprint.analysisId);
+        report.imageFingerprints += 1;
+      }
+    }
+
+    for (const session of store.sessions.values()) {
+      if (Date.parse(session.expiresAt) < sessionCutoff) {
+        store.sessions.delete(session.sessionId);
+        report.sessions += 1;
+      }
+    }
+
+    for (const parentSession of store.parentSessions.values()) {
+      if (Date.parse(parentSession.expiresAt) < now) {
+        store.parentSessions.delete(parentSession.tokenHash);
+        report.parentSessions += 1;
+      }
+    }
+
+    for (const adminSession of store.adminSessions.values()) {
+      if (Date.parse(adminSession.expiresAt) < now) {
+        store.adminSessions.delete(adminSession.tokenHash);
+        report.adminSessions += 1;
+      }
+    }
+
+    // Files left behind by crashes or records that no longer exist.
+    const referenced = new Set<string>();
+    for (const upload of store.uploads.values()) {
+      if (upload.filePath) {
+        referenced.add(upload.filePath);
+        referenced.add(normalizedPathFor(upload.filePath));
+        referenced.add(focusPathFor(upload.filePath));
+      }
+    }
+    for (const asset of store.voiceAssets.values()) {
+      referenced.add(asset.filePath);
+    }
+
+    const orphanSweeps: Array<[string, number]> = [
+      [this.config.uploadDir, uploadCutoff],
+      [this.config.audioDir, audioCutoff],
+    ];
+    for (const [dir, cutoff] of orphanSweeps) {
+      for (const file of await listFiles(dir)) {
+        if (referenced.has(file.filePath) || file.modifiedAt >= cutoff) {
+          continue;
+        }
+
+        const bytes = await removeFile(file.filePath);
+        if (bytes !== null) {
+          report.orphanFiles += 1;
+          report.bytesFreed += bytes;
+        }
+      }
+    }
+
+    report.finishedAt = new Date().toISOString();
+    logger.info("Retention purge complete", report);
+    return report;
+  }
+}
+
+export const retentionService = new RetentionService();
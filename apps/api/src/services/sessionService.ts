@@ -1,12 +1,15 @@
 import { randomUUID } from "node:crypto";
+import { DEFAULT_AGE_BAND } from "../config/ageBands.js";
 import { env } from "../config/env.js";
-import { store } from "../stores/inMemoryStore.js";
-import type { SessionInfo } from "../types/domain.js";
+import { store } from "../stores/index.js";
+import type { AgeBand, SessionInfo } from "../types/domain.js";
 
 export class SessionService {
   createSession(input: {
     locale?: string;
     userAgent?: string;
+    childId?: string;
+    ageBand?: AgeBand;
     deviceCapabilities?: {
       speechRecognition: boolean;
       mediaRecorder: boolean;
@@ -20,6 +23,8 @@ export class SessionService {
     const session: SessionInfo = {
       sessionId,
       token,
+      childId: input.childId,
+      ageBand: input.ageBand ?? DEFAULT_AGE_BAND,
       createdAt: createdAt.toISOString(),
       expiresAt: expiresAt.toISOString(),
       locale: input.locale ?? "en-US",
@@ -0,0 +1,113 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomBytes } from "node:crypto";
+import { performance } from "node:perf_hooks";
+import { store } from "../stores/index.js";
+import type { StageLatency, TraceSpan } from "../types/domain.js";
+import { logger } from "../utils/logger.js";
+import { toOtlpPayload, traceExporter, type TraceExporter } from "./providers/traceExporter.js";
+
+export type SpanAttributes = Partial<Pick<TraceSpan, "provider" | "model" | "fallback" | "cacheHit" | "error">>;
+
+type TraceContext = {
+  analysisId: string;
+  traceId: string;
+  spans: TraceSpan[];
+  active?: TraceSpan;
+};
+
+// Nearest-rank percentile over an ascending list.
+const percentile = (sorted: number[], fraction: number): number =>
+  sorted[Math.max(0, Math.ceil(fraction * sorted.length) - 1)] ?? 0;
+
+export class TracingService {
+  // Carries the current trace through awaits, so provider clients can open spans without threading an argument.
+  private readonly context = new AsyncLocalStorage<TraceContext>();
+
+  constructor(private readonly exporter: TraceExporter = traceExporter) {}
+
+  // Starts a fresh trace for one pipeline run; spans are stored on the analysis as they finish and exported at the end.
+  async trace<T>(analysisId: string, run: () => Promise<T>): Promise<T> {
+    const trace: TraceContext = { analysisId, traceId: randomBytes(16).toString("hex"), spans: [] };
+    store.analyses.update(analysisId, (analysis) => analysis && { ...analysis, traceId: trace.traceId, spans: [] });
+
+    try {
+      return await this.context.run(trace, run);
+    } finally {
+      if (trace.spans.length > 0) {
+        this.exporter.export(toOtlpPayload(trace.spans, { analysisId })).catch((error: unknown) => {
+          logger.warn("Trace export failed", { exporter: this.exporter.name, error: String(error) });
+        });
+      }
+    }
+  }
+
+  // Outside a trace (chat turns, admin warmups) the work just runs untimed.
+  async span<T>(name: string, attributes: SpanAttributes, run: () => Promise<T>): Promise<T> {
+    const parent = this.context.getStore();
+    if (!parent) {
+      return run();
+    }
+
+    const span: TraceSpan = {
+      traceId: parent.traceId,
+      spanId: randomBytes(8).toString("hex"),
+      parentSpanId: parent.active?.spanId,
+      name,
+      outcome: "ok",
+      fallback: false,
+      ...attributes,
+      startedAt: new Date().toISOString(),
+      durationMs: 0,
+    };
+    const started = performance.now();
+
+    try {
+      return await this.context.run({ ...parent, active: span }, run);
+    } catch (error) {
+      span.outcome = "error";
+      span.error = String(error);
+      throw error;
+    } finally {
+      span.durationMs = Number((performance.now() - started).toFixed(2));
+      this.finish(parent, span);
+    }
+  }
+
+  // Lets a provider record what it actually ended up doing, e.g. that it fell back, on the span it runs in.
+  annotate(attributes: SpanAttributes): void {
+    const active = this.context.getStore()?.active;
+    if (active) {
+      Object.assign(active, attributes);
+    }
+  }
+
+  // Latency percentiles per span name across every stored analysis.
+  latencyByStage(): Record<string, StageLatency> {
+    const durations = new Map<string, number[]>();
+    for (const analysis of store.analyses.values()) {
+      for (const span of analysis.spans ?? []) {
+        durations.set(span.name, [...(durations.get(span.name) ?? []), span.durationMs]);
+      }
+    }
+
+    return Object.fromEntries(
+      [...durations.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([name, values]) => {
+          const sorted = values.sort((a, b) => a - b);
+          return [name, { count: sorted.length, p50Ms: percentile(sorted, 0.5), p95Ms: percentile(sorted, 0.95) }];
+        }),
+    );
+  }
+
+  private finish(trace: TraceContext, span: TraceSpan): void {
+    trace.spans.push(span);
+
+    // A retarget starts a new trace; spans from an abandoned run that finish late are dropped.
+    store.analyses.update(trace.analysisId, (analysis) =>
+      analysis?.traceId === trace.traceId ? { ...analysis, spans: [...(analysis.spans ?? []), span] } : undefined,
+    );
+  }
+}
+
+export const tracingService = new TracingService();
@@ -2,14 +2,18 @@ import { randomUUID } from "node:crypto";
 import fs from "node:fs/promises";
 import path from "node:path";
 import { env } from "../config/env.js";
-import { store } from "../stores/inMemoryStore.js";
-import type { UploadTarget } from "../types/domain.js";
+import { store } from "../stores/index.js";
+import type { UploadScanFinding, UploadTarget } from "../types/domain.js";
+import { signResourceUrl } from "../utils/signedUrls.js";
+import { IMAGE_EXTENSIONS } from "./ingestionService.js";
 
 export class UploadService {
-  private readonly uploadDir = path.resolve(env.dataDir, "uploads");
+  readonly uploadDir = path.resolve(env.dataDir, "uploads");
+  readonly quarantineDir = path.resolve(env.dataDir, "quarantine");
 
   async ensureDirs(): Promise<void> {
     await fs.mkdir(this.uploadDir, { recursive: true });
+    await fs.mkdir(this.quarantineDir, { recursive: true });
   }
 
   async createUploadTarget(sessionId: string): Promise<{
@@ -21,16 +25,13 @@ export class UploadService {
     await this.ensureDirs();
 
     const uploadId = randomUUID();
-    const token = randomUUID();
-    const createdAt = new Date();
-    const expiresAt = new Date(createdAt.getTime() + env.uploadTtlMinutes * 60 * 1000).toISOString();
+    const upload = signResourceUrl("upload", uploadId, sessionId, env.uploadTtlMinutes);
 
     const target: UploadTarget = {
       uploadId,
-      token,
       sessionId,
-      createdAt: createdAt.toISOString(),
-      expiresAt,
+      createdAt: new Date().toISOString(),
+      expiresAt: upload.expiresAt,
       consumed: false,
     };
 
@@ -38,9 +39,9 @@ export class UploadService {
 
     return {
       uploadId,
-      uploadUrl: `${env.apiBaseUrl}/v1/upload/${uploadId}?token=${token}`,
-      imageUrl: `${env.apiBaseUrl}/v1/media/${uploadId}`,
-      expiresAt,
+      uploadUrl: upload.url,
+      imageUrl: this.signedImageUrl(uploadId, sessionId),
+      expiresAt: upload.expiresAt,
     };
   }
 
@@ -48,26 +49,26 @@ export class UploadService {
     return store.uploads.get(uploadId) ?? null;
   }
 
-  async acceptUpload(uploadId: string, token: string, body: Buffer, mimeType: string): Promise<UploadTarget> {
+  signedImageUrl(uploadId: string, sessionId: string): string {
+    return signResourceUrl("media", uploadId, sessionId).url;
+  }
+
+  // The caller has already verified the upload URL signature, which also covers expiry.
+  async acceptUpload(uploadId: string, sessionId: string, body: Buffer, mimeType: string): Promise<UploadTarget> {
     const target = store.uploads.get(uploadId);
     if (!target) {
       throw new Error("Unknown upload target");
     }
 
-    if (target.token !== token) {
-      throw new Error("Invalid upload token");
-    }
-
-    if (Date.parse(target.expiresAt) < Date.now()) {
-      throw new Error("Upload target expired");
+    if (target.sessionId !== sessionId) {
+      throw new Error("Upload target belongs to another session");
     }
 
     if (target.consumed) {
       throw new Error("Upload already consumed");
     }
 
-    const extension = mimeType.includes("png") ? "png" : mimeType.includes("webp") ? "webp" : "jpg";
-    const filePath = path.resolve(this.uploadDir, `${uploadId}.${extension}`);
+    const filePath = path.resolve(this.uploadDir, `${uploadId}.${IMAGE_EXTENSIONS[mimeType] ?? "jpg"}`);
     await fs.writeFile(filePath, body);
 
     const updated: UploadTarget = {
@@ -75,13 +76,58 @@ export class UploadService {
       consumed: true,
       filePath,
       mimeType,
-      imageUrl: `${env.apiBaseUrl}/v1/media/${uploadId}`,
+      imageUrl: this.signedImageUrl(uploadId, sessionId),
     };
 
     store.uploads.set(uploadId, updated);
     return updated;
   }
 
+  // Moves the file out of the served upload directory, renamed so nothing treats it as an image again.
+  async quarantine(uploadId: string, finding: UploadScanFinding): Promise<void> {
+    const target = store.uploads.get(uploadId);
+    if (!target?.filePath) {
+      return;
+    }
+
+    await this.ensureDirs();
+    const quarantinedPath = path.resolve(this.quarantineDir, `${uploadId}.quarantined`);
+    await fs.copyFile(target.filePath, quarantinedPath);
+    await fs.rm(target.filePath, { force: true });
+
+    store.uploads.set(uploadId, {
+      ...target,
+      filePath: undefined,
+      quarantinedPath,
+      quarantineReason: finding.threat,
+    });
+    store.incidents.append({
+      incidentId: randomUUID(),
+      sessionId: target.sessionId,
+      reason: `upload_${finding.threat}`,
+      payload: `${uploadId}: ${finding.detail}`,
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  // Swaps the original for the blurred normalized JPEG. The original may be in a format sharp cannot write back, such
+  // as HEVC-coded HEIC, and either way it must not keep the unblurred faces.
+  async replaceWithRedacted(uploadId: string, redactedPath: string): Promise<void> {
+    const target = store.uploads.get(uploadId);
+    if (!target?.filePath) {
+      return;
+    }
+
+    // Same stem, so the derived normalized and focus paths still line up with it.
+    const filePath = path.join(path.dirname(target.filePath), `${path.parse(target.filePath).name}.jpg`);
+    await fs.copyFile(redactedPath, filePath);
+    if (filePath !== target.filePath) {
+      await fs.rm(target.filePath, { force: true });
+    }
+
+    store.uploads.set(uploadId, { ...target, filePath, mimeType: "image/jpeg" });
+  }
+
   resolveImage(uploadId: string): UploadTarget | null {
     const target = store.uploads.get(uploadId);
     if (!target || !target.filePath) {
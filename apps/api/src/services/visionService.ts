@@ -1,31 +1,73 @@
-import type { CanonicalEntity } from "../types/domain.js";
-import { geminiClient } from "./providers/geminiClient.js";
+import type { CanonicalEntity, EntityCandidate } from "../types/domain.js";
+import { DEPICTION_PATTERN, geminiClient } from "./providers/geminiClient.js";
 import { moderationService } from "./moderationService.js";
 
+const MAX_CANDIDATES = 4;
+
+const mysteryEntity = (label: string): CanonicalEntity => ({
+  entityId: "entity-mystery-object",
+  label,
+  detectedLabel: label,
+  category: "other",
+  confidence: 0.2,
+  researchSubject: label,
+  roleplayName: label,
+  roleplayMode: "as_object",
+});
+
+const toCandidate = (entity: CanonicalEntity): EntityCandidate => ({
+  entityId: entity.entityId,
+  label: entity.label,
+  confidence: entity.confidence,
+});
+
+// Statues, busts and portraits are artworks, so their faces are not anyone's personal data.
+export const isDepictedArtwork = (entity: CanonicalEntity): boolean =>
+  entity.category === "statue" || DEPICTION_PATTERN.test(entity.detectedLabel ?? entity.label);
+
 export class VisionService {
   async detectEntity(input: {
     sessionId: string;
     imagePath: string;
     mimeType: string;
-  }): Promise<CanonicalEntity> {
-    const entity = await geminiClient.detectEntityFromImage(input.imagePath, input.mimeType);
-    const imageModeration = moderationService.moderateImageLabel(input.sessionId, entity.label);
-
-    if (imageModeration.verdict === "block") {
-      const mystery = imageModeration.transformedText ?? "mystery object";
-      return {
-        entityId: "entity-mystery-object",
-        label: mystery,
-        detectedLabel: mystery,
-        category: "other",
-        confidence: 0.2,
-        researchSubject: mystery,
-        roleplayName: mystery,
-        roleplayMode: "as_object",
-      };
-    }
-
-    return entity;
+    contextImagePath?: string;
+    signal?: AbortSignal;
+  }): Promise<{ entity: CanonicalEntity; candidates: EntityCandidate[] }> {
+    const detected = await geminiClient.detectEntityFromImage(
+      input.imagePath,
+      input.mimeType,
+      input.contextImagePath,
+      input.signal,
+    );
+    const imageModeration = moderationService.moderateImageLabel(input.sessionId, detected.entity.label);
+    const entity =
+      imageModeration.verdict === "block"
+        ? mysteryEntity(imageModeration.transformedText ?? "mystery object")
+        : detected.entity;
+
+    // The chosen entity leads; the rest are ranked by confidence and blocked labels never reach the child.
+    const alternatives = detected.alternatives
+      .filter((candidate) => moderationService.moderateImageLabel(input.sessionId, candidate.label).verdict !== "block")
+      .sort((a, b) => b.confidence - a.confidence);
+
+    const seen = new Set<string>();
+    const candidates = [toCandidate(entity), ...alternatives]
+      .filter((candidate) => {
+        if (seen.has(candidate.entityId)) {
+          return false;
+        }
+
+        seen.add(candidate.entityId);
+        return true;
+      })
+      .slice(0, MAX_CANDIDATES);
+
+    return { entity, candidates };
+  }
+
+  async entityForCandidate(candidate: EntityCandidate, signal?: AbortSignal): Promise<CanonicalEntity> {
+    const entity = await geminiClient.entityFromLabel(candidate.label, signal);
+    return { ...entity, confidence: candidate.confidence };
   }
 }
 
@@ -1,11 +1,15 @@
 import { randomUUID } from "node:crypto";
 import fs from "node:fs/promises";
 import path from "node:path";
+import { DEFAULT_AGE_BAND } from "../config/ageBands.js";
 import { env } from "../config/env.js";
-import { store } from "../stores/inMemoryStore.js";
-import type { PersonaArchetype } from "../types/domain.js";
+import { store } from "../stores/index.js";
+import type { AgeBand, PersonaArchetype, VoiceProviderName } from "../types/domain.js";
+import { signResourceUrl } from "../utils/signedUrls.js";
+import { audioCacheService } from "./audioCacheService.js";
 import { elevenLabsClient } from "./providers/elevenLabsClient.js";
 import { geminiTtsClient } from "./providers/geminiTtsClient.js";
+import { tracingService } from "./tracingService.js";
 
 const nonEmpty = (value: string | undefined): string | undefined => {
   const trimmed = value?.trim();
@@ -54,7 +58,7 @@ const normalizeForSpeech = (text: string): string => {
     .trim();
 };
 
-const providerOrder = (): Array<"gemini" | "elevenlabs"> => {
+const providerOrder = (): VoiceProviderName[] => {
   if (env.voiceProvider === "elevenlabs") {
     return ["elevenlabs", "gemini"];
   }
@@ -66,67 +70,167 @@ const providerOrder = (): Array<"gemini" | "elevenlabs"> => {
   return ["gemini", "elevenlabs"];
 };
 
+const extensionFor = (contentType: string): string => {
+  if (contentType.includes("mpeg")) return "mp3";
+  if (contentType.includes("wav")) return "wav";
+  return "bin";
+};
+
+type VoiceCandidate = {
+  provider: VoiceProviderName;
+  voiceName: string;
+  styleInstruction?: string;
+  ageBand?: AgeBand;
+  cacheKey: string;
+};
+
 export class VoiceService {
-  private readonly audioDir = path.resolve(env.dataDir, "audio");
+  readonly audioDir = path.resolve(env.dataDir, "audio");
 
   async ensureDirs(): Promise<void> {
     await fs.mkdir(this.audioDir, { recursive: true });
   }
 
   async synthesizeToAsset(input: {
+    sessionId: string;
     text: string;
     archetype: PersonaArchetype;
+    ageBand?: AgeBand;
+    signal?: AbortSignal;
   }): Promise<{ audioId: string; streamUrl: string } | null> {
     await this.ensureDirs();
     const spokenText = normalizeForSpeech(input.text);
 
-    let result: { audio: Buffer; contentType: string } | null = null;
+    const candidates: VoiceCandidate[] = providerOrder().map((provider) => {
+      const voice =
+        provider === "gemini"
+          ? {
+              voiceName: geminiVoiceByArchetype(input.archetype),
+              styleInstruction: styleByArchetype(input.archetype),
+              ageBand: input.ageBand ?? DEFAULT_AGE_BAND,
+            }
+          : { voiceName: elevenLabsVoiceByArchetype(input.archetype) ?? env.defaultVoiceId, styleInstruction: undefined };
+
+      return {
+        provider,
+        ...voice,
+        cacheKey: audioCacheService.keyFor({ provider, text: spokenText, ...voice }),
+      };
+    });
 
-    for (const provider of providerOrder()) {
-      if (provider === "gemini") {
-        result = await geminiTtsClient.synthesize({
-          text: spokenText,
-          voiceName: geminiVoiceByArchetype(input.archetype),
-          styleInstruction: styleByArchetype(input.archetype),
-        });
-      } else {
-        result = await elevenLabsClient.synthesize({
-          text: spokenText,
-          voiceId: elevenLabsVoiceByArchetype(input.archetype),
+    if (audioCacheService.isEnabled()) {
+      const cached = await audioCacheService.findFirst(candidates.map((candidate) => candidate.cacheKey));
+      if (cached) {
+        tracingService.annotate({ cacheHit: true });
+        return this.registerAsset(input.sessionId, {
+          contentType: cached.contentType,
+          filePath: cached.filePath,
+          cacheKey: cached.cacheKey,
         });
       }
+    }
 
-      if (result) {
-        break;
+    for (const [index, candidate] of candidates.entries()) {
+      const attributes = {
+        provider: candidate.provider,
+        model: candidate.provider === "gemini" ? env.geminiTtsModel : env.elevenLabsModel,
+        fallback: index > 0,
+      };
+      const result = await tracingService.span("tts.synthesize", attributes, () =>
+        candidate.provider === "gemini"
+          ? geminiTtsClient.synthesize({
+              text: spokenText,
+              voiceName: candidate.voiceName,
+              styleInstruction: candidate.styleInstruction,
+              ageBand: candidate.ageBand,
+              signal: input.signal,
+            })
+          : elevenLabsClient.synthesize({
+              text: spokenText,
+              voiceId: elevenLabsVoiceByArchetype(input.archetype),
+              signal: input.signal,
+            }),
+      );
+
+      if (!result) {
+        continue;
       }
-    }
 
-    if (!result) {
-      return null;
+      if (audioCacheService.isEnabled()) {
+        const entry = await audioCacheService.save({
+          cacheKey: candidate.cacheKey,
+          provider: candidate.provider,
+          voiceName: candidate.voiceName,
+          audio: result.audio,
+          contentType: result.contentType,
+          extension: extensionFor(result.contentType),
+        });
+
+        return this.registerAsset(input.sessionId, {
+          contentType: entry.contentType,
+          filePath: entry.filePath,
+          cacheKey: entry.cacheKey,
+        });
+      }
+
+      const audioId = randomUUID();
+      const filePath = path.resolve(this.audioDir, `${audioId}.${extensionFor(result.contentType)}`);
+      await fs.writeFile(filePath, result.audio);
+      return this.registerAsset(input.sessionId, { audioId, contentType: result.contentType, filePath });
     }
 
-    const audioId = randomUUID();
-    const extension = result.contentType.includes("mpeg")
-      ? "mp3"
-      : result.contentType.includes("wav")
-        ? "wav"
-        : "bin";
-    const filePath = path.resolve(this.audioDir, `${audioId}.${extension}`);
+    // No provider produced audio, so the client falls back to reading the text.
+    tracingService.annotate({ fallback: true });
+    return null;
+  }
 
-    await fs.writeFile(filePath, result.audio);
+  // Each use gets its own audioId so stream URLs are not derivable from the cached content hash.
+  private registerAsset(
+    sessionId: string,
+    input: {
+      audioId?: string;
+      contentType: string;
+      filePath: string;
+      cacheKey?: string;
+    },
+  ): { audioId: string; streamUrl: string } {
+    const audioId = input.audioId ?? randomUUID();
     store.voiceAssets.set(audioId, {
       audioId,
-      contentType: result.contentType,
-      filePath,
+      contentType: input.contentType,
+      filePath: input.filePath,
       createdAt: new Date().toISOString(),
+      cacheKey: input.cacheKey,
     });
 
     return {
       audioId,
-      streamUrl: `${env.apiBaseUrl}/v1/audio/${audioId}`,
+      streamUrl: signResourceUrl("audio", audioId, sessionId).url,
     };
   }
 
+  // Re-signs a stored asset for the current session; undefined once retention has removed it.
+  streamUrlFor(audioId: string, sessionId: string): string | undefined {
+    if (!store.voiceAssets.get(audioId)) {
+      return undefined;
+    }
+
+    return signResourceUrl("audio", audioId, sessionId).url;
+  }
+
+  // False once retention has removed the asset, or the audio cache has evicted the file it shares.
+  async isAvailable(audioId: string): Promise<boolean> {
+    const voiceAsset = store.voiceAssets.get(audioId);
+    if (!voiceAsset) {
+      return false;
+    }
+
+    return fs.access(voiceAsset.filePath).then(
+      () => true,
+      () => false,
+    );
+  }
+
   resolveAudio(audioId: string): { filePath: string; contentType: string } | null {
     const voiceAsset = store.voiceAssets.get(audioId);
     if (!voiceAsset) {
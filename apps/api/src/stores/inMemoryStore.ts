@@ -1,47 +1,109 @@
 import type {
+  AdminApiKey,
+  AdminAuditEntry,
+  AdminSession,
+  AdminUser,
   AnalysisResult,
   AnalyticsEvent,
+  AudioCacheEntry,
+  ChildProfile,
   ConversationState,
   FeedbackItem,
+  ImageFingerprint,
   IncidentItem,
+  KnowledgeEntry,
+  ParentAccount,
+  ParentSession,
   PolicyConfig,
   SessionInfo,
   UploadTarget,
   VoiceAsset,
 } from "../types/domain.js";
+import { defaultPolicy, type AppendLog, type Collection, type DataStore, type FactCacheEntry } from "./store.js";
 
-export class InMemoryStore {
-  public readonly sessions = new Map<string, SessionInfo>();
-  public readonly uploads = new Map<string, UploadTarget>();
-  public readonly analyses = new Map<string, AnalysisResult>();
-  public readonly factCache = new Map<string, { value: unknown; expiresAt: string }>();
-  public readonly conversations = new Map<string, ConversationState>();
-  public readonly voiceAssets = new Map<string, VoiceAsset>();
-  public readonly feedback = new Array<FeedbackItem>();
-  public readonly analytics = new Array<AnalyticsEvent>();
-  public readonly incidents = new Array<IncidentItem>();
-
-  public policy: PolicyConfig = {
-    blockedTopics: [
-      "violence",
-      "sexual",
-      "self-harm",
-      "illegal instructions",
-      "personal data",
-      "hate speech",
-    ],
-    allowedSourceDomains: [
-      "nasa.gov",
-      "nationalgeographic.com",
-      "smithsonianmag.com",
-      "britannica.com",
-      "wikipedia.org",
-      "noaa.gov",
-      "usgs.gov",
-    ],
-    maxReplySeconds: 18,
-    minFactConfidence: 0.55,
-  };
+class MapCollection<T> implements Collection<T> {
+  private readonly items = new Map<string, T>();
+
+  get(id: string): T | undefined {
+    return this.items.get(id);
+  }
+
+  set(id: string, value: T): void {
+    this.items.set(id, value);
+  }
+
+  update(id: string, apply: (current: T | undefined) => T | undefined): T | undefined {
+    const current = this.items.get(id);
+    const next = apply(current);
+    if (next === undefined) {
+      return current;
+    }
+
+    this.items.set(id, next);
+    return next;
+  }
+
+  delete(id: string): boolean {
+    return this.items.delete(id);
+  }
+
+  entries(): Array<[string, T]> {
+    return Array.from(this.items.entries());
+  }
+
+  values(): T[] {
+    return Array.from(this.items.values());
+  }
 }
 
-export const store = new InMemoryStore();
+class ArrayLog<T> implements AppendLog<T> {
+  private readonly items: T[] = [];
+
+  append(item: T): void {
+    this.items.push(item);
+  }
+
+  list(limit?: number): T[] {
+    return limit === undefined ? this.items.slice() : this.items.slice(-limit);
+  }
+
+  count(): number {
+    return this.items.length;
+  }
+}
+
+export class InMemoryStore implements DataStore {
+  public readonly sessions = new MapCollection<SessionInfo>();
+  public readonly uploads = new MapCollection<UploadTarget>();
+  public readonly analyses = new MapCollection<AnalysisResult>();
+  public readonly factCache = new MapCollection<FactCacheEntry>();
+  public readonly conversations = new MapCollection<ConversationState>();
+  public readonly voiceAssets = new MapCollection<VoiceAsset>();
+  public readonly audioCache = new MapCollection<AudioCacheEntry>();
+  public readonly parentAccounts = new MapCollection<ParentAccount>();
+  public readonly parentSessions = new MapCollection<ParentSession>();
+  public readonly childProfiles = new MapCollection<ChildProfile>();
+  public readonly adminUsers = new MapCollection<AdminUser>();
+  public readonly adminSessions = new MapCollection<AdminSession>();
+  public readonly adminApiKeys = new MapCollection<AdminApiKey>();
+  public readonly imageFingerprints = new MapCollection<ImageFingerprint>();
+  public readonly knowledgeBase = new MapCollection<KnowledgeEntry>();
+  public readonly feedback = new ArrayLog<FeedbackItem>();
+  public readonly analytics = new ArrayLog<AnalyticsEvent>();
+  public readonly incidents = new ArrayLog<IncidentItem>();
+  public readonly adminAudit = new ArrayLog<AdminAuditEntry>();
+
+  private policy: PolicyConfig = defaultPolicy();
+
+  getPolicy(): PolicyConfig {
+    return this.policy;
+  }
+
+  setPolicy(policy: PolicyConfig): void {
+    this.policy = policy;
+  }
+
+  close(): void {
+    return;
+  }
+}
@@ -0,0 +1,16 @@
+import { env } from "../config/env.js";
+import { InMemoryStore } from "./inMemoryStore.js";
+import { SqliteStore } from "./sqliteStore.js";
+import type { DataStore } from "./store.js";
+
+export type { AppendLog, Collection, DataStore, FactCacheEntry } from "./store.js";
+
+export const createStore = (driver: "memory" | "sqlite" = env.storeDriver): DataStore => {
+  if (driver === "sqlite") {
+    return new SqliteStore(env.sqlitePath);
+  }
+
+  return new InMemoryStore();
+};
+
+export const store = createStore();
@@ -0,0 +1,107 @@
+import type Database from "better-sqlite3";
+
+export type Migration = {
+  version: number;
+  name: string;
+  sql: string;
+};
+
+const recordTable = (table: string): string => `
+  CREATE TABLE ${table} (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+`;
+
+const logTable = (table: string): string => `
+  CREATE TABLE ${table} (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    data TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+`;
+
+// Append only: never edit a migration that has shipped, add a new version instead.
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: "initial_schema",
+    sql: [
+      recordTable("sessions"),
+      recordTable("uploads"),
+      recordTable("analyses"),
+      recordTable("fact_cache"),
+      recordTable("conversations"),
+      recordTable("voice_assets"),
+      logTable("feedback"),
+      logTable("analytics_events"),
+      logTable("incidents"),
+      `CREATE TABLE policy (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        data TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );`,
+    ].join("\n"),
+  },
+  {
+    version: 2,
+    name: "audio_cache",
+    sql: recordTable("audio_cache"),
+  },
+  {
+    version: 3,
+    name: "family_accounts",
+    sql: [recordTable("parent_accounts"), recordTable("parent_sessions"), recordTable("child_profiles")].join("\n"),
+  },
+  {
+    version: 4,
+    name: "admin_auth",
+    sql: [
+      recordTable("admin_users"),
+      recordTable("admin_sessions"),
+      recordTable("admin_api_keys"),
+      logTable("admin_audit"),
+    ].join("\n"),
+  },
+  {
+    version: 5,
+    name: "image_fingerprints",
+    sql: recordTable("image_fingerprints"),
+  },
+  {
+    version: 6,
+    name: "knowledge_base",
+    sql: recordTable("knowledge_base"),
+  },
+];
+
+export const runMigrations = (db: Database.Database, pending: Migration[] = migrations): number[] => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    );
+  `);
+
+  const applied = new Set(
+    (db.prepare("SELECT version FROM schema_migrations").all() as Array<{ version: number }>).map((row) => row.version),
+  );
+  const record = db.prepare("INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)");
+  const ran: number[] = [];
+
+  for (const migration of [...pending].sort((a, b) => a.version - b.version)) {
+    if (applied.has(migration.version)) {
+      continue;
+    }
+
+    db.transaction(() => {
+      db.exec(migration.sql);
+      record.run(migration.version, migration.name, new Date().toISOString());
+    })();
+    ran.push(migration.version);
+  }
+
+  return ran;
+};
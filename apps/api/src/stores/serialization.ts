@@ -0,0 +1,17 @@
+const SET_TAG = "$set";
+
+// JSON has no Set type, so Sets (e.g. ConversationState.usedFactIndexes) are tagged on the way out.
+export const serializeRecord = (value: unknown): string =>
+  JSON.stringify(value, (_key, item: unknown) => (item instanceof Set ? { [SET_TAG]: Array.from(item) } : item));
+
+export const deserializeRecord = <T>(raw: string): T =>
+  JSON.parse(raw, (_key, item: unknown) => {
+    if (item && typeof item === "object" && !Array.isArray(item)) {
+      const tagged = (item as Record<string, unknown>)[SET_TAG];
+      if (Array.isArray(tagged) && Object.keys(item).length === 1) {
+        return new Set(tagged);
+      }
+    }
+
+    return item;
+  }) as T;
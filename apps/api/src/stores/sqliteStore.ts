@@ -0,0 +1,196 @@
+import fs from "node:fs";
+import path from "node:path";
+import Database from "better-sqlite3";
+import type {
+  AdminApiKey,
+  AdminAuditEntry,
+  AdminSession,
+  AdminUser,
+  AnalysisResult,
+  AnalyticsEvent,
+  AudioCacheEntry,
+  ChildProfile,
+  ConversationState,
+  FeedbackItem,
+  ImageFingerprint,
+  IncidentItem,
+  KnowledgeEntry,
+  ParentAccount,
+  ParentSession,
+  PolicyConfig,
+  SessionInfo,
+  UploadTarget,
+  VoiceAsset,
+} from "../types/domain.js";
+import { logger } from "../utils/logger.js";
+import { runMigrations } from "./migrations.js";
+import { deserializeRecord, serializeRecord } from "./serialization.js";
+import { defaultPolicy, type AppendLog, type Collection, type DataStore, type FactCacheEntry } from "./store.js";
+
+class SqliteCollection<T> implements Collection<T> {
+  private readonly selectOne: Database.Statement<[string], { data: string }>;
+  private readonly upsert: Database.Statement<[string, string, string]>;
+  private readonly remove: Database.Statement<[string]>;
+  private readonly selectAll: Database.Statement<[], { id: string; data: string }>;
+  private readonly transaction: <R>(run: () => R) => R;
+
+  constructor(db: Database.Database, table: string) {
+    this.selectOne = db.prepare(`SELECT data FROM ${table} WHERE id = ?`);
+    this.upsert = db.prepare(
+      `INSERT INTO ${table} (id, data, updated_at) VALUES (?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`,
+    );
+    this.remove = db.prepare(`DELETE FROM ${table} WHERE id = ?`);
+    this.selectAll = db.prepare(`SELECT id, data FROM ${table} ORDER BY rowid`);
+    // IMMEDIATE takes the write lock before the read, so another process cannot write in between.
+    this.transaction = (run) => db.transaction(run).immediate();
+  }
+
+  get(id: string): T | undefined {
+    const row = this.selectOne.get(id);
+    return row ? deserializeRecord<T>(row.data) : undefined;
+  }
+
+  set(id: string, value: T): void {
+    this.upsert.run(id, serializeRecord(value), new Date().toISOString());
+  }
+
+  update(id: string, apply: (current: T | undefined) => T | undefined): T | undefined {
+    return this.transaction(() => {
+      const current = this.get(id);
+      const next = apply(current);
+      if (next === undefined) {
+        return current;
+      }
+
+      this.set(id, next);
+      return next;
+    });
+  }
+
+  delete(id: string): boolean {
+    return this.remove.run(id).changes > 0;
+  }
+
+  entries(): Array<[string, T]> {
+    return this.selectAll.all().map((row) => [row.id, deserializeRecord<T>(row.data)]);
+  }
+
+  values(): T[] {
+    return this.entries().map(([, value]) => value);
+  }
+}
+
+class SqliteLog<T> implements AppendLog<T> {
+  private readonly insert: Database.Statement<[string, string]>;
+  private readonly selectAll: Database.Statement<[], { data: string }>;
+  private readonly selectLatest: Database.Statement<[number], { data: string }>;
+  private readonly countAll: Database.Statement<[], { total: number }>;
+
+  constructor(db: Database.Database, table: string) {
+    this.insert = db.prepare(`INSERT INTO ${table} (data, created_at) VALUES (?, ?)`);
+    this.selectAll = db.prepare(`SELECT data FROM ${table} ORDER BY seq`);
+    this.selectLatest = db.prepare(
+      `SELECT data FROM (SELECT seq, data FROM ${table} ORDER BY seq DESC LIMIT ?) ORDER BY seq`,
+    );
+    this.countAll = db.prepare(`SELECT COUNT(*) AS total FROM ${table}`);
+  }
+
+  append(item: T): void {
+    this.insert.run(serializeRecord(item), new Date().toISOString());
+  }
+
+  list(limit?: number): T[] {
+    const rows = limit === undefined ? this.selectAll.all() : this.selectLatest.all(limit);
+    return rows.map((row) => deserializeRecord<T>(row.data));
+  }
+
+  count(): number {
+    return this.countAll.get()?.total ?? 0;
+  }
+}
+
+export class SqliteStore implements DataStore {
+  public readonly sessions: SqliteCollection<SessionInfo>;
+  public readonly uploads: SqliteCollection<UploadTarget>;
+  public readonly analyses: SqliteCollection<AnalysisResult>;
+  public readonly factCache: SqliteCollection<FactCacheEntry>;
+  public readonly conversations: SqliteCollection<ConversationState>;
+  public readonly voiceAssets: SqliteCollection<VoiceAsset>;
+  public readonly audioCache: SqliteCollection<AudioCacheEntry>;
+  public readonly parentAccounts: SqliteCollection<ParentAccount>;
+  public readonly parentSessions: SqliteCollection<ParentSession>;
+  public readonly childProfiles: SqliteCollection<ChildProfile>;
+  public readonly adminUsers: SqliteCollection<AdminUser>;
+  public readonly adminSessions: SqliteCollection<AdminSession>;
+  public readonly adminApiKeys: SqliteCollection<AdminApiKey>;
+  public readonly imageFingerprints: SqliteCollection<ImageFingerprint>;
+  public readonly knowledgeBase: SqliteCollection<KnowledgeEntry>;
+  public readonly feedback: SqliteLog<FeedbackItem>;
+  public readonly analytics: SqliteLog<AnalyticsEvent>;
+  public readonly incidents: SqliteLog<IncidentItem>;
+  public readonly adminAudit: SqliteLog<AdminAuditEntry>;
+
+  private readonly db: Database.Database;
+
+  constructor(filePath: string) {
+    if (filePath !== ":memory:") {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    }
+
+    this.db = new Database(filePath);
+    this.db.pragma("journal_mode = WAL");
+    this.db.pragma("foreign_keys = ON");
+
+    const ran = runMigrations(this.db);
+    if (ran.length > 0) {
+      logger.info("Applied store migrations", { filePath, versions: ran });
+    }
+
+    this.sessions = new SqliteCollection(this.db, "sessions");
+    this.uploads = new SqliteCollection(this.db, "uploads");
+    this.analyses = new SqliteCollection(this.db, "analyses");
+    this.factCache = new SqliteCollection(this.db, "fact_cache");
+    this.conversations = new SqliteCollection(this.db, "conversations");
+    this.voiceAssets = new SqliteCollection(this.db, "voice_assets");
+    this.audioCache = new SqliteCollection(this.db, "audio_cache");
+    this.parentAccounts = new SqliteCollection(this.db, "parent_accounts");
+    this.parentSessions = new SqliteCollection(this.db, "parent_sessions");
+    this.childProfiles = new SqliteCollection(this.db, "child_profiles");
+    this.adminUsers = new SqliteCollection(this.db, "admin_users");
+    this.adminSessions = new SqliteCollection(this.db, "admin_sessions");
+    this.adminApiKeys = new SqliteCollection(this.db, "admin_api_keys");
+    this.imageFingerprints = new SqliteCollection(this.db, "image_fingerprints");
+    this.knowledgeBase = new SqliteCollection(this.db, "knowledge_base");
+    this.feedback = new SqliteLog(this.db, "feedback");
+    this.analytics = new SqliteLog(this.db, "analytics_events");
+    this.incidents = new SqliteLog(this.db, "incidents");
+    this.adminAudit = new SqliteLog(this.db, "admin_audit");
+  }
+
+  getPolicy(): PolicyConfig {
+    const row = this.db.prepare("SELECT data FROM policy WHERE id = 1").get() as { data: string } | undefined;
+    if (!row) {
+      return defaultPolicy();
+    }
+
+    // Merge over defaults so policy fields added after the row was written still resolve.
+    return {
+      ...defaultPolicy(),
+      ...deserializeRecord<Partial<PolicyConfig>>(row.data),
+    };
+  }
+
+  setPolicy(policy: PolicyConfig): void {
+    this.db
+      .prepare(
+        `INSERT INTO policy (id, data, updated_at) VALUES (1, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`,
+      )
+      .run(serializeRecord(policy), new Date().toISOString());
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,93 @@
+import type {
+  AdminApiKey,
+  AdminAuditEntry,
+  AdminSession,
+  AdminUser,
+  AnalysisResult,
+  AnalyticsEvent,
+  AudioCacheEntry,
+  ChildProfile,
+  ConversationState,
+  FeedbackItem,
+  ImageFingerprint,
+  IncidentItem,
+  KnowledgeEntry,
+  ParentAccount,
+  ParentSession,
+  PolicyConfig,
+  SessionInfo,
+  UploadTarget,
+  VoiceAsset,
+} from "../types/domain.js";
+
+export type FactCacheEntry = {
+  value: unknown;
+  expiresAt: string;
+  // Approved packs are pinned and served past `expiresAt`.
+  pinned?: boolean;
+};
+
+// Keyed records. Values returned by get() are snapshots for persistent drivers,
+// so callers must set() after mutating them.
+export interface Collection<T> {
+  get(id: string): T | undefined;
+  set(id: string, value: T): void;
+  // Re-reads the record and writes `apply`'s result in one step, so a caller that awaited since its own get() merges
+  // into what others wrote meanwhile instead of overwriting it. Returning undefined leaves the record as it is.
+  update(id: string, apply: (current: T | undefined) => T | undefined): T | undefined;
+  delete(id: string): boolean;
+  entries(): Array<[string, T]>;
+  values(): T[];
+}
+
+// Append-only event streams, returned oldest first.
+export interface AppendLog<T> {
+  append(item: T): void;
+  list(limit?: number): T[];
+  count(): number;
+}
+
+export interface DataStore {
+  readonly sessions: Collection<SessionInfo>;
+  readonly uploads: Collection<UploadTarget>;
+  readonly analyses: Collection<AnalysisResult>;
+  readonly factCache: Collection<FactCacheEntry>;
+  readonly conversations: Collection<ConversationState>;
+  readonly voiceAssets: Collection<VoiceAsset>;
+  readonly audioCache: Collection<AudioCacheEntry>;
+  readonly parentAccounts: Collection<ParentAccount>;
+  readonly parentSessions: Collection<ParentSession>;
+  readonly childProfiles: Collection<ChildProfile>;
+  readonly adminUsers: Collection<AdminUser>;
+  readonly adminSessions: Collection<AdminSession>;
+  readonly adminApiKeys: Collection<AdminApiKey>;
+  readonly imageFingerprints: Collection<ImageFingerprint>;
+  readonly knowledgeBase: Collection<KnowledgeEntry>;
+  readonly feedback: AppendLog<FeedbackItem>;
+  readonly analytics: AppendLog<AnalyticsEvent>;
+  readonly incidents: AppendLog<IncidentItem>;
+  readonly adminAudit: AppendLog<AdminAuditEntry>;
+  getPolicy(): PolicyConfig;
+  setPolicy(policy: PolicyConfig): void;
+  close(): void;
+}
+
+export const defaultPolicy = (): PolicyConfig => ({
+  blockedTopics: ["violence", "sexual", "self-harm", "illegal instructions", "personal data", "hate speech"],
+  allowedSourceDomains: [
+    "nasa.gov",
+    "nationalgeographic.com",
+    "smithsonianmag.com",
+    "britannica.com",
+    "wikipedia.org",
+    "noaa.gov",
+    "usgs.gov",
+  ],
+  maxReplySeconds: 18,
+  minFactConfidence: 0.55,
+  minEntityConfidence: 0.5,
+  enforceFaceBlur: true,
+  minCitationSupport: 0.5,
+  unverifiedFactAction: "downweight",
+  serveUnapprovedFacts: true,
+});
@@ -20,11 +20,48 @@ export type CanonicalEntity = {
   roleplayMode: RoleplayMode;
 };
 
+export type EntityCandidate = {
+  entityId: string;
+  label: string;
+  confidence: number;
+};
+
 export type FactItem = {
   claim: string;
   confidence: number;
   sourceUrls: string[];
   freshnessDate: string;
+  verification?: FactVerification;
+  readability?: ReadabilityScore;
+};
+
+// How hard a text is for the age band it was scored against; `passed` means it is within all of the band's limits.
+export type ReadabilityScore = {
+  ageBand: AgeBand;
+  // Flesch-Kincaid grade level.
+  grade: number;
+  averageSentenceWords: number;
+  longestSentenceWords: number;
+  // Long words outside the familiar list, not counting names.
+  rareWords: string[];
+  passed: boolean;
+};
+
+// Which draft went out: the model's first, its simplified rewrite, or the persona templates.
+export type ReplySource = "model" | "simplified" | "template";
+
+export type ReplyReadability = ReadabilityScore & { source: ReplySource };
+
+export type CitationStatus = "verified" | "unsupported" | "unreachable";
+
+// How well the fetched source pages back a claim; `score` is the best support found on any of them.
+export type FactVerification = {
+  status: CitationStatus;
+  score: number;
+  supportingUrl?: string;
+  checkedAt: string;
+  // Set when the policy down-weighted the fact; the confidence research originally gave it.
+  originalConfidence?: number;
 };
 
 export type PersonaArchetype = "playful" | "wise" | "adventurous" | "inventor";
@@ -43,27 +80,121 @@ export type ModerationResult = {
   transformedText?: string;
 };
 
-export type AnalysisStatus = "queued" | "processing" | "ready" | "failed";
+export type AnalysisStatus = "queued" | "processing" | "needs_confirmation" | "ready" | "failed" | "cancelled";
+
+export type AnalysisStage =
+  | "uploaded"
+  | "scanning"
+  | "entity_detected"
+  | "research_ready"
+  | "persona_built"
+  | "needs_confirmation"
+  | "audio_ready"
+  | "failed"
+  | "cancelled";
+
+export type ImageQualityIssue = "too_small" | "too_dark" | "too_bright" | "uniform" | "blurry" | "unsupported_format";
+
+export type UploadThreat = "malware" | "mime_mismatch" | "polyglot" | "decompression_bomb";
+
+export type UploadScanFinding = {
+  threat: UploadThreat;
+  detail: string;
+};
+
+// The part of the photo the child tapped or dragged over, as fractions of the upright image.
+export type FocusRegion = {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+};
+
+export type AnalysisProgressEvent = {
+  analysisId: string;
+  stage: AnalysisStage;
+  data: Record<string, unknown>;
+  createdAt: string;
+};
 
 export type AnalysisResult = {
   analysisId: string;
   sessionId: string;
+  childId?: string;
+  // Taken from the session; records made before age bands existed are treated as 7-10.
+  ageBand?: AgeBand;
   imageUrl: string;
+  focus?: FocusRegion;
+  // Set for "meet each other" analyses: the second photo and what it turned out to be.
+  partnerImageUrl?: string;
+  partnerEntity?: CanonicalEntity;
   status: AnalysisStatus;
   createdAt: string;
   updatedAt: string;
   entity?: CanonicalEntity;
+  candidates?: EntityCandidate[];
   hookText?: string;
   firstReplyText?: string;
   firstReplyAudioStreamUrl?: string;
+  partnerReplyText?: string;
+  partnerReplyAudioStreamUrl?: string;
   safetyStatus?: SafetyVerdict;
   conversationId?: string;
+  imageHash?: string;
+  facesDetected?: number;
+  facesBlurred?: boolean;
+  error?: string;
+  errorCode?: ImageQualityIssue | UploadThreat;
+  retakeHint?: string;
+  progress?: AnalysisProgressEvent[];
+  // Admin-only timing of the latest pipeline run; never sent to the child's client.
+  traceId?: string;
+  spans?: TraceSpan[];
+};
+
+export type SpanOutcome = "ok" | "error";
+
+// One timed step of a pipeline run. Provider spans nest under the stage that called them.
+export type TraceSpan = {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  provider?: string;
+  model?: string;
+  outcome: SpanOutcome;
+  fallback: boolean;
+  cacheHit?: boolean;
   error?: string;
+  startedAt: string;
+  durationMs: number;
+};
+
+export type StageLatency = {
+  count: number;
+  p50Ms: number;
+  p95Ms: number;
+};
+
+// Remembers what a photo turned out to be so near-duplicates from the same child skip vision and research.
+export type ImageFingerprint = {
+  analysisId: string;
+  sessionId: string;
+  childId?: string;
+  hash: string;
+  entity: CanonicalEntity;
+  factPack: FactPack;
+  hookText?: string;
+  conversationIds: string[];
+  createdAt: string;
+  lastMatchedAt: string;
 };
 
 export type SessionInfo = {
   sessionId: string;
   token: string;
+  childId?: string;
+  ageBand?: AgeBand;
   createdAt: string;
   expiresAt: string;
   locale: string;
@@ -74,36 +205,111 @@ export type SessionInfo = {
   };
 };
 
+// Where a pack's facts came from: editor-reviewed entries, live model research, or the generic templates.
+export type FactSource = "knowledge_base" | "model" | "template";
+
+export type FactReviewStatus = "draft" | "in_review" | "approved" | "rejected";
+
+export type FactPackReview = {
+  status: FactReviewStatus;
+  updatedAt: string;
+  reviewedBy?: string;
+  note?: string;
+  // Set once a reviewer has changed a claim, source, or the summary.
+  edited?: boolean;
+};
+
 export type FactPack = {
   entity: CanonicalEntity;
   facts: FactItem[];
   summary: string;
   generatedAt: string;
+  source?: FactSource;
+  knowledgeVersion?: number;
+  // The band research was written for; curated knowledge base packs serve every band and leave it unset.
+  ageBand?: AgeBand;
+  // Generated packs start as drafts; packs cached before reviews existed have no review and count as drafts.
+  review?: FactPackReview;
+  // Served before a reviewer approved it.
+  provisional?: boolean;
+};
+
+export type KnowledgeRevision = {
+  version: number;
+  label: string;
+  category: EntityCategory;
+  aliases: string[];
+  summary: string;
+  facts: FactItem[];
+  updatedBy: string;
+  updatedAt: string;
+};
+
+// An editor-reviewed fact pack, keyed by entity ID and also matched by any of its aliases.
+// Each save bumps `version` and keeps the replaced content in `history`, newest first.
+export type KnowledgeEntry = KnowledgeRevision & {
+  entityId: string;
+  createdAt: string;
+  history: KnowledgeRevision[];
+};
+
+export type Speaker = "primary" | "partner";
+
+export type Addressee = Speaker | "both";
+
+// One persona's part of a turn in a "meet each other" conversation, moderated and voiced on its own.
+export type ConversationLine = {
+  speaker: Speaker;
+  text: string;
+  safetyVerdict: SafetyVerdict;
+  audioId?: string;
+  readability?: ReplyReadability;
 };
 
 export type ConversationTurn = {
   turnId: string;
   userInput: string;
+  // For two-persona turns this is the whole exchange, one "Name: line" per line; `lines` has the parts.
   assistantText: string;
   safetyVerdict: SafetyVerdict;
+  audioId?: string;
+  addressee?: Addressee;
+  lines?: ConversationLine[];
+  // Absent on two-persona turns, whose lines are scored one by one, and on guessing-game prompts.
+  readability?: ReplyReadability;
   createdAt: string;
 };
 
+// The second object in a "meet each other" conversation, with its own facts and voice.
+export type ConversationPartner = {
+  entity: CanonicalEntity;
+  factPack: FactPack;
+  persona: PersonaProfile;
+  usedFactIndexes: Set<number>;
+};
+
 export type ConversationState = {
   conversationId: string;
   sessionId: string;
+  childId?: string;
+  ageBand?: AgeBand;
   entity: CanonicalEntity;
   factPack: FactPack;
   persona: PersonaProfile;
   usedFactIndexes: Set<number>;
+  partner?: ConversationPartner;
   turns: ConversationTurn[];
+  // Set while the child still has to say what the object is; research waits for the answer.
+  pendingConfirmation?: {
+    analysisId: string;
+    candidates: EntityCandidate[];
+  };
   createdAt: string;
   updatedAt: string;
 };
 
 export type UploadTarget = {
   uploadId: string;
-  token: string;
   sessionId: string;
   createdAt: string;
   expiresAt: string;
@@ -111,6 +317,8 @@ export type UploadTarget = {
   filePath?: string;
   mimeType?: string;
   imageUrl?: string;
+  quarantinedPath?: string;
+  quarantineReason?: UploadThreat;
 };
 
 export type VoiceAsset = {
@@ -118,6 +326,47 @@ export type VoiceAsset = {
   contentType: string;
   filePath: string;
   createdAt: string;
+  cacheKey?: string;
+};
+
+export type VoiceProviderName = "gemini" | "elevenlabs";
+
+export type AudioCacheEntry = {
+  cacheKey: string;
+  provider: VoiceProviderName;
+  voiceName: string;
+  contentType: string;
+  filePath: string;
+  bytes: number;
+  hits: number;
+  createdAt: string;
+  lastUsedAt: string;
+};
+
+export type AgeBand = "4-6" | "7-10" | "11-13";
+
+export type ChildProfile = {
+  childId: string;
+  accountId: string;
+  nickname: string;
+  ageBand: AgeBand;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type ParentAccount = {
+  accountId: string;
+  email: string;
+  passwordHash: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type ParentSession = {
+  tokenHash: string;
+  accountId: string;
+  createdAt: string;
+  expiresAt: string;
 };
 
 export type FeedbackSignal = "helpful" | "boring" | "unsafe" | "incorrect";
@@ -135,7 +384,10 @@ export type AnalyticsEventName =
   | "analysis_requested"
   | "first_audio_ready"
   | "chat_turn"
-  | "feedback_submitted";
+  | "entity_confirmed"
+  | "dedupe_hit"
+  | "feedback_submitted"
+  | "reply_readability";
 
 export type AnalyticsEvent = {
   eventName: AnalyticsEventName;
@@ -149,6 +401,68 @@ export type PolicyConfig = {
   allowedSourceDomains: string[];
   maxReplySeconds: number;
   minFactConfidence: number;
+  minEntityConfidence: number;
+  enforceFaceBlur: boolean;
+  // Citation support below this counts as unverified; those facts are dropped or kept at reduced confidence.
+  minCitationSupport: number;
+  unverifiedFactAction: "drop" | "downweight";
+  // When off, children get the category templates until a reviewer approves the generated pack.
+  serveUnapprovedFacts: boolean;
+};
+
+export type AdminScope =
+  | "analytics:read"
+  | "policy:read"
+  | "policy:write"
+  | "content:read"
+  | "content:write"
+  | "ops:write"
+  | "audit:read"
+  | "keys:manage";
+
+export type AdminUser = {
+  adminId: string;
+  username: string;
+  passwordHash: string;
+  scopes: AdminScope[];
+  createdAt: string;
+  disabledAt?: string;
+};
+
+export type AdminSession = {
+  tokenHash: string;
+  adminId: string;
+  createdAt: string;
+  expiresAt: string;
+};
+
+export type AdminApiKey = {
+  keyId: string;
+  name: string;
+  keyHash: string;
+  scopes: AdminScope[];
+  createdBy: string;
+  createdAt: string;
+  expiresAt: string;
+  revokedAt?: string;
+  rotatedTo?: string;
+  lastUsedAt?: string;
+};
+
+export type AdminAuditEntry = {
+  auditId: string;
+  actorType: "user" | "api_key" | "anonymous";
+  actorId: string | null;
+  // Null for login attempts, which need no scope.
+  scope: AdminScope | null;
+  method: string;
+  path: string;
+  outcome: "allowed" | "denied";
+  statusCode: number;
+  ip: string;
+  // The username a login attempt gave; the password is never recorded.
+  username?: string;
+  createdAt: string;
 };
 
 export type IncidentItem = {
@@ -0,0 +1,35 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+import { promisify } from "node:util";
+
+const scryptAsync = promisify(scrypt) as (secret: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+export const hashSecret = async (secret: string): Promise<string> => {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(secret, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString("base64")}$${key.toString("base64")}`;
+};
+
+export const verifySecret = async (secret: string, stored: string): Promise<boolean> => {
+  const [scheme, saltText, keyText] = stored.split("$");
+  if (scheme !== "scrypt" || !saltText || !keyText) {
+    return false;
+  }
+
+  const expected = Buffer.from(keyText, "base64");
+  const actual = await scryptAsync(secret, Buffer.from(saltText, "base64"), expected.length);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
+
+// Bearer tokens are stored by digest so a leaked database does not leak live credentials.
+export const hashToken = (token: string): string => createHash("sha256").update(token).digest("hex");
+
+// Compared in constant time, so response timing says nothing about how much of a guessed key was right.
+export const matchesTokenHash = (token: string, storedHash: string): boolean => {
+  const actual = Buffer.from(hashToken(token), "hex");
+  const expected = Buffer.from(storedHash, "hex");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
+
+export const generateToken = (): string => randomBytes(32).toString("base64url");
@@ -0,0 +1,60 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { env } from "../config/env.js";
+
+export type SignedResource = "upload" | "media" | "audio" | "events";
+
+// Progress streams hang off their analysis; everything else is served from `/v1/<resource>/<id>`.
+const pathFor = (resource: SignedResource, resourceId: string): string =>
+  resource === "events" ? `/v1/photo/analyze/${resourceId}/events` : `/v1/${resource}/${resourceId}`;
+
+// Without URL_SIGNING_SECRET each process signs with its own key, so URLs only verify on the instance that issued them.
+const signingKey = env.urlSigningSecret ?? randomBytes(32).toString("hex");
+
+export const hasSharedSigningSecret = (): boolean => Boolean(env.urlSigningSecret);
+
+const signatureFor = (resource: SignedResource, resourceId: string, sessionId: string, expiresAt: number): string =>
+  createHmac("sha256", signingKey).update(`${resource}:${resourceId}:${sessionId}:${expiresAt}`).digest("base64url");
+
+export const signResourceUrl = (
+  resource: SignedResource,
+  resourceId: string,
+  sessionId: string,
+  ttlMinutes = env.signedUrlTtlMinutes,
+): { url: string; expiresAt: string } => {
+  const expiresAt = Date.now() + ttlMinutes * 60 * 1000;
+  const query = new URLSearchParams({
+    sid: sessionId,
+    exp: String(expiresAt),
+    sig: signatureFor(resource, resourceId, sessionId, expiresAt),
+  });
+
+  return {
+    url: `${env.apiBaseUrl}${pathFor(resource, resourceId)}?${query.toString()}`,
+    expiresAt: new Date(expiresAt).toISOString(),
+  };
+};
+
+// Verification needs only the secret, so any instance behind the load balancer can serve the URL.
+export const verifyResourceSignature = (
+  resource: SignedResource,
+  resourceId: string,
+  query: Record<string, unknown>,
+): { sessionId: string } | null => {
+  const { sid, exp, sig } = query;
+  if (typeof sid !== "string" || typeof exp !== "string" || typeof sig !== "string") {
+    return null;
+  }
+
+  const expiresAt = Number(exp);
+  if (!Number.isFinite(expiresAt) || expiresAt <= Date.now()) {
+    return null;
+  }
+
+  const expected = Buffer.from(signatureFor(resource, resourceId, sid, expiresAt));
+  const actual = Buffer.from(sig);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  return { sessionId: sid };
+};
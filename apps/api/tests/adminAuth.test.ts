@@ -0,0 +1,105 @@
+import request from "supertest";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createApp } from "../src/app.js";
+import { adminAuthService } from "../src/services/adminAuthService.js";
+import { store } from "../src/stores/index.js";
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+describe("admin authentication", () => {
+  it("enforces key scopes and audits every admin request", async () => {
+    const app = createApp();
+    const { apiKey, key } = adminAuthService.createApiKey({
+      name: "support analytics",
+      scopes: ["analytics:read"],
+      createdBy: "test",
+    });
+
+    await request(app).get("/v1/admin/analytics").set("x-admin-key", apiKey).expect(200);
+    await request(app).put("/v1/admin/policy").set("x-admin-key", apiKey).send({ maxReplySeconds: 20 }).expect(403);
+    await request(app).get("/v1/admin/analytics").set("x-admin-key", "parent-mode").expect(401);
+
+    const audit = adminAuthService.queryAudit({ actorId: key.keyId });
+    expect(audit.map((entry) => [entry.path, entry.outcome, entry.statusCode])).toEqual([
+      ["/v1/admin/policy", "denied", 403],
+      ["/v1/admin/analytics", "allowed", 200],
+    ]);
+    expect(adminAuthService.queryAudit({ outcome: "denied" }).some((entry) => entry.actorType === "anonymous")).toBe(true);
+  });
+
+  it("rotates and revokes keys", () => {
+    const original = adminAuthService.createApiKey({ name: "ci", scopes: ["policy:write"], createdBy: "test" });
+
+    const rotated = adminAuthService.rotateApiKey(original.key.keyId, { rotatedBy: "test", graceMinutes: 0 });
+
+    expect(rotated?.key.scopes).toEqual(["policy:write"]);
+    expect(adminAuthService.authenticateApiKey(original.apiKey)).toBeNull();
+    expect(adminAuthService.authenticateApiKey(rotated?.apiKey ?? "")?.actorId).toBe(rotated?.key.keyId);
+
+    adminAuthService.revokeApiKey(rotated?.key.keyId ?? "");
+    expect(adminAuthService.authenticateApiKey(rotated?.apiKey ?? "")).toBeNull();
+  });
+
+  it("records key use at most once a minute", () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const { apiKey, key } = adminAuthService.createApiKey({ name: "dashboard", scopes: ["analytics:read"], createdBy: "test" });
+    const writes = vi.spyOn(store.adminApiKeys, "set");
+
+    adminAuthService.authenticateApiKey(apiKey);
+    const firstUse = store.adminApiKeys.get(key.keyId)?.lastUsedAt;
+    vi.advanceTimersByTime(30_000);
+    adminAuthService.authenticateApiKey(apiKey);
+    expect(writes).toHaveBeenCalledTimes(1);
+    expect(store.adminApiKeys.get(key.keyId)?.lastUsedAt).toBe(firstUse);
+
+    vi.advanceTimersByTime(30_000);
+    adminAuthService.authenticateApiKey(apiKey);
+    expect(writes).toHaveBeenCalledTimes(2);
+
+    // A key of the right shape with the wrong secret is refused without a write.
+    expect(adminAuthService.authenticateApiKey(`${apiKey.slice(0, -4)}AAAA`)).toBeNull();
+    expect(writes).toHaveBeenCalledTimes(2);
+  });
+
+  it("logs admins in with hashed passwords", async () => {
+    await adminAuthService.createUser({ username: "Support", password: "long support password", scopes: ["audit:read"] });
+
+    expect(adminAuthService.listUsers().find((user) => user.username === "support")).not.toHaveProperty("passwordHash");
+    expect(await adminAuthService.login({ username: "support", password: "nope" })).toBeNull();
+
+    const login = await adminAuthService.login({ username: "support", password: "long support password" });
+    expect(adminAuthService.authenticateSession(login?.token ?? "")?.scopes).toEqual(["audit:read"]);
+  });
+
+  it("audits successful and failed logins without the password", async () => {
+    const app = createApp();
+    const created = await adminAuthService.createUser({ username: "auditor", password: "long auditor password", scopes: ["audit:read"] });
+
+    await request(app).post("/v1/admin/login").send({ username: "auditor", password: "wrong auditor password" }).expect(401);
+    await request(app).post("/v1/admin/login").send({ username: "auditor", password: "long auditor password" }).expect(200);
+
+    const attempts = adminAuthService.queryAudit({ pathPrefix: "/v1/admin/login" }).filter((entry) => entry.username === "auditor");
+    expect(attempts.map((entry) => [entry.actorType, entry.actorId, entry.outcome, entry.statusCode, entry.scope])).toEqual([
+      ["user", created?.adminId, "allowed", 200, null],
+      ["anonymous", null, "denied", 401, null],
+    ]);
+    expect(JSON.stringify(attempts)).not.toContain("auditor password");
+  });
+
+  it("slows down password guessing on the login route", async () => {
+    const app = createApp();
+    await adminAuthService.createUser({ username: "target", password: "long target password", scopes: ["audit:read"] });
+
+    const statuses: number[] = [];
+    for (let attempt = 0; attempt < 11; attempt += 1) {
+      statuses.push((await request(app).post("/v1/admin/login").send({ username: "target", password: `guess ${attempt}` })).status);
+    }
+    expect(statuses).toContain(429);
+
+    // Once the budget is spent even the right password waits for the window to pass.
+    await request(app).post("/v1/admin/login").send({ username: "target", password: "long target password" }).expect(429);
+  });
+});
@@ -0,0 +1,95 @@
+import request from "supertest";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createApp } from "../src/app.js";
+import { AudioCacheService } from "../src/services/audioCacheService.js";
+import { familyService } from "../src/services/familyService.js";
+import { personaService } from "../src/services/personaService.js";
+import { geminiClient } from "../src/services/providers/geminiClient.js";
+import { researchService } from "../src/services/researchService.js";
+import type { CanonicalEntity, FactPack } from "../src/types/domain.js";
+
+const owl: CanonicalEntity = {
+  entityId: "entity-owl",
+  label: "Owl",
+  category: "animal",
+  confidence: 0.9,
+  researchSubject: "Owl",
+  roleplayName: "Owl",
+  roleplayMode: "as_object",
+};
+
+const owlPack: FactPack = {
+  entity: owl,
+  summary: "A night-time hunter.",
+  generatedAt: "2026-01-01",
+  facts: [
+    { claim: "Owl can turn its head a very long way round.", confidence: 0.8, sourceUrls: ["https://www.britannica.com"], freshnessDate: "2026-01-01" },
+    { claim: "Owl flies almost silently.", confidence: 0.8, sourceUrls: ["https://www.britannica.com"], freshnessDate: "2026-01-01" },
+  ],
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  researchService.invalidateAll();
+});
+
+describe("age bands", () => {
+  it("takes the session's band from the request, then the child profile", async () => {
+    const app = createApp();
+
+    const plain = await request(app).post("/v1/session/create").send({}).expect(201);
+    expect(plain.body.age_band).toBe("7-10");
+
+    const explicit = await request(app).post("/v1/session/create").send({ age_band: "11-13" }).expect(201);
+    expect(explicit.body.age_band).toBe("11-13");
+
+    const credentials = { email: "bands@example.com", password: "long enough password" };
+    await familyService.createAccount(credentials);
+    const parent = await familyService.login(credentials);
+    const child = familyService.createChild(parent?.account.accountId ?? "", { nickname: "Pip", ageBand: "4-6" });
+    const forChild = await request(app)
+      .post("/v1/session/create")
+      .set("x-parent-token", parent?.token ?? "")
+      .send({ child_id: child.childId })
+      .expect(201);
+    expect(forChild.body.age_band).toBe("4-6");
+  });
+
+  it("researches and caches each band separately", async () => {
+    const research = vi.spyOn(geminiClient, "deepResearch");
+
+    const young = await researchService.getFactPack(owl, { ageBand: "4-6" });
+    await researchService.getFactPack(owl);
+    await researchService.getFactPack(owl, { ageBand: "4-6" });
+
+    expect(young.ageBand).toBe("4-6");
+    expect(research.mock.calls.map((call) => call[2])).toEqual(["4-6", "7-10"]);
+    expect(researchService.listCachedPacks().map((pack) => pack.key).sort()).toEqual([
+      "entity-owl:age-4-6:en-US:strict-safety-v1",
+      "entity-owl:age-7-10:en-US:strict-safety-v1",
+    ]);
+  });
+
+  it("shortens template replies, changes hooks, and keys cached audio by band", () => {
+    const youngHook = personaService.buildHook(owl, undefined, "4-6");
+    const olderHook = personaService.buildHook(owl, undefined, "11-13");
+    expect(youngHook.split(" ").length).toBeLessThan(olderHook.split(" ").length);
+
+    const young = personaService.buildFirstReply({ factPack: owlPack, hook: youngHook, ageBand: "4-6" });
+    const standard = personaService.buildFirstReply({ factPack: owlPack, hook: youngHook });
+    expect(young).not.toContain("flies almost silently");
+    expect(standard).toContain("flies almost silently");
+
+    const fallback = personaService.buildFallbackReply({
+      factPack: owlPack,
+      userQuestion: "Do you sleep in the day?",
+      usedFactIndexes: new Set(),
+      ageBand: "4-6",
+    });
+    expect(fallback).not.toContain("You asked");
+
+    const cache = new AudioCacheService();
+    const key = { provider: "gemini" as const, voiceName: "Puck", text: "Hoo!" };
+    expect(cache.keyFor({ ...key, ageBand: "4-6" })).not.toBe(cache.keyFor({ ...key, ageBand: "7-10" }));
+  });
+});
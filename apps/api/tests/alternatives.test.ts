@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { analysisService } from "../src/services/analysisService.js";
+import { geminiClient } from "../src/services/providers/geminiClient.js";
+import { visionService } from "../src/services/visionService.js";
+import { store } from "../src/stores/index.js";
+import type { CanonicalEntity } from "../src/types/domain.js";
+
+const desk: CanonicalEntity = {
+  entityId: "entity-desk",
+  label: "desk",
+  category: "other",
+  confidence: 0.6,
+  researchSubject: "desk",
+  roleplayName: "desk",
+  roleplayMode: "as_object",
+};
+
+const waitFor = async (check: () => boolean): Promise<void> => {
+  for (let attempt = 0; attempt < 100 && !check(); attempt += 1) {
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+};
+
+describe("detected alternatives", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("ranks safe alternatives after the chosen entity and drops duplicates", async () => {
+    vi.spyOn(geminiClient, "detectEntityFromImage").mockResolvedValue({
+      entity: desk,
+      alternatives: [
+        { entityId: "entity-lamp", label: "lamp", confidence: 0.2 },
+        { entityId: "entity-desk", label: "desk", confidence: 0.5 },
+        { entityId: "entity-weapon", label: "weapon", confidence: 0.4 },
+        { entityId: "entity-globe", label: "globe", confidence: 0.3 },
+      ],
+    });
+
+    const { candidates } = await visionService.detectEntity({ sessionId: "s", imagePath: "desk.jpg", mimeType: "image/jpeg" });
+
+    expect(candidates.map((candidate) => candidate.label)).toEqual(["desk", "globe", "lamp"]);
+  });
+
+  it("re-targets a ready analysis at a chosen candidate", async () => {
+    const analysisId = crypto.randomUUID();
+    const now = new Date().toISOString();
+    store.analyses.set(analysisId, {
+      analysisId,
+      sessionId: "session-1",
+      imageUrl: "http://localhost/v1/media/none",
+      status: "ready",
+      createdAt: now,
+      updatedAt: now,
+      entity: desk,
+      candidates: [
+        { entityId: "entity-desk", label: "desk", confidence: 0.6 },
+        { entityId: "entity-globe", label: "globe", confidence: 0.3 },
+      ],
+      conversationId: "old-conversation",
+    });
+
+    expect(() => analysisService.retargetAnalysis(analysisId, "entity-unknown")).toThrow("Unknown candidate");
+
+    analysisService.retargetAnalysis(analysisId, "entity-globe");
+    await waitFor(() => analysisService.getAnalysis(analysisId)?.status === "ready");
+
+    const retargeted = analysisService.getAnalysis(analysisId);
+    expect(retargeted?.entity?.label).toBe("globe");
+    expect(retargeted?.entity?.confidence).toBe(0.3);
+    expect(retargeted?.conversationId).toBeDefined();
+    expect(retargeted?.conversationId).not.toBe("old-conversation");
+    expect(retargeted?.progress?.map((event) => event.stage)).toEqual([
+      "entity_detected",
+      "research_ready",
+      "persona_built",
+      "audio_ready",
+    ]);
+  });
+});
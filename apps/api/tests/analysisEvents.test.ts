@@ -0,0 +1,157 @@
+import request from "supertest";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createApp } from "../src/app.js";
+import { analysisService } from "../src/services/analysisService.js";
+import { sessionService } from "../src/services/sessionService.js";
+import { store } from "../src/stores/index.js";
+import type { AnalysisProgressEvent, AnalysisResult } from "../src/types/domain.js";
+import { signResourceUrl } from "../src/utils/signedUrls.js";
+
+const seedAnalysis = (sessionId: string, status: AnalysisResult["status"], progress: AnalysisProgressEvent["stage"][]): string => {
+  const analysisId = crypto.randomUUID();
+  const now = new Date().toISOString();
+  store.analyses.set(analysisId, {
+    analysisId,
+    sessionId,
+    imageUrl: "http://localhost/v1/media/none",
+    status,
+    createdAt: now,
+    updatedAt: now,
+    progress: progress.map((stage) => ({
+      analysisId,
+      stage,
+      data: stage === "entity_detected" ? { entity: { label: "bridge" } } : {},
+      createdAt: now,
+    })),
+  });
+  return analysisId;
+};
+
+const readStream = (res: request.Response, callback: (err: Error | null, body: unknown) => void) => {
+  let text = "";
+  res.on("data", (chunk: Buffer) => {
+    text += chunk.toString();
+  });
+  res.on("end", () => callback(null, text));
+};
+
+// The path and signed query of an analysis's events URL, as `POST /v1/photo/analyze` returns it.
+const eventsPath = (analysisId: string, sessionId: string, ttlMinutes?: number): string => {
+  const url = new URL(signResourceUrl("events", analysisId, sessionId, ttlMinutes).url);
+  return `${url.pathname}${url.search}`;
+};
+
+const stagesIn = (body: string): string[] => [...body.matchAll(/^event: (\w+)$/gm)].map((match) => match[1]);
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("analysis progress stream", () => {
+  it("replays recorded stages and closes after a terminal event", async () => {
+    const app = createApp();
+    const session = sessionService.createSession({});
+    const analysisId = seedAnalysis(session.sessionId, "failed", ["uploaded", "scanning", "entity_detected", "failed"]);
+
+    const response = await request(app)
+      .get(eventsPath(analysisId, session.sessionId))
+      .buffer(true)
+      .parse(readStream)
+      .expect(200)
+      .expect("Content-Type", /text\/event-stream/);
+
+    expect(stagesIn(response.body as string)).toEqual(["uploaded", "scanning", "entity_detected", "failed"]);
+    expect(response.body as string).toContain('"label":"bridge"');
+  });
+
+  it("streams live events until the analysis settles", async () => {
+    const app = createApp();
+    const session = sessionService.createSession({});
+    const analysisId = seedAnalysis(session.sessionId, "processing", ["uploaded"]);
+
+    const pending = request(app)
+      .get(eventsPath(analysisId, session.sessionId))
+      .buffer(true)
+      .parse(readStream);
+
+    setTimeout(() => analysisService.cancelAnalysis(analysisId), 50);
+    const response = await pending;
+
+    expect(stagesIn(response.body as string)).toEqual(["uploaded", "cancelled"]);
+    expect(analysisService.getAnalysis(analysisId)?.status).toBe("cancelled");
+  });
+
+  it("closes at once for a settled analysis whose log has no terminal event", async () => {
+    const app = createApp();
+    const session = sessionService.createSession({});
+    const analysisId = seedAnalysis(session.sessionId, "ready", ["uploaded"]);
+
+    const response = await request(app).get(eventsPath(analysisId, session.sessionId)).buffer(true).parse(readStream);
+
+    expect(stagesIn(response.body as string)).toEqual(["uploaded"]);
+  });
+
+  it("fails analyses a previous run left unfinished, so their streams end", async () => {
+    const app = createApp();
+    const session = sessionService.createSession({});
+    const queued = seedAnalysis(session.sessionId, "queued", []);
+    const processing = seedAnalysis(session.sessionId, "processing", ["uploaded", "scanning"]);
+    const ready = seedAnalysis(session.sessionId, "ready", ["uploaded", "audio_ready"]);
+
+    expect(analysisService.failInterrupted()).toBeGreaterThanOrEqual(2);
+
+    expect(analysisService.getAnalysis(queued)).toMatchObject({ status: "failed", error: "Interrupted by a server restart" });
+    expect(analysisService.getAnalysis(processing)?.status).toBe("failed");
+    expect(analysisService.getAnalysis(ready)?.status).toBe("ready");
+    const response = await request(app).get(eventsPath(processing, session.sessionId)).buffer(true).parse(readStream);
+    expect(stagesIn(response.body as string)).toEqual(["uploaded", "scanning", "failed"]);
+  });
+
+  it("rejects streams for another session's analysis", async () => {
+    const app = createApp();
+    const owner = sessionService.createSession({});
+    const other = sessionService.createSession({});
+    const analysisId = seedAnalysis(owner.sessionId, "processing", []);
+
+    await request(app).get(eventsPath(analysisId, other.sessionId)).expect(403);
+  });
+
+  it("opens streams only from an unexpired signed URL, never a session token in the query", async () => {
+    const app = createApp();
+    const session = sessionService.createSession({});
+    const analysisId = seedAnalysis(session.sessionId, "processing", []);
+
+    await request(app)
+      .get(`/v1/photo/analyze/${analysisId}/events`)
+      .query({ session_id: session.sessionId, token: session.token })
+      .expect(403);
+    await request(app).get(eventsPath(analysisId, session.sessionId, -1)).expect(403);
+    await request(app)
+      .get(`/v1/photo/analyze/${analysisId}`)
+      .query({ session_id: session.sessionId, token: session.token })
+      .expect(401);
+    await request(app)
+      .get(`/v1/photo/analyze/${analysisId}`)
+      .set("x-session-id", session.sessionId)
+      .set("x-session-token", session.token)
+      .expect(200);
+  });
+
+  it("hands out the signed events URL when an analysis starts", async () => {
+    const app = createApp();
+    const session = sessionService.createSession({});
+    vi.spyOn(analysisService, "createAnalysis").mockReturnValue({ analysisId: "analysis-events", status: "queued" } as AnalysisResult);
+
+    const response = await request(app)
+      .post("/v1/photo/analyze")
+      .set("x-session-id", session.sessionId)
+      .set("x-session-token", session.token)
+      .send({ session_id: session.sessionId, image_url: "http://localhost/v1/media/none" })
+      .expect(202);
+
+    const url = new URL(response.body.events_url as string);
+    expect(url.pathname).toBe("/v1/photo/analyze/analysis-events/events");
+    expect(url.searchParams.get("sid")).toBe(session.sessionId);
+    expect(url.searchParams.has("token")).toBe(false);
+  });
+});
@@ -0,0 +1,84 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import request from "supertest";
+import { afterEach, describe, expect, it } from "vitest";
+import { createApp } from "../src/app.js";
+import { AudioCacheService } from "../src/services/audioCacheService.js";
+import { store } from "../src/stores/index.js";
+import { signResourceUrl } from "../src/utils/signedUrls.js";
+
+const tempDirs: string[] = [];
+
+const makeCache = (maxBytes: number) => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "wondertalk-audio-cache-"));
+  tempDirs.push(dir);
+  return new AudioCacheService(dir, maxBytes);
+};
+
+const saveTo = (cache: AudioCacheService, cacheKey: string) =>
+  cache.save({
+    cacheKey,
+    provider: "gemini",
+    voiceName: "Leda",
+    audio: Buffer.alloc(6),
+    contentType: "audio/wav",
+    extension: "wav",
+  });
+
+afterEach(() => {
+  for (const dir of tempDirs.splice(0)) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+describe("audioCacheService", () => {
+  it("keys on normalized text, provider, voice and style", () => {
+    const cache = makeCache(1024);
+    const base = { provider: "gemini" as const, voiceName: "Leda", styleInstruction: "playful", text: "Hi there!" };
+
+    expect(cache.keyFor(base)).toBe(cache.keyFor({ ...base, text: "  Hi   there! " }));
+    expect(cache.keyFor(base)).not.toBe(cache.keyFor({ ...base, voiceName: "Kore" }));
+    expect(cache.keyFor(base)).not.toBe(cache.keyFor({ ...base, styleInstruction: "wise" }));
+    expect(cache.keyFor(base)).not.toBe(cache.keyFor({ ...base, provider: "elevenlabs" }));
+  });
+
+  it("counts hits and misses and evicts least recently used audio over budget", async () => {
+    const cache = makeCache(10);
+    const save = (cacheKey: string) => saveTo(cache, cacheKey);
+
+    const first = await save("first-key");
+    expect(await cache.findFirst(["missing-key"])).toBeNull();
+    expect((await cache.findFirst(["missing-key", "first-key"]))?.cacheKey).toBe("first-key");
+
+    await save("second-key");
+
+    expect(fs.existsSync(first.filePath)).toBe(false);
+    expect(await cache.findFirst(["first-key"])).toBeNull();
+
+    const stats = cache.getStats();
+    expect(stats.hits).toBe(1);
+    expect(stats.misses).toBe(2);
+    expect(stats.bytes).toBe(6);
+  });
+
+  it("keeps audio that a voice asset still plays from, so replaying it after eviction works", async () => {
+    const cache = makeCache(10);
+    const replayed = await saveTo(cache, "replayed-key");
+    store.voiceAssets.set("replayed-audio", {
+      audioId: "replayed-audio",
+      contentType: replayed.contentType,
+      filePath: replayed.filePath,
+      createdAt: new Date().toISOString(),
+      cacheKey: replayed.cacheKey,
+    });
+
+    const unreferenced = await saveTo(cache, "unreferenced-key");
+    await saveTo(cache, "newest-key");
+
+    expect(fs.existsSync(unreferenced.filePath)).toBe(false);
+    expect(fs.existsSync(replayed.filePath)).toBe(true);
+    const { url } = signResourceUrl("audio", "replayed-audio", "session-1");
+    await request(createApp()).get(`/v1/audio/replayed-audio${new URL(url).search}`).expect(200).expect("Content-Type", /audio\/wav/);
+  });
+});
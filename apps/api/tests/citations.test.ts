@@ -0,0 +1,157 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { adminService } from "../src/services/adminService.js";
+import { lexicalSupport } from "../src/services/citationService.js";
+import { HttpCitationFetcher, readableText } from "../src/services/providers/citationFetcher.js";
+import { geminiClient } from "../src/services/providers/geminiClient.js";
+import { researchService } from "../src/services/researchService.js";
+import { store } from "../src/stores/index.js";
+import { defaultPolicy } from "../src/stores/store.js";
+import type { CanonicalEntity } from "../src/types/domain.js";
+
+const moon: CanonicalEntity = {
+  entityId: "entity-moon",
+  label: "Moon",
+  category: "science",
+  confidence: 0.9,
+  researchSubject: "Moon",
+  roleplayName: "Moon",
+  roleplayMode: "as_object",
+};
+
+const fact = (claim: string, sourceUrl: string, confidence = 0.8) => ({
+  claim,
+  confidence,
+  sourceUrls: [sourceUrl],
+  freshnessDate: "2026-01-01",
+});
+
+const mockResearch = () =>
+  vi.spyOn(geminiClient, "deepResearch").mockResolvedValue({
+    summary: "The Moon is our closest neighbour.",
+    facts: [
+      fact("The Moon is the tallest volcano in the solar system.", "https://www.nasa.gov/moon/"),
+      fact("Astronauts' footprints can last millions of years because the Moon has no wind.", "https://www.nasa.gov/moon/"),
+      fact("The Moon has its own weather reports.", "https://www.nasa.gov/missing-page/"),
+    ],
+  });
+
+beforeEach(() => {
+  researchService.invalidateAll();
+  store.setPolicy(defaultPolicy());
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("citation verification", () => {
+  it("reads page prose and scores claims by overlap", () => {
+    const text = readableText(
+      "<nav>Home Planets</nav><script>var x = 1;</script><p>Twelve astronauts walked on the Moon&#39;s surface &amp; came home.</p>",
+    );
+    expect(text).toBe("Twelve astronauts walked on the Moon's surface & came home.");
+    expect(readableText("<p>Out of range: &#x110000; &#99999999999;</p>")).toBe("Out of range: \uFFFD \uFFFD.");
+
+    expect(lexicalSupport("Twelve astronauts have walked on the Moon.", text).score).toBe(1);
+    expect(lexicalSupport("The Moon is made of green cheese.", text).score).toBeLessThan(0.5);
+  });
+
+  it("marks each fact and leads with verified ones, down-weighting the rest by default", async () => {
+    mockResearch();
+
+    const pack = await researchService.getFactPack(moon);
+
+    expect(pack.facts.map((item) => item.verification?.status)).toEqual(["verified", "unsupported", "unreachable"]);
+    expect(pack.facts[0].verification?.supportingUrl).toBe("https://www.nasa.gov/moon/");
+    expect(pack.facts[0].confidence).toBe(0.8);
+    expect(pack.facts[1].confidence).toBe(0.4);
+    expect(pack.facts[1].verification?.originalConfidence).toBe(0.8);
+  });
+
+  it("drops unverified facts when the policy says so and refreshes packs cached under the old policy", async () => {
+    mockResearch();
+    await researchService.getFactPack(moon);
+    expect(researchService.listCachedPacks()).toHaveLength(1);
+
+    adminService.updatePolicy({ unverifiedFactAction: "drop" });
+    expect(researchService.listCachedPacks()).toHaveLength(0);
+
+    const pack = await researchService.getFactPack(moon);
+    expect(pack.facts.map((item) => item.claim)).toEqual([
+      "Astronauts' footprints can last millions of years because the Moon has no wind.",
+    ]);
+  });
+});
+
+describe("HttpCitationFetcher", () => {
+  it("caches pages and treats errors and non-text responses as missing", async () => {
+    let hits = 0;
+    const server = http.createServer((req, res) => {
+      hits += 1;
+      if (req.url === "/page") {
+        res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+        res.end("<html><body><p>Volcanoes erupt molten rock.</p></body></html>");
+      } else if (req.url === "/report.pdf") {
+        res.writeHead(200, { "Content-Type": "application/pdf" });
+        res.end("%PDF-1.4");
+      } else {
+        res.writeHead(404).end();
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    const fetcher = new HttpCitationFetcher({ timeoutMs: 2000, cacheTtlMs: 60_000, maxBytes: 64 * 1024 });
+    const anywhere = { fetchable: () => true };
+
+    try {
+      expect((await fetcher.fetchPage(`${base}/page`, anywhere))?.text).toBe("Volcanoes erupt molten rock.");
+      await fetcher.fetchPage(`${base}/page`, anywhere);
+      expect(hits).toBe(1);
+
+      expect(await fetcher.fetchPage(`${base}/gone`, anywhere)).toBeNull();
+      expect(await fetcher.fetchPage(`${base}/report.pdf`, anywhere)).toBeNull();
+
+      // A cancelled job's fetch rejects and is not remembered as a dead link.
+      const fresh = new HttpCitationFetcher({ timeoutMs: 2000, cacheTtlMs: 60_000, maxBytes: 64 * 1024 });
+      await expect(
+        fresh.fetchPage(`${base}/page`, { ...anywhere, signal: AbortSignal.abort(new Error("Job cancelled")) }),
+      ).rejects.toThrow("Job cancelled");
+      expect((await fresh.fetchPage(`${base}/page`, anywhere))?.text).toBe("Volcanoes erupt molten rock.");
+    } finally {
+      server.close();
+    }
+  });
+
+  it("holds every redirect to the allowed domains and gives up on long chains", async () => {
+    const server = http.createServer((req, res) => {
+      const port = (server.address() as AddressInfo).port;
+      if (req.url === "/page") {
+        res.writeHead(200, { "Content-Type": "text/html" });
+        res.end("<p>Volcanoes erupt molten rock.</p>");
+      } else if (req.url === "/moved") {
+        res.writeHead(301, { Location: "/page" }).end();
+      } else if (req.url === "/elsewhere") {
+        res.writeHead(302, { Location: `http://localhost:${port}/page` }).end();
+      } else {
+        res.writeHead(302, { Location: "/loop" }).end();
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    const fetcher = new HttpCitationFetcher({ timeoutMs: 2000, cacheTtlMs: 60_000, maxBytes: 64 * 1024 });
+    const fetchable = (url: string) => new URL(url).hostname === "127.0.0.1";
+
+    try {
+      expect(await fetcher.fetchPage(`${base}/moved`, { fetchable })).toEqual({
+        url: `${base}/page`,
+        text: "Volcanoes erupt molten rock.",
+      });
+      expect(await fetcher.fetchPage(`${base}/elsewhere`, { fetchable })).toBeNull();
+      expect(await fetcher.fetchPage(`${base}/loop`, { fetchable })).toBeNull();
+    } finally {
+      server.close();
+    }
+  });
+});
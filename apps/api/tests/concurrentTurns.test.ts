@@ -0,0 +1,111 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { CanonicalEntity, ConversationState } from "../src/types/domain.js";
+
+// Every other service test runs on the in-memory driver, whose get() hands back the live object. SQLite returns
+// snapshots, which is where a read, await, then write loses another request's changes.
+vi.hoisted(() => {
+  process.env.STORE_DRIVER = "sqlite";
+  process.env.SQLITE_PATH = ":memory:";
+});
+
+const { conversationService, OPENING_TURN_INPUT } = await import("../src/services/conversationService.js");
+const { personaService } = await import("../src/services/personaService.js");
+const { geminiClient } = await import("../src/services/providers/geminiClient.js");
+const { researchService } = await import("../src/services/researchService.js");
+const { sessionService } = await import("../src/services/sessionService.js");
+const { store } = await import("../src/stores/index.js");
+const { SqliteStore } = await import("../src/stores/sqliteStore.js");
+
+const entity: CanonicalEntity = {
+  entityId: "entity-comet",
+  label: "Comet",
+  category: "science",
+  confidence: 0.9,
+  researchSubject: "Comet",
+  roleplayName: "Comet",
+  roleplayMode: "as_object",
+};
+
+const fact = (claim: string) => ({
+  claim,
+  confidence: 0.9,
+  sourceUrls: ["https://www.nasa.gov"],
+  freshnessDate: "2026-01-01",
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("concurrent writes on the sqlite store", () => {
+  it("runs on the sqlite driver", () => {
+    expect(store).toBeInstanceOf(SqliteStore);
+  });
+
+  it("keeps both turns and every used fact when two turns overlap", async () => {
+    const session = sessionService.createSession({});
+    const now = new Date().toISOString();
+    const conversation: ConversationState = {
+      conversationId: crypto.randomUUID(),
+      sessionId: session.sessionId,
+      entity,
+      factPack: {
+        entity,
+        summary: "A dirty snowball in space.",
+        generatedAt: now,
+        facts: [fact("I have a tail."), fact("I am made of ice."), fact("I orbit the Sun."), fact("I glow near the Sun.")],
+      },
+      persona: personaService.buildPersona(entity),
+      usedFactIndexes: new Set([0]),
+      turns: [{ turnId: crypto.randomUUID(), userInput: OPENING_TURN_INPUT, assistantText: "Whoosh!", safetyVerdict: "allow", createdAt: now }],
+      createdAt: now,
+      updatedAt: now,
+    };
+    store.conversations.set(conversation.conversationId, conversation);
+
+    // Both drafts wait until both turns have read the conversation.
+    let release!: () => void;
+    const bothRead = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    let waiting = 0;
+    vi.spyOn(geminiClient, "generateFollowupReply").mockImplementation(async () => {
+      waiting += 1;
+      if (waiting === 2) {
+        release();
+      }
+      await bothRead;
+      return null;
+    });
+
+    const turnInput = { sessionId: session.sessionId, conversationId: conversation.conversationId };
+    const [first, second] = await Promise.all([
+      conversationService.chatTurn({ ...turnInput, text: "Why do you have a tail?" }),
+      conversationService.chatTurn({ ...turnInput, text: "Are you cold?" }),
+    ]);
+
+    const stored = store.conversations.get(conversation.conversationId);
+    expect(stored?.turns.map((turn) => turn.turnId)).toEqual([
+      conversation.turns[0].turnId,
+      first.turn.turnId,
+      second.turn.turnId,
+    ]);
+    expect(stored?.usedFactIndexes.size).toBeGreaterThan(2);
+  });
+
+  it("does not overwrite a pack a reviewer approved while research ran", async () => {
+    researchService.invalidateAll();
+    const draft = await researchService.getFactPack(entity);
+    const [{ key }] = researchService.listCachedPacks();
+
+    vi.spyOn(geminiClient, "deepResearch").mockImplementation(async () => {
+      researchService.setReviewStatus(key, { status: "approved", reviewer: "editor" });
+      return null;
+    });
+    const served = await researchService.getFactPack(entity, { refresh: true });
+
+    expect(served.review?.status).toBe("approved");
+    expect(served.generatedAt).toBe(draft.generatedAt);
+    expect(researchService.listCachedPacks()[0]).toMatchObject({ reviewStatus: "approved", pinned: true });
+  });
+});
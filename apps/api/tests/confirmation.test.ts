@@ -0,0 +1,184 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { analysisService } from "../src/services/analysisService.js";
+import { conversationService, OPENING_TURN_INPUT } from "../src/services/conversationService.js";
+import { ingestionService } from "../src/services/ingestionService.js";
+import { geminiClient } from "../src/services/providers/geminiClient.js";
+import { store } from "../src/stores/index.js";
+import type { CanonicalEntity, EntityCandidate } from "../src/types/domain.js";
+
+const sparrow: CanonicalEntity = {
+  entityId: "entity-sparrow",
+  label: "sparrow",
+  category: "animal",
+  confidence: 0.3,
+  researchSubject: "sparrow",
+  roleplayName: "sparrow",
+  roleplayMode: "as_character",
+};
+
+const guesses: EntityCandidate[] = [
+  { entityId: "entity-sparrow", label: "sparrow", confidence: 0.3 },
+  { entityId: "entity-robin", label: "robin", confidence: 0.25 },
+];
+
+const waitFor = async (check: () => boolean): Promise<void> => {
+  for (let attempt = 0; attempt < 100 && !check(); attempt += 1) {
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+};
+
+const seedGuessingGame = (sessionId: string) => {
+  const analysisId = crypto.randomUUID();
+  const conversationId = crypto.randomUUID();
+  const now = new Date().toISOString();
+
+  store.analyses.set(analysisId, {
+    analysisId,
+    sessionId,
+    imageUrl: "http://localhost/v1/media/none",
+    status: "needs_confirmation",
+    createdAt: now,
+    updatedAt: now,
+    entity: sparrow,
+    candidates: guesses,
+    conversationId,
+  });
+  store.conversations.set(conversationId, {
+    conversationId,
+    sessionId,
+    entity: sparrow,
+    factPack: { entity: sparrow, facts: [], summary: "", generatedAt: now },
+    persona: { voiceArchetype: "playful", speakingStyle: "curious", hookTemplateId: "hook" },
+    usedFactIndexes: new Set(),
+    turns: [
+      {
+        turnId: crypto.randomUUID(),
+        userInput: OPENING_TURN_INPUT,
+        assistantText: "Am I a sparrow or a robin?",
+        safetyVerdict: "allow",
+        createdAt: now,
+      },
+    ],
+    pendingConfirmation: { analysisId, candidates: guesses },
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  return { analysisId, conversationId };
+};
+
+describe("low-confidence confirmation", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("opens with a guessing game when the entity is below the policy threshold", async () => {
+    vi.spyOn(geminiClient, "detectEntityFromImage").mockResolvedValue({
+      entity: sparrow,
+      alternatives: [{ entityId: "entity-robin", label: "robin", confidence: 0.25 }],
+    });
+    vi.spyOn(ingestionService, "malwareScan").mockResolvedValue(null);
+    vi.spyOn(ingestionService, "preprocessImage").mockResolvedValue({ normalizedPath: "bird.jpg", qualityIssue: null });
+    vi.spyOn(ingestionService, "perceptualHash").mockResolvedValue("0f0f0f0f0f0f0f0f");
+    vi.spyOn(ingestionService, "detectFaces").mockResolvedValue([]);
+
+    const uploadId = crypto.randomUUID();
+    store.uploads.set(uploadId, {
+      uploadId,
+      sessionId: "session-guess",
+      createdAt: new Date().toISOString(),
+      expiresAt: new Date(Date.now() + 60_000).toISOString(),
+      consumed: true,
+      filePath: "bird.jpg",
+      mimeType: "image/jpeg",
+    });
+
+    const analysis = analysisService.createAnalysis({
+      sessionId: "session-guess",
+      imageUrl: `http://localhost/v1/media/${uploadId}`,
+    });
+    await waitFor(() => analysisService.getAnalysis(analysis.analysisId)?.status === "needs_confirmation");
+
+    const settled = analysisService.getAnalysis(analysis.analysisId);
+    expect(settled?.status).toBe("needs_confirmation");
+    expect(settled?.firstReplyText).toContain("Am I a sparrow or a robin?");
+    expect(settled?.progress?.map((event) => event.stage)).not.toContain("research_ready");
+
+    const conversation = store.conversations.get(settled?.conversationId ?? "");
+    expect(conversation?.pendingConfirmation?.candidates.map((candidate) => candidate.label)).toEqual(["sparrow", "robin"]);
+  });
+
+  it("starts the guessing game for a subject only the filename fallback could name", async () => {
+    vi.spyOn(ingestionService, "malwareScan").mockResolvedValue(null);
+    vi.spyOn(ingestionService, "preprocessImage").mockResolvedValue({ normalizedPath: "robot.jpg", qualityIssue: null });
+    vi.spyOn(ingestionService, "perceptualHash").mockResolvedValue("f0f0f0f0f0f0f0f0");
+    vi.spyOn(ingestionService, "detectFaces").mockResolvedValue([]);
+
+    const uploadId = crypto.randomUUID();
+    store.uploads.set(uploadId, {
+      uploadId,
+      sessionId: "session-fallback",
+      createdAt: new Date().toISOString(),
+      expiresAt: new Date(Date.now() + 60_000).toISOString(),
+      consumed: true,
+      filePath: "robot.jpg",
+      mimeType: "image/jpeg",
+    });
+
+    const analysis = analysisService.createAnalysis({
+      sessionId: "session-fallback",
+      imageUrl: `http://localhost/v1/media/${uploadId}`,
+    });
+    await waitFor(() => analysisService.getAnalysis(analysis.analysisId)?.status === "needs_confirmation");
+
+    const settled = analysisService.getAnalysis(analysis.analysisId);
+    expect(settled?.status).toBe("needs_confirmation");
+    expect(settled?.entity).toMatchObject({ detectedLabel: "robot", confidence: 0.42 });
+  });
+
+  it("locks in the entity the child names and runs research", async () => {
+    const { analysisId, conversationId } = seedGuessingGame("session-answer");
+
+    const result = await conversationService.chatTurn({
+      sessionId: "session-answer",
+      conversationId,
+      text: "You're a robin!",
+    });
+
+    const conversation = store.conversations.get(conversationId);
+    expect(conversation?.pendingConfirmation).toBeUndefined();
+    expect(conversation?.entity.label).toBe("robin");
+    expect(conversation?.entity.confidence).toBe(1);
+    expect(conversation?.factPack.facts.length).toBeGreaterThan(0);
+    expect(result.turn.assistantText.length).toBeGreaterThan(0);
+
+    const analysis = store.analyses.get(analysisId);
+    expect(analysis?.status).toBe("ready");
+    expect(analysis?.entity?.label).toBe("robin");
+  });
+
+  it("leaves a cancelled analysis cancelled when the child answers afterwards", async () => {
+    const { analysisId, conversationId } = seedGuessingGame("session-cancelled");
+    store.analyses.update(analysisId, (current) => current && { ...current, status: "cancelled" });
+
+    await conversationService.chatTurn({ sessionId: "session-cancelled", conversationId, text: "You're a robin!" });
+
+    expect(store.conversations.get(conversationId)?.entity.label).toBe("robin");
+    expect(store.analyses.get(analysisId)).toMatchObject({ status: "cancelled", entity: { label: "sparrow" } });
+  });
+
+  it("asks again when the answer cannot be used", async () => {
+    const { analysisId, conversationId } = seedGuessingGame("session-retry");
+
+    const result = await conversationService.chatTurn({
+      sessionId: "session-retry",
+      conversationId,
+      text: "You're a weapon",
+    });
+
+    expect(result.turn.assistantText).toContain("Am I a sparrow or a robin?");
+    expect(result.followupSuggestions).toEqual(["You're sparrow!", "You're robin!"]);
+    expect(store.conversations.get(conversationId)?.pendingConfirmation).toBeDefined();
+    expect(store.analyses.get(analysisId)?.status).toBe("needs_confirmation");
+  });
+});
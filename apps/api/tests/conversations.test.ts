@@ -0,0 +1,124 @@
+import request from "supertest";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createApp } from "../src/app.js";
+import { OPENING_TURN_INPUT } from "../src/services/conversationService.js";
+import { personaService } from "../src/services/personaService.js";
+import { sessionService } from "../src/services/sessionService.js";
+import { voiceService } from "../src/services/voiceService.js";
+import { store } from "../src/stores/index.js";
+import type { CanonicalEntity, ConversationState } from "../src/types/domain.js";
+
+const entity: CanonicalEntity = {
+  entityId: "volcano",
+  label: "volcano",
+  category: "nature",
+  confidence: 0.9,
+  researchSubject: "volcano",
+  roleplayName: "Volcano",
+  roleplayMode: "as_object",
+};
+
+const seedConversation = (input: { sessionId: string; childId?: string; updatedAt: string }): ConversationState => {
+  const conversation: ConversationState = {
+    conversationId: crypto.randomUUID(),
+    sessionId: input.sessionId,
+    childId: input.childId,
+    entity,
+    factPack: { entity, facts: [], summary: "A mountain that erupts.", generatedAt: input.updatedAt },
+    persona: personaService.buildPersona(entity),
+    usedFactIndexes: new Set([0]),
+    turns: [
+      {
+        turnId: crypto.randomUUID(),
+        userInput: OPENING_TURN_INPUT,
+        assistantText: "Rumble! I'm a volcano.",
+        safetyVerdict: "allow",
+        audioId: "missing-audio",
+        createdAt: input.updatedAt,
+      },
+      {
+        turnId: crypto.randomUUID(),
+        userInput: "Are you hot?",
+        assistantText: "Very hot inside!",
+        safetyVerdict: "allow",
+        createdAt: input.updatedAt,
+      },
+    ],
+    createdAt: input.updatedAt,
+    updatedAt: input.updatedAt,
+  };
+
+  store.conversations.set(conversation.conversationId, conversation);
+  return conversation;
+};
+
+const authed = (session: { sessionId: string; token: string }) => ({
+  "x-session-id": session.sessionId,
+  "x-session-token": session.token,
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("conversation listing and resume", () => {
+  it("lists a session's conversations newest first and hides other sessions", async () => {
+    const app = createApp();
+    const session = sessionService.createSession({});
+    const other = sessionService.createSession({});
+    const older = seedConversation({ sessionId: session.sessionId, updatedAt: "2026-01-01T00:00:00.000Z" });
+    const newer = seedConversation({ sessionId: session.sessionId, updatedAt: "2026-01-02T00:00:00.000Z" });
+    const foreign = seedConversation({ sessionId: other.sessionId, updatedAt: "2026-01-03T00:00:00.000Z" });
+
+    const list = await request(app).get("/v1/conversations").set(authed(session)).expect(200);
+    expect(list.body.conversations.map((item: { conversation_id: string }) => item.conversation_id)).toEqual([
+      newer.conversationId,
+      older.conversationId,
+    ]);
+
+    await request(app).get(`/v1/conversations/${foreign.conversationId}`).set(authed(session)).expect(404);
+
+    const detail = await request(app).get(`/v1/conversations/${newer.conversationId}`).set(authed(session)).expect(200);
+    expect(detail.body.entity.label).toBe("volcano");
+    expect(detail.body.turns[0]).toMatchObject({ user_input: null, safety_verdict: "allow" });
+    expect(detail.body.turns[0].audio_url).toBeUndefined();
+    expect(detail.body.turns[1].user_input).toBe("Are you hot?");
+  });
+
+  it("lets a child resume conversations from an earlier session", async () => {
+    const app = createApp();
+    const earlier = sessionService.createSession({ childId: "child-1" });
+    const later = sessionService.createSession({ childId: "child-1" });
+    const conversation = seedConversation({ sessionId: earlier.sessionId, childId: "child-1", updatedAt: new Date().toISOString() });
+
+    const list = await request(app).get("/v1/conversations").set(authed(later)).expect(200);
+    expect(list.body.conversations[0].conversation_id).toBe(conversation.conversationId);
+    await request(app).get(`/v1/conversations/${conversation.conversationId}`).set(authed(later)).expect(200);
+  });
+
+  it("speaks audio again that retention removed before the conversation was resumed", async () => {
+    const app = createApp();
+    const session = sessionService.createSession({});
+    const conversation = seedConversation({ sessionId: session.sessionId, updatedAt: new Date().toISOString() });
+    const synthesize = vi.spyOn(voiceService, "synthesizeToAsset").mockImplementation(async (input) => {
+      store.voiceAssets.set("respoken-audio", {
+        audioId: "respoken-audio",
+        contentType: "audio/mpeg",
+        filePath: "/tmp/respoken-audio.mp3",
+        createdAt: new Date().toISOString(),
+      });
+      return { audioId: "respoken-audio", streamUrl: `http://localhost/v1/audio/respoken-audio?session=${input.sessionId}` };
+    });
+
+    const detail = await request(app).get(`/v1/conversations/${conversation.conversationId}`).set(authed(session)).expect(200);
+
+    // Only the opening had audio; the second turn never did and stays silent.
+    expect(synthesize).toHaveBeenCalledTimes(1);
+    expect(synthesize).toHaveBeenCalledWith(
+      expect.objectContaining({ text: "Rumble! I'm a volcano.", archetype: conversation.persona.voiceArchetype }),
+    );
+    expect(detail.body.turns[0].audio_url).toContain("/v1/audio/respoken-audio");
+    expect(detail.body.turns[1].audio_url).toBeUndefined();
+    expect(store.conversations.get(conversation.conversationId)?.turns[0].audioId).toBe("respoken-audio");
+  });
+});
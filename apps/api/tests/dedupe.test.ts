@@ -0,0 +1,115 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import sharp from "sharp";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { analysisService } from "../src/services/analysisService.js";
+import { hammingDistance, ingestionService } from "../src/services/ingestionService.js";
+import { geminiClient } from "../src/services/providers/geminiClient.js";
+import { researchService } from "../src/services/researchService.js";
+import { store } from "../src/stores/index.js";
+import { defaultPolicy } from "../src/stores/store.js";
+
+const tempDirs: string[] = [];
+
+const writePattern = async (name: string, pixel: (x: number, y: number) => number, quality = 90): Promise<string> => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "wondertalk-dedupe-"));
+  tempDirs.push(dir);
+
+  const size = 256;
+  const raw = Buffer.alloc(size * size * 3);
+  for (let y = 0; y < size; y += 1) {
+    for (let x = 0; x < size; x += 1) {
+      raw.fill(pixel(x, y), (y * size + x) * 3, (y * size + x) * 3 + 3);
+    }
+  }
+
+  const filePath = path.join(dir, name);
+  await sharp(raw, { raw: { width: size, height: size, channels: 3 } }).jpeg({ quality }).toFile(filePath);
+  return filePath;
+};
+
+const stripes = (x: number, y: number) => (Math.floor(x / 12) % 2 === 0 ? 40 : 210) + (y % 3);
+const checks = (x: number, y: number) => ((Math.floor(x / 24) + Math.floor(y / 8)) % 2 === 0 ? 30 : 220);
+
+const waitFor = async (check: () => boolean): Promise<void> => {
+  for (let attempt = 0; attempt < 150 && !check(); attempt += 1) {
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+};
+
+const analyze = async (sessionId: string, filePath: string) => {
+  const uploadId = crypto.randomUUID();
+  store.uploads.set(uploadId, {
+    uploadId,
+    sessionId,
+    createdAt: new Date().toISOString(),
+    expiresAt: new Date(Date.now() + 60_000).toISOString(),
+    consumed: true,
+    filePath,
+    mimeType: "image/jpeg",
+  });
+
+  const { analysisId } = analysisService.createAnalysis({ sessionId, imageUrl: `http://localhost/v1/media/${uploadId}` });
+  await waitFor(() => analysisService.getAnalysis(analysisId)?.status === "ready");
+  return analysisService.getAnalysis(analysisId);
+};
+
+// These photos are named by the filename fallback, whose confidence would otherwise start a guessing game.
+beforeEach(() => {
+  store.setPolicy({ ...defaultPolicy(), minEntityConfidence: 0.4 });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  store.setPolicy(defaultPolicy());
+  for (const dir of tempDirs.splice(0)) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+describe("perceptual dedupe", () => {
+  it("keeps recompressed copies close and different pictures apart", async () => {
+    const original = await ingestionService.perceptualHash(await writePattern("a.jpg", stripes));
+    const recompressed = await ingestionService.perceptualHash(await writePattern("b.jpg", stripes, 40));
+    const different = await ingestionService.perceptualHash(await writePattern("c.jpg", checks));
+
+    expect(original).toMatch(/^[0-9a-f]{16}$/);
+    expect(hammingDistance(original, recompressed)).toBeLessThanOrEqual(6);
+    expect(hammingDistance(original, different)).toBeGreaterThan(6);
+  });
+
+  it("reuses the earlier entity and fact pack for a repeat photo in the same session", async () => {
+    const getFactPack = vi.spyOn(researchService, "getFactPack");
+    const deepResearch = vi.spyOn(geminiClient, "deepResearch");
+
+    const first = await analyze("session-dedupe", await writePattern("teddy-bear.jpg", stripes));
+    const second = await analyze("session-dedupe", await writePattern("teddy-bear.jpg", stripes, 50));
+
+    expect(second?.status).toBe("ready");
+    expect(second?.entity).toEqual(first?.entity);
+    // The repeat photo re-resolves its pack so it sees any review since, but from the cache rather than new research.
+    expect(getFactPack).toHaveBeenCalledTimes(2);
+    expect(deepResearch).toHaveBeenCalledTimes(1);
+    expect(second?.progress?.find((event) => event.stage === "entity_detected")?.data.duplicate_of).toBe(first?.analysisId);
+
+    const firstConversation = store.conversations.get(first?.conversationId ?? "");
+    const secondConversation = store.conversations.get(second?.conversationId ?? "");
+    const firstOpeningFacts = firstConversation?.factPack.facts.slice(0, 2).map((fact) => fact.claim);
+    expect(firstOpeningFacts).not.toContain(secondConversation?.factPack.facts[0]?.claim);
+    expect(second?.hookText).not.toBe(first?.hookText);
+
+    const fingerprint = store.imageFingerprints.get(first?.analysisId ?? "");
+    expect(fingerprint?.conversationIds).toEqual([first?.conversationId, second?.conversationId]);
+    expect(
+      store.analytics.list().some((event) => event.eventName === "dedupe_hit" && event.metadata.analysisId === second?.analysisId),
+    ).toBe(true);
+  });
+
+  it("does not match photos from another session", async () => {
+    await analyze("session-one", await writePattern("robot.jpg", checks));
+    const other = await analyze("session-two", await writePattern("robot.jpg", checks));
+
+    expect(other?.progress?.find((event) => event.stage === "entity_detected")?.data.duplicate_of).toBeUndefined();
+  });
+});
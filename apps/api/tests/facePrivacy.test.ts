@@ -0,0 +1,145 @@
+import fs from "node:fs";
+import { createRequire } from "node:module";
+import os from "node:os";
+import path from "node:path";
+import sharp from "sharp";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { analysisService } from "../src/services/analysisService.js";
+import { ingestionService } from "../src/services/ingestionService.js";
+import { faceDetector } from "../src/services/providers/faceDetector.js";
+import { geminiClient } from "../src/services/providers/geminiClient.js";
+import { store } from "../src/stores/index.js";
+import type { CanonicalEntity } from "../src/types/domain.js";
+
+const tempDirs: string[] = [];
+
+// Real photos from tracking.js's examples: three people side by side (600x346), and a hand holding a controller.
+const fixtures = {
+  group: createRequire(import.meta.url).resolve("tracking/examples/assets/faces.jpg"),
+  hand: createRequire(import.meta.url).resolve("tracking/test/assets/psmove.png"),
+};
+
+const writeImage = async (name: string, fixture: string): Promise<string> => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "wondertalk-faces-"));
+  tempDirs.push(dir);
+  const filePath = path.join(dir, name);
+  await sharp(fixture).jpeg().toFile(filePath);
+  return filePath;
+};
+
+// Eyes and mouth make the middle face high-contrast; blurring flattens it.
+const faceContrast = async (filePath: string): Promise<number> => {
+  const { data, info } = await sharp(filePath)
+    .extract({ left: 245, top: 140, width: 65, height: 95 })
+    .greyscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const values = Array.from(data.subarray(0, info.width * info.height));
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length);
+};
+
+const entity = (overrides: Partial<CanonicalEntity>): CanonicalEntity => ({
+  entityId: "entity-kid",
+  label: "kid",
+  category: "other",
+  confidence: 0.9,
+  researchSubject: "kid",
+  roleplayName: "kid",
+  roleplayMode: "as_object",
+  ...overrides,
+});
+
+const analyze = async (sessionId: string, filePath: string) => {
+  const uploadId = crypto.randomUUID();
+  store.uploads.set(uploadId, {
+    uploadId,
+    sessionId,
+    createdAt: new Date().toISOString(),
+    expiresAt: new Date(Date.now() + 60_000).toISOString(),
+    consumed: true,
+    filePath,
+    mimeType: "image/jpeg",
+  });
+
+  const { analysisId } = analysisService.createAnalysis({ sessionId, imageUrl: `http://localhost/v1/media/${uploadId}` });
+  for (let attempt = 0; attempt < 150; attempt += 1) {
+    const status = analysisService.getAnalysis(analysisId)?.status;
+    if (status === "ready" || status === "failed") {
+      break;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+
+  return analysisService.getAnalysis(analysisId);
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  store.setPolicy({ ...store.getPolicy(), enforceFaceBlur: true });
+  for (const dir of tempDirs.splice(0)) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+describe("face privacy stage", () => {
+  it("finds each face in a group photo but none in a photo of a hand", async () => {
+    const faces = await faceDetector.detect(fs.readFileSync(fixtures.group));
+    expect(faces.map((face) => Math.round(face.left * 600)).sort((a, b) => a - b)).toEqual([
+      expect.closeTo(48, -1),
+      expect.closeTo(232, -1),
+      expect.closeTo(461, -1),
+    ]);
+    for (const face of faces) {
+      expect(face.top * 346).toBeGreaterThan(40);
+      expect(face.top * 346 + face.height * 346).toBeLessThan(260);
+    }
+
+    expect(await faceDetector.detect(fs.readFileSync(fixtures.hand))).toHaveLength(0);
+  });
+
+  it("blurs faces before the vision provider sees the photo and on disk", async () => {
+    const filePath = await writeImage("friends.jpg", fixtures.group);
+    const before = await faceContrast(filePath);
+    let sentContrast = 0;
+    vi.spyOn(geminiClient, "detectEntityFromImage").mockImplementation(async (imagePath) => {
+      sentContrast = await faceContrast(imagePath);
+      return { entity: entity({}), alternatives: [] };
+    });
+
+    const analysis = await analyze("session-faces", filePath);
+
+    expect(analysis?.status).toBe("ready");
+    expect(analysis?.facesDetected).toBe(3);
+    expect(analysis?.facesBlurred).toBe(true);
+    expect(sentContrast).toBeLessThan(before / 2);
+    expect(await faceContrast(filePath)).toBeLessThan(before / 2);
+  });
+
+  it("keeps the faces of depicted artworks", async () => {
+    const filePath = await writeImage("portrait.jpg", fixtures.group);
+    const before = await faceContrast(filePath);
+    const detect = vi
+      .spyOn(geminiClient, "detectEntityFromImage")
+      .mockResolvedValue({ entity: entity({ label: "portrait of a queen", category: "statue" }), alternatives: [] });
+
+    const analysis = await analyze("session-artwork", filePath);
+
+    expect(analysis?.facesDetected).toBe(3);
+    expect(analysis?.facesBlurred).toBe(false);
+    expect(detect).toHaveBeenCalledTimes(2);
+    expect(await faceContrast(filePath)).toBeCloseTo(before, 0);
+  });
+
+  it("skips the stage when the policy switch is off", async () => {
+    store.setPolicy({ ...store.getPolicy(), enforceFaceBlur: false });
+    const detectFaces = vi.spyOn(ingestionService, "detectFaces");
+    vi.spyOn(geminiClient, "detectEntityFromImage").mockResolvedValue({ entity: entity({}), alternatives: [] });
+
+    const analysis = await analyze("session-no-blur", await writeImage("friends.jpg", fixtures.group));
+
+    expect(detectFaces).not.toHaveBeenCalled();
+    expect(analysis?.facesDetected).toBe(0);
+    expect(analysis?.facesBlurred).toBe(false);
+  });
+});
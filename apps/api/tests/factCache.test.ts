@@ -0,0 +1,75 @@
+import request from "supertest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createApp } from "../src/app.js";
+import { adminAuthService } from "../src/services/adminAuthService.js";
+import { adminService } from "../src/services/adminService.js";
+import { geminiClient } from "../src/services/providers/geminiClient.js";
+import { researchService, type FactCacheWarmResult } from "../src/services/researchService.js";
+import { defaultPolicy } from "../src/stores/store.js";
+import { store } from "../src/stores/index.js";
+
+// Narrows warm-up results to the successful ones, failing the test on any per-label error.
+const warmedPacks = (results: FactCacheWarmResult[]) =>
+  results.map((result) => {
+    if ("error" in result) {
+      throw new Error(`Warm-up failed for ${result.label}: ${result.error}`);
+    }
+    return result;
+  });
+
+describe("researchService fact cache", () => {
+  beforeEach(() => {
+    researchService.invalidateAll();
+    store.setPolicy(defaultPolicy());
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("warms, lists and invalidates cached packs", async () => {
+    const warmed = warmedPacks(await researchService.warm(["Eiffel Tower", "tree"]));
+
+    expect(warmed.map((item) => item.alreadyCached)).toEqual([false, false]);
+    expect(researchService.listCachedPacks().map((item) => item.label).sort()).toEqual(["Eiffel Tower", "tree"]);
+
+    const again = warmedPacks(await researchService.warm(["Eiffel Tower"]));
+    expect(again[0].alreadyCached).toBe(true);
+
+    expect(researchService.getCachedPack(warmed[0].key)?.pack.facts.length).toBe(warmed[0].factCount);
+    expect(researchService.invalidate(warmed[0].key)).toBe(true);
+    expect(researchService.getCachedPack(warmed[0].key)).toBeNull();
+    expect(researchService.invalidateAll()).toBe(1);
+  });
+
+  it("drops packs that a tightened policy would reject", async () => {
+    await researchService.warm(["Eiffel Tower"]);
+
+    adminService.updatePolicy({ maxReplySeconds: 20 });
+    expect(researchService.listCachedPacks()).toHaveLength(1);
+
+    adminService.updatePolicy({ minFactConfidence: 0.9 });
+    expect(researchService.listCachedPacks()).toHaveLength(0);
+  });
+
+  it("reports labels that fail to warm without losing the others", async () => {
+    const entityFromLabel = geminiClient.entityFromLabel.bind(geminiClient);
+    vi.spyOn(geminiClient, "entityFromLabel").mockImplementation(async (label) => {
+      if (label === "volcano") {
+        throw new Error("identity lookup timed out");
+      }
+      return entityFromLabel(label);
+    });
+    const apiKey = adminAuthService.createApiKey({ name: "warmer", scopes: ["content:write"], createdBy: "test" }).apiKey;
+
+    const response = await request(createApp())
+      .post("/v1/admin/fact-cache/warm")
+      .set("x-admin-key", apiKey)
+      .send({ labels: ["volcano", "Eiffel Tower"] })
+      .expect(200);
+
+    expect(response.body[0]).toEqual({ label: "volcano", error: "Error: identity lookup timed out" });
+    expect(response.body[1]).toMatchObject({ label: "Eiffel Tower", alreadyCached: false });
+    expect(researchService.listCachedPacks().map((item) => item.label)).toEqual(["Eiffel Tower"]);
+  });
+});
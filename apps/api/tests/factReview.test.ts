@@ -0,0 +1,112 @@
+import request from "supertest";
+import { beforeEach, describe, expect, it } from "vitest";
+import { createApp } from "../src/app.js";
+import { adminAuthService } from "../src/services/adminAuthService.js";
+import { researchService } from "../src/services/researchService.js";
+import { store } from "../src/stores/index.js";
+import { defaultPolicy } from "../src/stores/store.js";
+import type { CanonicalEntity } from "../src/types/domain.js";
+
+const lighthouse: CanonicalEntity = {
+  entityId: "entity-lighthouse",
+  label: "Lighthouse",
+  category: "landmark",
+  confidence: 0.9,
+  researchSubject: "Lighthouse",
+  roleplayName: "Lighthouse",
+  roleplayMode: "as_object",
+};
+
+const reviewerKey = () =>
+  adminAuthService.createApiKey({ name: "reviewer", scopes: ["content:read", "content:write"], createdBy: "test" }).apiKey;
+
+beforeEach(() => {
+  researchService.invalidateAll();
+  store.setPolicy(defaultPolicy());
+});
+
+describe("fact pack review", () => {
+  it("serves new packs as provisional drafts, or the templates when policy forbids it", async () => {
+    const pack = await researchService.getFactPack(lighthouse);
+    expect(pack.provisional).toBe(true);
+    expect(pack.review?.status).toBe("draft");
+    expect(researchService.listCachedPacks({ reviewStatus: "draft" })).toHaveLength(1);
+
+    store.setPolicy({ ...defaultPolicy(), serveUnapprovedFacts: false });
+    const withheld = await researchService.getFactPack(lighthouse);
+    expect(withheld).toMatchObject({ source: "template" });
+    expect(withheld.provisional).toBeUndefined();
+    expect(withheld.review).toBeUndefined();
+  });
+
+  it("lets reviewers edit, approve, and reject packs, pinning approved ones", async () => {
+    await researchService.getFactPack(lighthouse);
+    const [{ key }] = researchService.listCachedPacks();
+    const path = `/v1/admin/fact-cache/${encodeURIComponent(key)}`;
+    const app = createApp();
+    const apiKey = reviewerKey();
+
+    const edited = await request(app)
+      .patch(path)
+      .set("x-admin-key", apiKey)
+      .send({
+        summary: "Lighthouses guide ships home.",
+        facts: [
+          {
+            claim: "A lighthouse lens can throw its beam more than 30 kilometres out to sea.",
+            source_urls: ["https://www.britannica.com/technology/lighthouse"],
+          },
+        ],
+      })
+      .expect(200);
+    expect(edited.body.pack.review).toMatchObject({ status: "in_review", edited: true });
+    expect(edited.body.pack.facts[0]).toMatchObject({ confidence: 0.9 });
+    expect(edited.body.pinned).toBe(false);
+    // The next photo of the same subject is served the edit, not the draft it was shown before.
+    expect((await researchService.getFactPack(lighthouse)).summary).toBe("Lighthouses guide ships home.");
+
+    const approved = await request(app)
+      .post(`${path}/review`)
+      .set("x-admin-key", apiKey)
+      .send({ status: "approved", note: "Checked against Britannica." })
+      .expect(200);
+    expect(approved.body.pinned).toBe(true);
+    expect(approved.body.pack.review).toMatchObject({ status: "approved", note: "Checked against Britannica." });
+    await request(app).post(`${path}/review`).set("x-admin-key", apiKey).send({ status: "approved" }).expect(409);
+
+    // Pinned packs outlive their TTL and survive a refresh.
+    const entry = store.factCache.get(key);
+    store.factCache.set(key, { ...entry!, expiresAt: new Date(Date.now() - 60_000).toISOString() });
+    store.setPolicy({ ...defaultPolicy(), serveUnapprovedFacts: false });
+    const served = await researchService.getFactPack(lighthouse, { refresh: true });
+    expect(served.summary).toBe("Lighthouses guide ships home.");
+    expect(served.provisional).toBeUndefined();
+    expect(researchService.listCachedPacks()[0]).toMatchObject({ reviewStatus: "approved", pinned: true, expired: false });
+
+    await request(app).post(`${path}/review`).set("x-admin-key", apiKey).send({ status: "rejected" }).expect(200);
+    store.setPolicy(defaultPolicy());
+    expect((await researchService.getFactPack(lighthouse)).summary).toBe("Lighthouse is full of clues about how our world works.");
+
+    await request(app).post(`${path}/review`).set("x-admin-key", apiKey).send({ status: "draft" }).expect(400);
+    await request(app).post("/v1/admin/fact-cache/missing/review").set("x-admin-key", apiKey).send({ status: "approved" }).expect(404);
+  });
+
+  it("sends approved packs that fail a tightened policy back to review instead of dropping them", async () => {
+    await researchService.getFactPack(lighthouse);
+    await researchService.getFactPack({ ...lighthouse, entityId: "entity-windmill", label: "Windmill", researchSubject: "Windmill" });
+    const [approvedKey, draftKey] = researchService.listCachedPacks().map((pack) => pack.key);
+    researchService.setReviewStatus(approvedKey, { status: "approved", reviewer: "editor" });
+
+    store.setPolicy({ ...defaultPolicy(), minFactConfidence: 1 });
+    const response = await request(createApp())
+      .post("/v1/admin/fact-cache/invalidate-stale")
+      .set("x-admin-key", reviewerKey())
+      .expect(200);
+
+    expect(response.body).toEqual({ invalidated: 1, keys: [draftKey], returned_to_review: [approvedKey] });
+    expect(researchService.listCachedPacks()).toEqual([
+      expect.objectContaining({ key: approvedKey, reviewStatus: "in_review", pinned: false }),
+    ]);
+    expect(store.factCache.get(approvedKey)?.value).toMatchObject({ review: { note: "No longer meets the content policy." } });
+  });
+});
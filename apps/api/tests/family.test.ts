@@ -0,0 +1,90 @@
+import request from "supertest";
+import { describe, expect, it } from "vitest";
+import { createApp } from "../src/app.js";
+import { conversationService } from "../src/services/conversationService.js";
+import { familyService } from "../src/services/familyService.js";
+import { personaService } from "../src/services/personaService.js";
+import { sessionService } from "../src/services/sessionService.js";
+import { store } from "../src/stores/index.js";
+import type { CanonicalEntity } from "../src/types/domain.js";
+
+describe("familyService", () => {
+  it("creates accounts, rejects duplicate emails and checks passwords", async () => {
+    const created = await familyService.createAccount({ email: "Parent@Example.com", password: "correct horse battery" });
+
+    expect(created).not.toBeNull();
+    expect(created?.passwordHash).not.toContain("correct horse");
+    expect(await familyService.createAccount({ email: "parent@example.com", password: "another password" })).toBeNull();
+    expect(await familyService.login({ email: "parent@example.com", password: "wrong password" })).toBeNull();
+
+    const loggedIn = await familyService.login({ email: "parent@example.com", password: "correct horse battery" });
+    expect(familyService.validateParentToken(loggedIn?.token ?? "")?.accountId).toBe(created?.accountId);
+  });
+
+  it("answers sign-ups the same whether or not the email is taken", async () => {
+    const app = createApp();
+    const credentials = { email: "taken@example.com", password: "first password" };
+
+    const fresh = await request(app).post("/v1/family/accounts").send(credentials).expect(202);
+    const taken = await request(app).post("/v1/family/accounts").send({ ...credentials, password: "other password" }).expect(202);
+    expect(taken.body).toEqual(fresh.body);
+
+    await request(app).post("/v1/family/login").send(credentials).expect(200);
+    await request(app).post("/v1/family/login").send({ ...credentials, password: "other password" }).expect(401);
+    await request(app).post("/v1/family/login").send({ email: "nobody@example.com", password: "first password" }).expect(401);
+  });
+
+  it("scopes child profiles to their parent account", async () => {
+    const first = await familyService.createAccount({ email: "first@example.com", password: "first password" });
+    const second = await familyService.createAccount({ email: "second@example.com", password: "second password" });
+    const firstId = first?.accountId ?? "";
+    const secondId = second?.accountId ?? "";
+
+    const child = familyService.createChild(firstId, { nickname: "Sam", ageBand: "4-6" });
+
+    expect(familyService.listChildren(firstId)).toHaveLength(1);
+    expect(familyService.getChild(secondId, child.childId)).toBeNull();
+    expect(familyService.updateChild(firstId, child.childId, { ageBand: "7-10" })?.ageBand).toBe("7-10");
+    expect(familyService.deleteChild(secondId, child.childId)).toBe(false);
+
+    const session = sessionService.createSession({ childId: child.childId });
+    expect(sessionService.validateSession(session.sessionId, session.token)?.childId).toBe(child.childId);
+  });
+
+  it("signs a deleted child out everywhere and unlinks their conversations", async () => {
+    const parent = await familyService.createAccount({ email: "leaving@example.com", password: "leaving password" });
+    const child = familyService.createChild(parent?.accountId ?? "", { nickname: "Robin" });
+    const first = sessionService.createSession({ childId: child.childId });
+    const later = sessionService.createSession({ childId: child.childId });
+    const kite: CanonicalEntity = {
+      entityId: "entity-kite",
+      label: "kite",
+      category: "other",
+      confidence: 0.9,
+      researchSubject: "kite",
+      roleplayName: "Kite",
+      roleplayMode: "as_object",
+    };
+    const now = new Date().toISOString();
+    const conversationId = crypto.randomUUID();
+    store.conversations.set(conversationId, {
+      conversationId,
+      sessionId: first.sessionId,
+      childId: child.childId,
+      entity: kite,
+      factPack: { entity: kite, facts: [], summary: "It flies on the wind.", generatedAt: now },
+      persona: personaService.buildPersona(kite),
+      usedFactIndexes: new Set(),
+      turns: [],
+      createdAt: now,
+      updatedAt: now,
+    });
+    expect(conversationService.getConversation(conversationId, { sessionId: later.sessionId, childId: child.childId })).not.toBeNull();
+
+    expect(familyService.deleteChild(parent?.accountId ?? "", child.childId)).toBe(true);
+
+    expect(sessionService.validateSession(first.sessionId, first.token)).toBeNull();
+    expect(sessionService.validateSession(later.sessionId, later.token)).toBeNull();
+    expect(conversationService.getConversation(conversationId, { sessionId: later.sessionId, childId: child.childId })).toBeNull();
+  });
+});
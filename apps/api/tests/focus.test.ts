@@ -0,0 +1,134 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import sharp from "sharp";
+import request from "supertest";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createApp } from "../src/app.js";
+import { analysisService } from "../src/services/analysisService.js";
+import { focusRegionFor } from "../src/services/ingestionService.js";
+import { geminiClient } from "../src/services/providers/geminiClient.js";
+import { sessionService } from "../src/services/sessionService.js";
+import { store } from "../src/stores/index.js";
+import type { AnalysisResult } from "../src/types/domain.js";
+
+const tempDirs: string[] = [];
+
+const textured = (): Promise<Buffer> => {
+  const size = 400;
+  const raw = Buffer.alloc(size * size * 3);
+  for (let y = 0; y < size; y += 1) {
+    for (let x = 0; x < size; x += 1) {
+      const value = 128 + 60 * Math.sin(x / 9) * Math.cos(y / 13) + ((x * 31 + y * 17) % 23);
+      raw.fill(Math.round(value), (y * size + x) * 3, (y * size + x) * 3 + 3);
+    }
+  }
+
+  return sharp(raw, { raw: { width: size, height: size, channels: 3 } }).jpeg().toBuffer();
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  for (const dir of tempDirs.splice(0)) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+describe("focus regions", () => {
+  it("turns taps into boxes and keeps them inside the photo", () => {
+    const corner = focusRegionFor({ x: 0.95, y: 0.02 });
+    expect(corner.left).toBeCloseTo(0.65);
+    expect(corner.top).toBe(0);
+    expect(corner.width).toBeCloseTo(0.35);
+
+    const sliver = focusRegionFor({ x: 0.5, y: 0.2, width: 0.02, height: 0.4 });
+    expect(sliver.width).toBeCloseTo(0.1);
+    expect(sliver.left).toBeCloseTo(0.46);
+    expect(sliver.height).toBeCloseTo(0.4);
+  });
+
+  it("accepts a focus selection on analyze and rejects half-specified boxes", async () => {
+    const app = createApp();
+    const session = sessionService.createSession({});
+    const createAnalysis = vi
+      .spyOn(analysisService, "createAnalysis")
+      .mockReturnValue({ analysisId: "analysis-focus", status: "queued" } as AnalysisResult);
+
+    await request(app)
+      .post("/v1/photo/analyze")
+      .set("x-session-id", session.sessionId)
+      .set("x-session-token", session.token)
+      .send({ session_id: session.sessionId, image_url: "http://localhost/v1/media/none", focus: { x: 0.2, y: 0.3, width: 0.4 } })
+      .expect(400);
+
+    await request(app)
+      .post("/v1/photo/analyze")
+      .set("x-session-id", session.sessionId)
+      .set("x-session-token", session.token)
+      .send({ session_id: session.sessionId, image_url: "http://localhost/v1/media/none", focus: { x: 0.2, y: 0.3, width: 0.4, height: 0.5 } })
+      .expect(202);
+
+    const focus = createAnalysis.mock.calls[0][0].focus;
+    expect(focus?.left).toBeCloseTo(0.2);
+    expect(focus?.top).toBeCloseTo(0.3);
+    expect(focus?.width).toBeCloseTo(0.4);
+    expect(focus?.height).toBeCloseTo(0.5);
+  });
+
+  it("sends the focused crop to vision with the full photo as context", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "wondertalk-focus-"));
+    tempDirs.push(dir);
+    const filePath = path.join(dir, "desk.jpg");
+    fs.writeFileSync(filePath, await textured());
+
+    const uploadId = crypto.randomUUID();
+    store.uploads.set(uploadId, {
+      uploadId,
+      sessionId: "session-focus",
+      createdAt: new Date().toISOString(),
+      expiresAt: new Date(Date.now() + 60_000).toISOString(),
+      consumed: true,
+      filePath,
+      mimeType: "image/jpeg",
+    });
+
+    const sent: Array<{ imagePath: string; contextImagePath?: string; width?: number; height?: number }> = [];
+    vi.spyOn(geminiClient, "detectEntityFromImage").mockImplementation(async (imagePath, _mimeType, contextImagePath) => {
+      const { width, height } = await sharp(imagePath).metadata();
+      sent.push({ imagePath, contextImagePath, width, height });
+      return {
+        entity: {
+          entityId: "entity-mug",
+          label: "mug",
+          category: "other",
+          confidence: 0.9,
+          researchSubject: "mug",
+          roleplayName: "mug",
+          roleplayMode: "as_object",
+        },
+        alternatives: [],
+      };
+    });
+
+    const { analysisId } = analysisService.createAnalysis({
+      sessionId: "session-focus",
+      imageUrl: `http://localhost/v1/media/${uploadId}`,
+      focus: focusRegionFor({ x: 0.05, y: 0.05, width: 0.3, height: 0.3 }),
+    });
+    for (let attempt = 0; attempt < 150; attempt += 1) {
+      const status = analysisService.getAnalysis(analysisId)?.status;
+      if (status === "ready" || status === "failed") {
+        break;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+
+    expect(analysisService.getAnalysis(analysisId)?.entity?.label).toBe("mug");
+    expect(sent).toHaveLength(1);
+    expect(sent[0].imagePath).toMatch(/desk-focus\.jpg$/);
+    expect(sent[0].contextImagePath).toMatch(/desk-normalized\.jpg$/);
+    // 0.3 of the photo plus a 0.1 margin on each side, shifted back inside the top-left corner.
+    expect(sent[0].width).toBe(200);
+    expect(sent[0].height).toBe(200);
+  });
+});
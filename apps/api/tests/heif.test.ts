@@ -0,0 +1,299 @@
+import { ensureInitialized, jsEncodeImage } from "elheif";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import sharp from "sharp";
+import request from "supertest";
+import { createRequire } from "node:module";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createApp } from "../src/app.js";
+import { analysisService } from "../src/services/analysisService.js";
+import { ingestionService } from "../src/services/ingestionService.js";
+import { geminiClient } from "../src/services/providers/geminiClient.js";
+import { uploadService } from "../src/services/uploadService.js";
+import { store } from "../src/stores/index.js";
+
+const tempDirs: string[] = [];
+const cleanup: string[] = [];
+
+const textured = (): Buffer => {
+  const width = 320;
+  const height = 240;
+  const raw = Buffer.alloc(width * height * 3);
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const value = 128 + 60 * Math.sin(x / 9) * Math.cos(y / 13) + ((x * 31 + y * 17) % 23);
+      raw.fill(Math.round(value), (y * width + x) * 3, (y * width + x) * 3 + 3);
+    }
+  }
+  return raw;
+};
+
+// sharp's bundled libheif encodes AV1 only, so AVIF stands in for most HEIF-family uploads here. Real HEVC files,
+// which it cannot decode either, come from elheif's wasm build of libheif.
+const avif = (): Promise<Buffer> =>
+  sharp(textured(), { raw: { width: 320, height: 240, channels: 3 } })
+    .withExif({ IFD0: { Copyright: "Family photo" } })
+    .avif()
+    .toBuffer();
+
+type Box = { type: string; start: number; end: number };
+
+const boxesIn = (data: Buffer, start: number, end: number): Box[] => {
+  const boxes: Box[] = [];
+  for (let offset = start; offset < end; offset += data.readUInt32BE(offset)) {
+    boxes.push({ type: data.toString("latin1", offset + 4, offset + 8), start: offset, end: offset + data.readUInt32BE(offset) });
+  }
+  return boxes;
+};
+
+const box = (type: string, ...payload: Buffer[]): Buffer => {
+  const body = Buffer.concat(payload);
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(body.length + 8);
+  header.write(type, 4, "latin1");
+  return Buffer.concat([header, body]);
+};
+
+const encodeHeic = async (rgba: Uint8Array, width: number, height: number): Promise<Buffer> => {
+  await ensureInitialized();
+  const { err, data } = jsEncodeImage(rgba, width, height);
+  if (err) {
+    throw new Error(err);
+  }
+  return Buffer.from(data);
+};
+
+// A red band down the left edge, so a test can tell which way the picture was turned.
+const heic = async (): Promise<Buffer> => {
+  const rgb = textured();
+  const rgba = new Uint8Array(320 * 240 * 4);
+  for (let pixel = 0; pixel < 320 * 240; pixel += 1) {
+    const red = pixel % 320 < 80;
+    rgba.set([red ? 220 : rgb[pixel * 3], red ? 30 : rgb[pixel * 3], red ? 30 : rgb[pixel * 3], 255], pixel * 4);
+  }
+  return encodeHeic(rgba, 320, 240);
+};
+
+// Three people side by side (600x346), from tracking.js's examples, as a phone would save them.
+const groupHeic = async (): Promise<Buffer> => {
+  const { data, info } = await sharp(createRequire(import.meta.url).resolve("tracking/examples/assets/faces.jpg"))
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return encodeHeic(data, info.width, info.height);
+};
+
+// Eyes and mouth make the middle face high-contrast; blurring flattens it.
+const middleFaceContrast = async (image: Buffer | string): Promise<number> => {
+  const data = await sharp(image).extract({ left: 245, top: 140, width: 65, height: 95 }).greyscale().raw().toBuffer();
+  const mean = data.reduce((sum, value) => sum + value, 0) / data.length;
+  return Math.sqrt(data.reduce((sum, value) => sum + (value - mean) ** 2, 0) / data.length);
+};
+
+// Cameras record orientation in HEIC as an `irot` property, in quarter turns anticlockwise. This adds one to every item
+// and moves the item offsets along with the `mdat` box that follows the grown `meta` box.
+const withRotation = (data: Buffer, quarterTurns: number): Buffer => {
+  const meta = boxesIn(data, 0, data.length).find((candidate) => candidate.type === "meta")!;
+  const metaChildren = boxesIn(data, meta.start + 12, meta.end);
+  const iprp = metaChildren.find((candidate) => candidate.type === "iprp")!;
+  const [ipco, ipma] = boxesIn(data, iprp.start + 8, iprp.end);
+  const irotIndex = boxesIn(data, ipco.start + 8, ipco.end).length + 1;
+
+  // Version 0 `ipma` without the wide-index flag: 16-bit item ids and one byte per association.
+  const entries: Buffer[] = [];
+  let offset = ipma.start + 16;
+  for (let entry = 0; entry < data.readUInt32BE(ipma.start + 12); entry += 1) {
+    const associations = data[offset + 2];
+    const copy = Buffer.from(data.subarray(offset, offset + 3 + associations));
+    copy[2] = associations + 1;
+    entries.push(copy, Buffer.from([0x80 | irotIndex]));
+    offset += 3 + associations;
+  }
+
+  const newMeta = box(
+    "meta",
+    data.subarray(meta.start + 8, meta.start + 12),
+    ...metaChildren.map((child) =>
+      child === iprp
+        ? box(
+            "iprp",
+            box("ipco", data.subarray(ipco.start + 8, ipco.end), box("irot", Buffer.from([quarterTurns]))),
+            box("ipma", data.subarray(ipma.start + 8, ipma.start + 16), ...entries),
+          )
+        : data.subarray(child.start, child.end),
+    ),
+  );
+  const shift = newMeta.length - (meta.end - meta.start);
+
+  // Version 0 `iloc` with 32-bit fields and a base offset per item.
+  const iloc = boxesIn(newMeta, 12, newMeta.length).find((candidate) => candidate.type === "iloc")!;
+  let item = iloc.start + 16;
+  for (let index = 0; index < newMeta.readUInt16BE(iloc.start + 14); index += 1) {
+    newMeta.writeUInt32BE(newMeta.readUInt32BE(item + 4) + shift, item + 4);
+    item += 10 + newMeta.readUInt16BE(item + 8) * 8;
+  }
+
+  return Buffer.concat([data.subarray(0, meta.start), newMeta, data.subarray(meta.end)]);
+};
+
+// Rewrites every `ispe` (image spatial extents) property in place, so the declared size can be faked or hidden.
+const withExtents = (data: Buffer, rewrite: (copy: Buffer, ispe: Box) => void): Buffer => {
+  const copy = Buffer.from(data);
+  const meta = boxesIn(copy, 0, copy.length).find((candidate) => candidate.type === "meta")!;
+  const iprp = boxesIn(copy, meta.start + 12, meta.end).find((candidate) => candidate.type === "iprp")!;
+  const [ipco] = boxesIn(copy, iprp.start + 8, iprp.end);
+  for (const property of boxesIn(copy, ipco.start + 8, ipco.end).filter((candidate) => candidate.type === "ispe")) {
+    rewrite(copy, property);
+  }
+  return copy;
+};
+
+// Same file with the `ftyp` major brand swapped, as an HEVC-coded HEIC would carry.
+const asHeicBrand = (data: Buffer): Buffer => {
+  const copy = Buffer.from(data);
+  copy.write("heic", 8, "latin1");
+  return copy;
+};
+
+const writeFile = (name: string, data: Buffer): string => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "wondertalk-heif-"));
+  tempDirs.push(dir);
+  const filePath = path.join(dir, name);
+  fs.writeFileSync(filePath, data);
+  return filePath;
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  for (const target of [...tempDirs.splice(0), ...cleanup.splice(0)]) {
+    fs.rmSync(target, { recursive: true, force: true });
+  }
+});
+
+describe("HEIF-family uploads", () => {
+  it("checks ftyp brands and box structure", async () => {
+    const image = await avif();
+    const jpeg = await sharp(textured(), { raw: { width: 320, height: 240, channels: 3 } }).jpeg().toBuffer();
+
+    ingestionService.validateMimeType("image/heic");
+    expect(await ingestionService.malwareScan(writeFile("a.avif", image), "image/avif")).toBeNull();
+    expect(await ingestionService.malwareScan(writeFile("b.heif", image), "image/heif")).toBeNull();
+    expect(await ingestionService.malwareScan(writeFile("c.heic", asHeicBrand(image)), "image/heic")).toBeNull();
+
+    expect((await ingestionService.malwareScan(writeFile("d.heic", image), "image/heic"))?.threat).toBe("mime_mismatch");
+    expect((await ingestionService.malwareScan(writeFile("e.avif", jpeg), "image/avif"))?.threat).toBe("mime_mismatch");
+
+    const zipTail = Buffer.concat([image, Buffer.from("PK\x03\x04"), Buffer.alloc(64, 7)]);
+    expect((await ingestionService.malwareScan(writeFile("f.avif", zipTail), "image/avif"))?.threat).toBe("polyglot");
+  });
+
+  it("normalizes to an upright JPEG without the original metadata", async () => {
+    const filePath = writeFile("garden.avif", await avif());
+    expect((await sharp(filePath).metadata()).exif).toBeDefined();
+
+    const { normalizedPath, qualityIssue } = await ingestionService.preprocessImage(filePath);
+    expect(qualityIssue).toBeNull();
+    expect(normalizedPath).toBe(path.join(path.dirname(filePath), "garden-normalized.jpg"));
+
+    const normalized = await sharp(normalizedPath).metadata();
+    expect(normalized).toMatchObject({ format: "jpeg", width: 320, height: 240 });
+    expect(normalized.exif).toBeUndefined();
+  });
+
+  it("decodes HEVC-coded HEIC photos that prebuilt sharp cannot, upright and without metadata", async () => {
+    const portrait = withRotation(await heic(), 1);
+    await expect(sharp(portrait).toBuffer()).rejects.toThrow();
+    const filePath = writeFile("portrait.heic", portrait);
+    expect(await ingestionService.malwareScan(filePath, "image/heic")).toBeNull();
+
+    const { normalizedPath, qualityIssue } = await ingestionService.preprocessImage(filePath);
+    expect(qualityIssue).toBeNull();
+
+    const normalized = sharp(normalizedPath);
+    const metadata = await normalized.metadata();
+    expect(metadata).toMatchObject({ format: "jpeg", width: 240, height: 320 });
+    expect(metadata.exif).toBeUndefined();
+    // Turned a quarter anticlockwise, the red band along the left edge runs along the bottom.
+    const { data, info } = await normalized.raw().toBuffer({ resolveWithObject: true });
+    const pixelAt = (x: number, y: number) => [...data.subarray((y * info.width + x) * 3, (y * info.width + x) * 3 + 3)];
+    const [bottomRed, bottomGreen] = pixelAt(120, 300);
+    expect(bottomRed - bottomGreen).toBeGreaterThan(120);
+    const [topRed, topGreen] = pixelAt(120, 20);
+    expect(Math.abs(topRed - topGreen)).toBeLessThan(40);
+  });
+
+  it("bounds HEVC-coded HEIC photos by the size their container declares", async () => {
+    const image = await heic();
+    const huge = withExtents(image, (copy, ispe) => {
+      copy.writeUInt32BE(40_000, ispe.start + 12);
+      copy.writeUInt32BE(30_000, ispe.start + 16);
+    });
+    const finding = await ingestionService.malwareScan(writeFile("huge.heic", huge), "image/heic");
+    expect(finding).toMatchObject({ threat: "decompression_bomb", detail: expect.stringContaining("40000x30000") });
+
+    // Without an `ispe`, neither the container nor sharp gives a size, so there is nothing to check it against.
+    const unsized = withExtents(image, (copy, ispe) => copy.write("free", ispe.start + 4, "latin1"));
+    expect(await ingestionService.malwareScan(writeFile("unsized.heic", unsized), "image/heic")).toMatchObject({
+      threat: "decompression_bomb",
+      detail: "Image dimensions could not be read",
+    });
+  });
+
+  it("blurs faces in HEVC-coded HEIC photos and keeps only the blurred copy", async () => {
+    const filePath = writeFile("friends.heic", await groupHeic());
+    const normalized = await ingestionService.preprocessImage(filePath);
+    const before = await middleFaceContrast(normalized.normalizedPath);
+    vi.spyOn(geminiClient, "detectEntityFromImage").mockResolvedValue({
+      entity: {
+        entityId: "entity-kid",
+        label: "kid",
+        category: "other",
+        confidence: 0.9,
+        researchSubject: "kid",
+        roleplayName: "kid",
+        roleplayMode: "as_object",
+      },
+      alternatives: [],
+    });
+
+    const uploadId = crypto.randomUUID();
+    store.uploads.set(uploadId, {
+      uploadId,
+      sessionId: "session-heic-faces",
+      createdAt: new Date().toISOString(),
+      expiresAt: new Date(Date.now() + 60_000).toISOString(),
+      consumed: true,
+      filePath,
+      mimeType: "image/heic",
+    });
+    const { analysisId } = analysisService.createAnalysis({
+      sessionId: "session-heic-faces",
+      imageUrl: `http://localhost/v1/media/${uploadId}`,
+    });
+    await vi.waitFor(() => expect(analysisService.getAnalysis(analysisId)?.status).toMatch(/ready|failed/), { timeout: 5000 });
+
+    expect(analysisService.getAnalysis(analysisId)).toMatchObject({ status: "ready", facesDetected: 3, facesBlurred: true });
+    const redactedPath = path.join(path.dirname(filePath), "friends.jpg");
+    expect(store.uploads.get(uploadId)).toMatchObject({ filePath: redactedPath, mimeType: "image/jpeg" });
+    expect(fs.existsSync(filePath)).toBe(false);
+    expect(await middleFaceContrast(redactedPath)).toBeLessThan(before / 2);
+  });
+
+  it("accepts the new types on upload and stores them under their own extension", async () => {
+    const app = createApp();
+    const target = await uploadService.createUploadTarget("session-heif");
+    const uploadUrl = new URL(target.uploadUrl);
+
+    await request(app)
+      .put(`${uploadUrl.pathname}${uploadUrl.search}`)
+      .set("Content-Type", "image/avif")
+      .send(await avif())
+      .expect(200);
+
+    const filePath = store.uploads.get(target.uploadId)?.filePath ?? "";
+    cleanup.push(filePath);
+    expect(path.basename(filePath)).toBe(`${target.uploadId}.avif`);
+    expect(store.uploads.get(target.uploadId)?.mimeType).toBe("image/avif");
+  });
+});
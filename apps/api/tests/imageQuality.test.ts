@@ -0,0 +1,77 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import sharp from "sharp";
+import { afterEach, describe, expect, it } from "vitest";
+import { analysisService } from "../src/services/analysisService.js";
+import { ingestionService } from "../src/services/ingestionService.js";
+import { store } from "../src/stores/index.js";
+
+const tempDirs: string[] = [];
+
+const render = (size: number, pixel: (x: number, y: number) => number): Promise<Buffer> => {
+  const raw = Buffer.alloc(size * size * 3);
+  for (let y = 0; y < size; y += 1) {
+    for (let x = 0; x < size; x += 1) {
+      raw.fill(Math.max(0, Math.min(255, Math.round(pixel(x, y)))), (y * size + x) * 3, (y * size + x) * 3 + 3);
+    }
+  }
+
+  return sharp(raw, { raw: { width: size, height: size, channels: 3 } }).jpeg().toBuffer();
+};
+
+const textured = (x: number, y: number) => 128 + 60 * Math.sin(x / 9) * Math.cos(y / 13) + ((x * 31 + y * 17) % 23);
+
+afterEach(() => {
+  for (const dir of tempDirs.splice(0)) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+describe("image quality gate", () => {
+  it("accepts a sharp, well-exposed photo", async () => {
+    expect(await ingestionService.assessQuality(await render(400, textured))).toBeNull();
+  });
+
+  it("flags tiny, badly exposed, featureless and blurry photos", async () => {
+    const blurred = await sharp(await render(400, textured)).blur(10).jpeg().toBuffer();
+
+    expect(await ingestionService.assessQuality(await render(120, textured))).toBe("too_small");
+    expect(await ingestionService.assessQuality(await render(400, (x, y) => textured(x, y) / 8))).toBe("too_dark");
+    expect(await ingestionService.assessQuality(await render(400, (x, y) => 240 + textured(x, y) / 20))).toBe("too_bright");
+    expect(await ingestionService.assessQuality(await render(400, () => 128))).toBe("uniform");
+    expect(await ingestionService.assessQuality(blurred)).toBe("blurry");
+  });
+
+  it("fails the analysis fast with a reason code and a retake hint", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "wondertalk-quality-"));
+    tempDirs.push(dir);
+    const filePath = path.join(dir, "cave.jpg");
+    fs.writeFileSync(filePath, await render(400, (x, y) => textured(x, y) / 8));
+
+    const uploadId = crypto.randomUUID();
+    store.uploads.set(uploadId, {
+      uploadId,
+      sessionId: "session-dark",
+      createdAt: new Date().toISOString(),
+      expiresAt: new Date(Date.now() + 60_000).toISOString(),
+      consumed: true,
+      filePath,
+      mimeType: "image/jpeg",
+    });
+
+    const { analysisId } = analysisService.createAnalysis({
+      sessionId: "session-dark",
+      imageUrl: `http://localhost/v1/media/${uploadId}`,
+    });
+    for (let attempt = 0; attempt < 100 && analysisService.getAnalysis(analysisId)?.status !== "failed"; attempt += 1) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+
+    const analysis = analysisService.getAnalysis(analysisId);
+    expect(analysis?.status).toBe("failed");
+    expect(analysis?.errorCode).toBe("too_dark");
+    expect(analysis?.retakeHint).toBe("Too dark! Try turning on a light.");
+    expect(analysis?.progress?.map((event) => event.stage)).not.toContain("entity_detected");
+  });
+});
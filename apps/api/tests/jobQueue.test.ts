@@ -0,0 +1,255 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import sharp from "sharp";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { analysisService } from "../src/services/analysisService.js";
+import { ingestionService } from "../src/services/ingestionService.js";
+import { analysisQueue, JobQueue, runStage, type StagePolicy } from "../src/services/jobQueue.js";
+import { geminiClient } from "../src/services/providers/geminiClient.js";
+import { uploadService } from "../src/services/uploadService.js";
+import { store } from "../src/stores/index.js";
+
+const stage = (overrides: Partial<StagePolicy> = {}): StagePolicy => ({
+  name: "test",
+  timeoutMs: 200,
+  retries: 2,
+  baseDelayMs: 1,
+  ...overrides,
+});
+
+const tempDirs: string[] = [];
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  for (const dir of tempDirs.splice(0)) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+const deferred = () => {
+  let resolve: () => void = () => undefined;
+  const promise = new Promise<void>((done) => {
+    resolve = done;
+  });
+  return { promise, resolve };
+};
+
+describe("JobQueue", () => {
+  it("never runs more jobs than its concurrency and drains in order", async () => {
+    const queue = new JobQueue("test", 2);
+    const gates = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+
+    gates.forEach((gate, index) => {
+      queue.enqueue(`job-${index}`, async () => {
+        started.push(index);
+        await gate.promise;
+      });
+    });
+
+    expect(started).toEqual([0, 1]);
+    expect(queue.getStats()).toMatchObject({ running: 2, queued: 1 });
+
+    gates[0].resolve();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(started).toEqual([0, 1, 2]);
+
+    gates[1].resolve();
+    gates[2].resolve();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(queue.getStats()).toMatchObject({ running: 0, queued: 0, completed: 3 });
+  });
+
+  it("cancels queued jobs before they start and aborts running ones", async () => {
+    const queue = new JobQueue("test", 1);
+    const gate = deferred();
+    let queuedRan = false;
+    let abortedSignal: AbortSignal | null = null;
+
+    queue.enqueue("running", async (signal) => {
+      abortedSignal = signal;
+      await gate.promise;
+    });
+    queue.enqueue("queued", async () => {
+      queuedRan = true;
+    });
+
+    expect(queue.cancel("queued")).toBe(true);
+    expect(queue.cancel("running")).toBe(true);
+    expect(queue.cancel("unknown")).toBe(false);
+    expect((abortedSignal as AbortSignal | null)?.aborted).toBe(true);
+
+    gate.resolve();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(queuedRan).toBe(false);
+    expect(queue.getStats().cancelled).toBe(2);
+  });
+});
+
+describe("runStage", () => {
+  it("retries failed attempts with backoff until one succeeds", async () => {
+    let attempts = 0;
+    const result = await runStage(stage(), new AbortController().signal, async () => {
+      attempts += 1;
+      if (attempts < 3) {
+        throw new Error("flaky");
+      }
+      return "ok";
+    });
+
+    expect(result).toBe("ok");
+    expect(attempts).toBe(3);
+  });
+
+  it("fails a stage that exceeds its timeout budget on every attempt", async () => {
+    await expect(
+      runStage(stage({ timeoutMs: 5, retries: 1 }), new AbortController().signal, () => new Promise(() => undefined)),
+    ).rejects.toThrow("test stage timed out after 5ms");
+  });
+
+  it("stops retrying once the job is cancelled", async () => {
+    const controller = new AbortController();
+    let attempts = 0;
+
+    await expect(
+      runStage(stage({ baseDelayMs: 50 }), controller.signal, async () => {
+        attempts += 1;
+        setTimeout(() => controller.abort(), 0);
+        throw new Error("flaky");
+      }),
+    ).rejects.toThrow("Job cancelled");
+    expect(attempts).toBe(1);
+  });
+
+  it("aborts the attempt's signal when it times out or the job is cancelled", async () => {
+    const signals: AbortSignal[] = [];
+    const hang = (signal: AbortSignal) => {
+      signals.push(signal);
+      return new Promise<never>(() => undefined);
+    };
+
+    await expect(runStage(stage({ timeoutMs: 5, retries: 0 }), new AbortController().signal, hang)).rejects.toThrow(
+      "timed out",
+    );
+    const controller = new AbortController();
+    const cancelled = runStage(stage(), controller.signal, hang);
+    controller.abort();
+    await expect(cancelled).rejects.toThrow("Job cancelled");
+
+    expect(signals.map((signal) => [signal.aborted, String(signal.reason)])).toEqual([
+      [true, "Error: test stage timed out after 5ms"],
+      [true, "Error: Job cancelled"],
+    ]);
+  });
+});
+
+describe("analysis cancellation", () => {
+  const seedUpload = async (sessionId: string): Promise<string> => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "wondertalk-cancel-"));
+    tempDirs.push(dir);
+    const filePath = path.join(dir, "photo.jpg");
+    const size = 320;
+    const raw = Buffer.alloc(size * size * 3);
+    for (let index = 0; index < raw.length; index += 1) {
+      raw[index] = 90 + ((index * 37) % 97);
+    }
+    fs.writeFileSync(filePath, await sharp(raw, { raw: { width: size, height: size, channels: 3 } }).jpeg().toBuffer());
+
+    const uploadId = crypto.randomUUID();
+    store.uploads.set(uploadId, {
+      uploadId,
+      sessionId,
+      createdAt: new Date().toISOString(),
+      expiresAt: new Date(Date.now() + 60_000).toISOString(),
+      consumed: true,
+      filePath,
+      mimeType: "image/jpeg",
+    });
+    return `http://localhost/v1/media/${uploadId}`;
+  };
+
+  const queueIdle = async (): Promise<void> => {
+    for (let attempt = 0; attempt < 150 && analysisQueue.getStats().running > 0; attempt += 1) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+  };
+
+  it("aborts the provider call in flight and frees the worker", async () => {
+    vi.spyOn(geminiClient, "detectEntityFromImage").mockResolvedValue({
+      entity: {
+        entityId: "entity-kite",
+        label: "kite",
+        category: "other",
+        confidence: 0.95,
+        researchSubject: "kite",
+        roleplayName: "kite",
+        roleplayMode: "as_object",
+      },
+      alternatives: [],
+    });
+    const researchStarted = deferred();
+    let researchSignal: AbortSignal | undefined;
+    vi.spyOn(geminiClient, "deepResearch").mockImplementation((_entity, _domains, _ageBand, signal) => {
+      researchSignal = signal;
+      researchStarted.resolve();
+      return new Promise((_resolve, reject) => {
+        signal?.addEventListener("abort", () => reject(signal.reason as Error));
+      });
+    });
+
+    const { analysisId } = analysisService.createAnalysis({ sessionId: "session-cancel", imageUrl: await seedUpload("session-cancel") });
+    await researchStarted.promise;
+    expect(analysisService.cancelAnalysis(analysisId)).toBe(true);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(researchSignal?.aborted).toBe(true);
+    expect(analysisQueue.getStats().running).toBe(0);
+    expect(analysisService.getAnalysis(analysisId)?.status).toBe("cancelled");
+  });
+
+  it("never moves a cancelled analysis on, even when the abandoned run fails afterwards", async () => {
+    const scanStarted = deferred();
+    const scanResult = deferred();
+    vi.spyOn(ingestionService, "malwareScan").mockImplementation(async () => {
+      scanStarted.resolve();
+      await scanResult.promise;
+      return null;
+    });
+    const preprocess = vi.spyOn(ingestionService, "preprocessImage");
+
+    const { analysisId } = analysisService.createAnalysis({ sessionId: "session-cancel", imageUrl: await seedUpload("session-cancel") });
+    await scanStarted.promise;
+    analysisService.cancelAnalysis(analysisId);
+    scanResult.resolve();
+    await queueIdle();
+
+    const analysis = analysisService.getAnalysis(analysisId);
+    expect(analysis?.status).toBe("cancelled");
+    expect(analysis?.progress?.map((event) => event.stage)).toEqual(["uploaded", "scanning", "cancelled"]);
+    expect(preprocess).not.toHaveBeenCalled();
+  });
+
+  it("emits no progress events once an analysis is cancelled", async () => {
+    const scanStarted = deferred();
+    const scanResult = deferred();
+    // The scan is not a tracked stage, so a finding after the cancel still reaches the failure path.
+    vi.spyOn(ingestionService, "malwareScan").mockImplementation(async () => {
+      scanStarted.resolve();
+      await scanResult.promise;
+      return { threat: "mime_mismatch", detail: "Not a JPEG" };
+    });
+    vi.spyOn(uploadService, "quarantine").mockResolvedValue(undefined);
+
+    const { analysisId } = analysisService.createAnalysis({ sessionId: "session-cancel", imageUrl: await seedUpload("session-cancel") });
+    await scanStarted.promise;
+    analysisService.cancelAnalysis(analysisId);
+    const emitted: string[] = [];
+    const unsubscribe = analysisService.subscribe(analysisId, (event) => emitted.push(event.stage));
+    scanResult.resolve();
+    await queueIdle();
+    unsubscribe();
+
+    expect(emitted).toEqual([]);
+  });
+});
@@ -0,0 +1,124 @@
+import request from "supertest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createApp } from "../src/app.js";
+import { adminAuthService } from "../src/services/adminAuthService.js";
+import { geminiClient } from "../src/services/providers/geminiClient.js";
+import { researchService } from "../src/services/researchService.js";
+import { store } from "../src/stores/index.js";
+import type { CanonicalEntity } from "../src/types/domain.js";
+
+const eiffel = {
+  label: "Eiffel Tower",
+  category: "landmark",
+  aliases: ["La Tour Eiffel", "Tour Eiffel"],
+  summary: "A wrought-iron tower in Paris.",
+  facts: [
+    {
+      claim: "The Eiffel Tower grows about 15 centimetres taller in summer heat.",
+      source_urls: ["https://www.britannica.com/topic/Eiffel-Tower-Paris-France"],
+    },
+  ],
+};
+
+const towerPhoto: CanonicalEntity = {
+  entityId: "entity-paris-tower",
+  label: "Paris tower",
+  detectedLabel: "tour eiffel",
+  category: "landmark",
+  confidence: 0.8,
+  researchSubject: "Paris tower",
+  roleplayName: "Tower",
+  roleplayMode: "as_object",
+};
+
+const adminKey = () =>
+  adminAuthService.createApiKey({ name: "editor", scopes: ["content:read", "content:write"], createdBy: "test" }).apiKey;
+
+beforeEach(() => {
+  researchService.invalidateAll();
+  for (const [entityId] of store.knowledgeBase.entries()) {
+    store.knowledgeBase.delete(entityId);
+  }
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("knowledge base", () => {
+  it("lets editors create, version, and delete entries", async () => {
+    const app = createApp();
+    const apiKey = adminKey();
+
+    const created = await request(app).post("/v1/admin/knowledge-base").set("x-admin-key", apiKey).send(eiffel).expect(201);
+    expect(created.body).toMatchObject({ entityId: "entity-eiffel-tower", version: 1, history: [] });
+    expect(created.body.facts[0]).toMatchObject({ confidence: 0.95, sourceUrls: eiffel.facts[0].source_urls });
+
+    await request(app).post("/v1/admin/knowledge-base").set("x-admin-key", apiKey).send(eiffel).expect(409);
+    await request(app)
+      .post("/v1/admin/knowledge-base")
+      .set("x-admin-key", apiKey)
+      .send({ ...eiffel, label: "Iron Lady", aliases: ["tour-eiffel"] })
+      .expect(409);
+
+    const updated = await request(app)
+      .put("/v1/admin/knowledge-base/entity-eiffel-tower")
+      .set("x-admin-key", apiKey)
+      .send({ ...eiffel, summary: "Paris's iron landmark.", version: 1 })
+      .expect(200);
+    expect(updated.body.version).toBe(2);
+    expect(updated.body.history).toEqual([expect.objectContaining({ version: 1, summary: eiffel.summary })]);
+
+    await request(app)
+      .put("/v1/admin/knowledge-base/entity-eiffel-tower")
+      .set("x-admin-key", apiKey)
+      .send({ ...eiffel, version: 1 })
+      .expect(409);
+
+    const listed = await request(app).get("/v1/admin/knowledge-base").set("x-admin-key", apiKey).expect(200);
+    expect(listed.body).toEqual([expect.objectContaining({ entityId: "entity-eiffel-tower", factCount: 1, version: 2 })]);
+
+    await request(app).delete("/v1/admin/knowledge-base/entity-eiffel-tower").set("x-admin-key", apiKey).expect(204);
+    await request(app).get("/v1/admin/knowledge-base/entity-eiffel-tower").set("x-admin-key", apiKey).expect(404);
+    await request(app).get("/v1/admin/knowledge-base").expect(401);
+  });
+
+  it("answers from a matching entry before research or the cache", async () => {
+    const research = vi.spyOn(geminiClient, "deepResearch");
+    const before = await researchService.getFactPack(towerPhoto);
+    expect(before.source).toBe("template");
+    expect(research).toHaveBeenCalledTimes(1);
+
+    await request(createApp()).post("/v1/admin/knowledge-base").set("x-admin-key", adminKey()).send(eiffel).expect(201);
+
+    const pack = await researchService.getFactPack(towerPhoto);
+    expect(pack).toMatchObject({ source: "knowledge_base", knowledgeVersion: 1, summary: eiffel.summary });
+    expect(pack.entity.entityId).toBe(towerPhoto.entityId);
+    expect(pack.facts.map((fact) => fact.claim)).toEqual([eiffel.facts[0].claim]);
+    expect(research).toHaveBeenCalledTimes(1);
+  });
+
+  it("prefers model research over the templates", async () => {
+    vi.spyOn(geminiClient, "deepResearch").mockResolvedValue({
+      summary: "A volcano.",
+      facts: [
+        {
+          claim: "Mauna Loa is the largest active volcano on Earth.",
+          confidence: 0.8,
+          sourceUrls: ["https://www.usgs.gov/volcanoes/mauna-loa"],
+          freshnessDate: "2026-01-01",
+        },
+      ],
+    });
+
+    const pack = await researchService.getFactPack({
+      ...towerPhoto,
+      entityId: "entity-mauna-loa",
+      label: "Mauna Loa",
+      detectedLabel: undefined,
+      researchSubject: "Mauna Loa",
+    });
+    expect(pack.source).toBe("model");
+    expect(pack.summary).toBe("A volcano.");
+  });
+});
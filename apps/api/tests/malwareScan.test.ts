@@ -0,0 +1,162 @@
+import fs from "node:fs";
+import net from "node:net";
+import os from "node:os";
+import path from "node:path";
+import sharp from "sharp";
+import { afterEach, describe, expect, it } from "vitest";
+import { env } from "../src/config/env.js";
+import { analysisService } from "../src/services/analysisService.js";
+import { ingestionService } from "../src/services/ingestionService.js";
+import { ClamdScanner } from "../src/services/providers/malwareScanner.js";
+import { store } from "../src/stores/index.js";
+
+const tempDirs: string[] = [];
+const cleanup: string[] = [];
+
+// Assembled at runtime so this file is not itself flagged by antivirus on developer machines.
+const EICAR = ["X5O!P%@AP[4\\PZX54(P^)7CC)7}$", "EICAR-STANDARD-ANTIVIRUS-TEST-FILE", "!$H+H*"].join("");
+
+const jpeg = (): Promise<Buffer> =>
+  sharp({ create: { width: 64, height: 64, channels: 3, background: "#7ab" } }).jpeg().toBuffer();
+
+// Inserts a COM segment right after SOI, so the payload sits inside an otherwise valid JPEG.
+const withComment = (image: Buffer, comment: string): Buffer => {
+  const body = Buffer.from(comment, "latin1");
+  const header = Buffer.from([0xff, 0xfe, 0, 0]);
+  header.writeUInt16BE(body.length + 2, 2);
+  return Buffer.concat([image.subarray(0, 2), header, body, image.subarray(2)]);
+};
+
+const writeFile = (name: string, data: Buffer): string => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "wondertalk-scan-"));
+  tempDirs.push(dir);
+  const filePath = path.join(dir, name);
+  fs.writeFileSync(filePath, data);
+  return filePath;
+};
+
+afterEach(() => {
+  for (const target of [...tempDirs.splice(0), ...cleanup.splice(0)]) {
+    fs.rmSync(target, { recursive: true, force: true });
+  }
+});
+
+describe("upload scanning", () => {
+  it("passes a plain image", async () => {
+    expect(await ingestionService.malwareScan(writeFile("ok.jpg", await jpeg()), "image/jpeg")).toBeNull();
+  });
+
+  it("does not mistake a truncated image for a polyglot", async () => {
+    const image = await jpeg();
+    const truncated = image.subarray(0, image.lastIndexOf(Buffer.from([0xff, 0xd9])));
+
+    expect(await ingestionService.malwareScan(writeFile("cut.jpg", truncated), "image/jpeg")).toBeNull();
+  });
+
+  it("flags disguised, polyglot and oversized images", async () => {
+    const png = await sharp(await jpeg()).png().toBuffer();
+    const zipTail = Buffer.concat([await jpeg(), Buffer.from("PK\x03\x04"), Buffer.alloc(64, 7)]);
+    const phpComment = withComment(await jpeg(), "<?php system($_GET['c']); ?>");
+
+    expect((await ingestionService.malwareScan(writeFile("a.jpg", png), "image/jpeg"))?.threat).toBe("mime_mismatch");
+    expect((await ingestionService.malwareScan(writeFile("b.jpg", zipTail), "image/jpeg"))?.threat).toBe("polyglot");
+    expect((await ingestionService.malwareScan(writeFile("c.jpg", phpComment), "image/jpeg"))?.threat).toBe("polyglot");
+
+    const maxImagePixels = env.maxImagePixels;
+    env.maxImagePixels = 1000;
+    try {
+      expect((await ingestionService.malwareScan(writeFile("d.png", png), "image/png"))?.threat).toBe("decompression_bomb");
+    } finally {
+      env.maxImagePixels = maxImagePixels;
+    }
+  });
+
+  it("quarantines infected uploads, records an incident and fails the analysis", async () => {
+    const filePath = writeFile("eicar.jpg", withComment(await jpeg(), EICAR));
+    const uploadId = crypto.randomUUID();
+    store.uploads.set(uploadId, {
+      uploadId,
+      sessionId: "session-eicar",
+      createdAt: new Date().toISOString(),
+      expiresAt: new Date(Date.now() + 60_000).toISOString(),
+      consumed: true,
+      filePath,
+      mimeType: "image/jpeg",
+    });
+
+    const { analysisId } = analysisService.createAnalysis({
+      sessionId: "session-eicar",
+      imageUrl: `http://localhost/v1/media/${uploadId}`,
+    });
+    for (let attempt = 0; attempt < 100 && analysisService.getAnalysis(analysisId)?.status !== "failed"; attempt += 1) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+
+    const analysis = analysisService.getAnalysis(analysisId);
+    expect(analysis?.status).toBe("failed");
+    expect(analysis?.errorCode).toBe("malware");
+    expect(analysis?.error).toContain("Eicar-Test-Signature");
+
+    const upload = store.uploads.get(uploadId);
+    cleanup.push(upload?.quarantinedPath ?? "");
+    expect(upload?.filePath).toBeUndefined();
+    expect(upload?.quarantineReason).toBe("malware");
+    expect(fs.existsSync(filePath)).toBe(false);
+    expect(fs.existsSync(upload?.quarantinedPath ?? "")).toBe(true);
+    expect(store.incidents.list().some((incident) => incident.reason === "upload_malware" && incident.sessionId === "session-eicar")).toBe(
+      true,
+    );
+  });
+});
+
+describe("ClamdScanner", () => {
+  // Speaks just enough of clamd's INSTREAM protocol to check the framing and reply parsing.
+  const fakeClamd = (): Promise<{ port: number; close: () => void }> =>
+    new Promise((resolve) => {
+      const server = net.createServer((socket) => {
+        let buffered = Buffer.alloc(0);
+        socket.on("data", (chunk: Buffer) => {
+          buffered = Buffer.concat([buffered, chunk]);
+          if (!buffered.subarray(0, 10).equals(Buffer.from("zINSTREAM\0"))) {
+            return;
+          }
+
+          const payload: Buffer[] = [];
+          let offset = 10;
+          while (offset + 4 <= buffered.length) {
+            const size = buffered.readUInt32BE(offset);
+            if (size === 0) {
+              const infected = Buffer.concat(payload).includes("EICAR-STANDARD-ANTIVIRUS-TEST-FILE");
+              socket.end(infected ? "stream: Eicar-Test-Signature FOUND\0" : "stream: OK\0");
+              return;
+            }
+            if (offset + 4 + size > buffered.length) {
+              return;
+            }
+            payload.push(buffered.subarray(offset + 4, offset + 4 + size));
+            offset += 4 + size;
+          }
+        });
+      });
+      server.listen(0, "127.0.0.1", () => {
+        resolve({ port: (server.address() as net.AddressInfo).port, close: () => server.close() });
+      });
+    });
+
+  it("streams the file in chunks and parses clean and infected replies", async () => {
+    const clamd = await fakeClamd();
+    const scanner = new ClamdScanner({ host: "127.0.0.1", port: clamd.port, timeoutMs: 2000 });
+
+    try {
+      expect(await scanner.scan(Buffer.alloc(200 * 1024, 1))).toEqual({ infected: false });
+      expect(await scanner.scan(Buffer.from(EICAR))).toEqual({ infected: true, signature: "Eicar-Test-Signature" });
+    } finally {
+      clamd.close();
+    }
+  });
+
+  it("rejects when clamd is unreachable", async () => {
+    const scanner = new ClamdScanner({ host: "127.0.0.1", port: 1, timeoutMs: 500 });
+    await expect(scanner.scan(Buffer.from("image"))).rejects.toThrow();
+  });
+});
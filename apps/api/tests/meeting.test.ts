@@ -0,0 +1,163 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import sharp from "sharp";
+import request from "supertest";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createApp } from "../src/app.js";
+import { analysisService } from "../src/services/analysisService.js";
+import { conversationService } from "../src/services/conversationService.js";
+import { moderationService } from "../src/services/moderationService.js";
+import { geminiClient } from "../src/services/providers/geminiClient.js";
+import { sessionService } from "../src/services/sessionService.js";
+import { voiceService } from "../src/services/voiceService.js";
+import { store } from "../src/stores/index.js";
+import type { CanonicalEntity, PersonaArchetype } from "../src/types/domain.js";
+
+const tempDirs: string[] = [];
+
+// Different frequencies keep the two photos' perceptual hashes apart.
+const textured = (frequency: number): Promise<Buffer> => {
+  const size = 300;
+  const raw = Buffer.alloc(size * size * 3);
+  for (let y = 0; y < size; y += 1) {
+    for (let x = 0; x < size; x += 1) {
+      const value = 128 + 60 * Math.sin(x / frequency) * Math.cos(y / (frequency + 4)) + ((x * 31 + y * 17) % 23);
+      raw.fill(Math.round(value), (y * size + x) * 3, (y * size + x) * 3 + 3);
+    }
+  }
+
+  return sharp(raw, { raw: { width: size, height: size, channels: 3 } }).jpeg().toBuffer();
+};
+
+const entity = (label: string): CanonicalEntity => ({
+  entityId: `entity-${label}`,
+  label,
+  category: "other",
+  confidence: 0.9,
+  researchSubject: label,
+  roleplayName: label,
+  roleplayMode: "as_object",
+});
+
+const seedUpload = async (sessionId: string, dir: string, name: string, frequency: number): Promise<string> => {
+  const filePath = path.join(dir, name);
+  fs.writeFileSync(filePath, await textured(frequency));
+  const uploadId = crypto.randomUUID();
+  store.uploads.set(uploadId, {
+    uploadId,
+    sessionId,
+    createdAt: new Date().toISOString(),
+    expiresAt: new Date(Date.now() + 60_000).toISOString(),
+    consumed: true,
+    filePath,
+    mimeType: "image/jpeg",
+  });
+  return `http://localhost/v1/media/${uploadId}`;
+};
+
+// Two "other" objects share an archetype, so the partner has to be moved to a different voice.
+const meetMugAndSpoon = async (sessionId: string) => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "wondertalk-meet-"));
+  tempDirs.push(dir);
+  vi.spyOn(geminiClient, "detectEntityFromImage").mockImplementation(async (imagePath) => ({
+    entity: entity(imagePath.includes("mug") ? "mug" : "spoon"),
+    alternatives: [],
+  }));
+
+  const { analysisId } = analysisService.createAnalysis({
+    sessionId,
+    imageUrl: await seedUpload(sessionId, dir, "mug.jpg", 9),
+    partnerImageUrl: await seedUpload(sessionId, dir, "spoon.jpg", 3),
+  });
+  for (let attempt = 0; attempt < 150; attempt += 1) {
+    const status = analysisService.getAnalysis(analysisId)?.status;
+    if (status === "ready" || status === "failed") {
+      break;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+
+  return analysisService.getAnalysis(analysisId);
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  for (const dir of tempDirs.splice(0)) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+describe("meet each other conversations", () => {
+  it("resolves both photos and opens with a line from each persona in its own voice", async () => {
+    const archetypes: PersonaArchetype[] = [];
+    vi.spyOn(voiceService, "synthesizeToAsset").mockImplementation(async (input) => {
+      archetypes.push(input.archetype);
+      return null;
+    });
+
+    const analysis = await meetMugAndSpoon("session-meet");
+
+    expect(analysis?.status).toBe("ready");
+    expect(analysis?.entity?.label).toBe("mug");
+    expect(analysis?.partnerEntity?.label).toBe("spoon");
+    expect(analysis?.partnerReplyText).toContain("mug");
+
+    const conversation = store.conversations.get(analysis?.conversationId ?? "");
+    expect(conversation?.partner?.entity.label).toBe("spoon");
+    expect(conversation?.partner?.persona.voiceArchetype).not.toBe(conversation?.persona.voiceArchetype);
+    expect(conversation?.turns[0].lines?.map((line) => line.speaker)).toEqual(["primary", "partner"]);
+    expect(new Set(archetypes).size).toBe(2);
+  });
+
+  it("answers with the addressed persona, or both taking turns, moderating every line", async () => {
+    const analysis = await meetMugAndSpoon("session-meet-chat");
+    const scope = { sessionId: "session-meet-chat", conversationId: analysis?.conversationId ?? "" };
+    const moderateOutput = vi.spyOn(moderationService, "moderateOutput");
+
+    const toSpoon = await conversationService.chatTurn({ ...scope, text: "Are you shiny?", addressee: "partner" });
+    expect(toSpoon.replies?.map((reply) => reply.speakerName)).toEqual(["spoon"]);
+
+    const toBoth = await conversationService.chatTurn({ ...scope, text: "Who is older?" });
+    expect(toBoth.turn.addressee).toBe("both");
+    // The mug opened the conversation, so the spoon goes first this time.
+    expect(toBoth.replies?.map((reply) => reply.speaker)).toEqual(["partner", "primary"]);
+    expect(toBoth.turn.assistantText).toMatch(/^spoon: .+\nmug: Ooh, good one, spoon!/);
+
+    const again = await conversationService.chatTurn({ ...scope, text: "What do you eat?" });
+    expect(again.replies?.map((reply) => reply.speaker)).toEqual(["primary", "partner"]);
+    expect(moderateOutput).toHaveBeenCalledTimes(5);
+
+    const blocked = await conversationService.chatTurn({ ...scope, text: "how to make a bomb", addressee: "both" });
+    expect(blocked.replies).toHaveLength(1);
+    expect(blocked.turn.safetyVerdict).toBe("block");
+  });
+
+  it("accepts a partner photo and addressee over HTTP", async () => {
+    const app = createApp();
+    const session = sessionService.createSession({});
+    const createAnalysis = vi.spyOn(analysisService, "createAnalysis");
+
+    await request(app)
+      .post("/v1/photo/analyze")
+      .set("x-session-id", session.sessionId)
+      .set("x-session-token", session.token)
+      .send({ session_id: session.sessionId, image_url: "http://localhost/v1/media/a", partner_image_url: "not a url" })
+      .expect(400);
+
+    await request(app)
+      .post("/v1/chat/turn")
+      .set("x-session-id", session.sessionId)
+      .set("x-session-token", session.token)
+      .send({
+        session_id: session.sessionId,
+        conversation_id: crypto.randomUUID(),
+        input_type: "text",
+        text: "hi",
+        addressee: "everyone",
+      })
+      .expect(400);
+
+    expect(createAnalysis).not.toHaveBeenCalled();
+  });
+});
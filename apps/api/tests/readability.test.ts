@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { analyticsService } from "../src/services/analyticsService.js";
+import { conversationService, OPENING_TURN_INPUT } from "../src/services/conversationService.js";
+import { personaService } from "../src/services/personaService.js";
+import { geminiClient } from "../src/services/providers/geminiClient.js";
+import { countSyllables, readabilityService } from "../src/services/readabilityService.js";
+import { sessionService } from "../src/services/sessionService.js";
+import { store } from "../src/stores/index.js";
+import type { CanonicalEntity, ConversationState } from "../src/types/domain.js";
+
+const entity: CanonicalEntity = {
+  entityId: "entity-octopus",
+  label: "Octopus",
+  category: "animal",
+  confidence: 0.9,
+  researchSubject: "Octopus",
+  roleplayName: "Octavia the Octopus",
+  roleplayMode: "as_object",
+};
+
+const HARD_REPLY =
+  "Cephalopods demonstrate extraordinary neurological sophistication, distributing approximately two-thirds of their neurons throughout their appendages, which enables remarkably independent limb coordination.";
+const SIMPLE_REPLY = "I have eight arms. Each arm can taste what it grabs! What would you grab first?";
+
+const seedConversation = (sessionId: string): ConversationState => {
+  const now = new Date().toISOString();
+  const conversation: ConversationState = {
+    conversationId: crypto.randomUUID(),
+    sessionId,
+    ageBand: "7-10",
+    entity,
+    factPack: {
+      entity,
+      summary: "A clever sea animal.",
+      generatedAt: now,
+      facts: [
+        { claim: "An octopus has three hearts.", confidence: 0.9, sourceUrls: ["https://www.britannica.com"], freshnessDate: now },
+      ],
+    },
+    persona: personaService.buildPersona(entity),
+    usedFactIndexes: new Set([0]),
+    turns: [{ turnId: crypto.randomUUID(), userInput: OPENING_TURN_INPUT, assistantText: "Hi!", safetyVerdict: "allow", createdAt: now }],
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  store.conversations.set(conversation.conversationId, conversation);
+  return conversation;
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("readability", () => {
+  it("scores text against the band's limits", () => {
+    expect(countSyllables("cat")).toBe(1);
+    expect(countSyllables("octopus")).toBe(3);
+    expect(countSyllables("neurological")).toBeGreaterThanOrEqual(5);
+
+    const simple = readabilityService.score(SIMPLE_REPLY, "4-6");
+    expect(simple).toMatchObject({ ageBand: "4-6", passed: true, rareWords: [] });
+
+    const hard = readabilityService.score(HARD_REPLY, "11-13");
+    expect(hard.passed).toBe(false);
+    expect(hard.grade).toBeGreaterThan(10);
+    expect(hard.rareWords).toContain("sophistication");
+    expect(readabilityService.simplificationNote(hard)).toContain("sophistication");
+
+    // Names never count as rare words, however long.
+    const named = readabilityService.score("Tyrannosaurus is here. Say hi to Tyrannosaurus!", "4-6", ["Tyrannosaurus"]);
+    expect(named.rareWords).toEqual([]);
+  });
+
+  it("asks for one simplified rewrite, then falls back to the templates, recording each outcome", async () => {
+    const session = sessionService.createSession({ ageBand: "7-10" });
+    const conversation = seedConversation(session.sessionId);
+    const track = vi.spyOn(analyticsService, "track");
+    const generate = vi
+      .spyOn(geminiClient, "generateFollowupReply")
+      .mockResolvedValueOnce(HARD_REPLY)
+      .mockResolvedValueOnce(SIMPLE_REPLY)
+      .mockResolvedValueOnce(HARD_REPLY)
+      .mockResolvedValueOnce(HARD_REPLY);
+    const turnInput = { sessionId: session.sessionId, conversationId: conversation.conversationId };
+
+    const simplified = await conversationService.chatTurn({ ...turnInput, text: "How do you catch food?" });
+    expect(simplified.turn.assistantText).toBe(SIMPLE_REPLY);
+    expect(simplified.turn.readability).toMatchObject({ source: "simplified", passed: true, ageBand: "7-10" });
+    expect(generate.mock.calls[0][0].simplify).toBeUndefined();
+    expect(generate.mock.calls[1][0].simplify).toContain("children ages 7-10");
+
+    const fallback = await conversationService.chatTurn({ ...turnInput, text: "Why are you squishy?" });
+    expect(fallback.turn.assistantText).not.toBe(HARD_REPLY);
+    expect(fallback.turn.readability?.source).toBe("template");
+    expect(generate).toHaveBeenCalledTimes(4);
+
+    const events = track.mock.calls.filter(([eventName]) => eventName === "reply_readability");
+    expect(events.map(([, , metadata]) => metadata?.source)).toEqual(["simplified", "template"]);
+    expect(events[0][2]).toMatchObject({ conversationId: conversation.conversationId, turnId: simplified.turn.turnId, passed: true });
+    expect(analyticsService.getDashboard().replyReadability.simplified).toBeGreaterThanOrEqual(1);
+  });
+});
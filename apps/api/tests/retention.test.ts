@@ -0,0 +1,129 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import request from "supertest";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createApp } from "../src/app.js";
+import { adminAuthService } from "../src/services/adminAuthService.js";
+import { RetentionService, retentionService } from "../src/services/retentionService.js";
+import { store } from "../src/stores/index.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+const tempDirs: string[] = [];
+
+const makeService = () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "wondertalk-retention-"));
+  tempDirs.push(root);
+  const uploadDir = path.join(root, "uploads");
+  const audioDir = path.join(root, "audio");
+  fs.mkdirSync(uploadDir);
+  fs.mkdirSync(audioDir);
+
+  const service = new RetentionService({
+    uploadDir,
+    audioDir,
+    audioCacheDir: path.join(audioDir, "cache"),
+    sweepIntervalMinutes: 0,
+    uploadMinutes: 60,
+    audioMinutes: 60,
+    analysisMinutes: 60,
+    expiredSessionMinutes: 60,
+  });
+
+  return { service, uploadDir, audioDir };
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  for (const dir of tempDirs.splice(0)) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+describe("retentionService", () => {
+  it("deletes expired upload files, normalized copies, audio and records together", async () => {
+    const { service, uploadDir, audioDir } = makeService();
+    const old = new Date(Date.now() - 2 * HOUR_MS).toISOString();
+    const fresh = new Date().toISOString();
+
+    const oldImage = path.join(uploadDir, "old.jpg");
+    fs.writeFileSync(oldImage, "old");
+    fs.writeFileSync(path.join(uploadDir, "old-normalized.jpg"), "old-normalized");
+    store.uploads.set("old", {
+      uploadId: "old",
+      sessionId: "s",
+      createdAt: old,
+      expiresAt: old,
+      consumed: true,
+      filePath: oldImage,
+      mimeType: "image/jpeg",
+    });
+
+    const freshImage = path.join(uploadDir, "fresh.jpg");
+    fs.writeFileSync(freshImage, "fresh");
+    store.uploads.set("fresh", {
+      uploadId: "fresh",
+      sessionId: "s",
+      createdAt: fresh,
+      expiresAt: fresh,
+      consumed: true,
+      filePath: freshImage,
+      mimeType: "image/jpeg",
+    });
+
+    const oldAudio = path.join(audioDir, "old.wav");
+    fs.writeFileSync(oldAudio, "audio");
+    store.voiceAssets.set("old-audio", { audioId: "old-audio", contentType: "audio/wav", filePath: oldAudio, createdAt: old });
+
+    const report = await service.purge();
+
+    expect(report.uploads).toBe(1);
+    expect(report.normalizedImages).toBe(1);
+    expect(report.audio).toBe(1);
+    expect(fs.existsSync(oldImage)).toBe(false);
+    expect(fs.existsSync(oldAudio)).toBe(false);
+    expect(fs.existsSync(freshImage)).toBe(true);
+    expect(store.uploads.get("old")).toBeUndefined();
+    expect(store.uploads.get("fresh")).toBeDefined();
+    expect(store.voiceAssets.get("old-audio")).toBeUndefined();
+  });
+
+  it("drops expired sessions and unconsumed upload targets", async () => {
+    const { service } = makeService();
+    const longAgo = new Date(Date.now() - 3 * HOUR_MS).toISOString();
+
+    store.sessions.set("expired-session", {
+      sessionId: "expired-session",
+      token: "t",
+      createdAt: longAgo,
+      expiresAt: longAgo,
+      locale: "en-US",
+      userAgent: "test",
+    });
+    store.uploads.set("abandoned", {
+      uploadId: "abandoned",
+      sessionId: "expired-session",
+      createdAt: longAgo,
+      expiresAt: longAgo,
+      consumed: false,
+    });
+
+    const report = await service.purge();
+
+    expect(report.sessions).toBeGreaterThanOrEqual(1);
+    expect(report.expiredUploadTargets).toBeGreaterThanOrEqual(1);
+    expect(store.sessions.get("expired-session")).toBeUndefined();
+    expect(store.uploads.get("abandoned")).toBeUndefined();
+  });
+
+  it("answers a failed sweep with an error instead of leaving the admin request open", async () => {
+    const app = createApp();
+    const { apiKey } = adminAuthService.createApiKey({ name: "ops", scopes: ["ops:write", "analytics:read"], createdBy: "test" });
+    vi.spyOn(retentionService, "purge").mockRejectedValue(new Error("disk unavailable"));
+    vi.spyOn(retentionService, "getUsage").mockRejectedValue(new Error("disk unavailable"));
+
+    const purge = await request(app).post("/v1/admin/retention/purge").set("x-admin-key", apiKey).expect(500);
+    expect(purge.body).toEqual({ error: "Error: disk unavailable" });
+    await request(app).get("/v1/admin/retention").set("x-admin-key", apiKey).expect(500);
+  });
+});
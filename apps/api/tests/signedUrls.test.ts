@@ -0,0 +1,52 @@
+import request from "supertest";
+import { describe, expect, it } from "vitest";
+import { createApp } from "../src/app.js";
+import { store } from "../src/stores/index.js";
+import { signResourceUrl, verifyResourceSignature } from "../src/utils/signedUrls.js";
+
+const queryOf = (url: string): Record<string, string> => Object.fromEntries(new URL(url).searchParams);
+
+describe("signed URLs", () => {
+  it("verifies a URL for the resource and session it was issued for", () => {
+    const { url } = signResourceUrl("audio", "audio-1", "session-1");
+
+    expect(verifyResourceSignature("audio", "audio-1", queryOf(url))).toEqual({ sessionId: "session-1" });
+    expect(verifyResourceSignature("audio", "audio-2", queryOf(url))).toBeNull();
+    expect(verifyResourceSignature("media", "audio-1", queryOf(url))).toBeNull();
+    expect(verifyResourceSignature("audio", "audio-1", { ...queryOf(url), sid: "session-2" })).toBeNull();
+  });
+
+  it("rejects expired URLs even with a valid signature", () => {
+    const { url } = signResourceUrl("media", "upload-1", "session-1", -1);
+
+    expect(verifyResourceSignature("media", "upload-1", queryOf(url))).toBeNull();
+  });
+
+  it("returns 403 for unsigned or tampered media and audio requests", async () => {
+    const app = createApp();
+    const { url } = signResourceUrl("audio", "audio-1", "session-1");
+    const tampered = new URL(url);
+    tampered.searchParams.set("exp", String(Date.now() + 24 * 60 * 60 * 1000));
+
+    await request(app).get("/v1/media/upload-1").expect(403);
+    await request(app).get(`/v1/audio/audio-1${tampered.search}`).expect(403);
+    await request(app).put("/v1/upload/upload-1?token=anything").set("Content-Type", "image/jpeg").send(Buffer.from("x")).expect(403);
+    await request(app).get(`/v1/audio/audio-1${new URL(url).search}`).expect(404);
+  });
+
+  it("returns 410 for an upload whose file was purged", async () => {
+    const now = new Date().toISOString();
+    store.uploads.set("upload-purged", {
+      uploadId: "upload-purged",
+      sessionId: "session-1",
+      createdAt: now,
+      expiresAt: now,
+      consumed: true,
+      filePath: "/nonexistent/upload-purged.jpg",
+      mimeType: "image/jpeg",
+    });
+    const { url } = signResourceUrl("media", "upload-purged", "session-1");
+
+    await request(createApp()).get(`/v1/media/upload-purged${new URL(url).search}`).expect(410);
+  });
+});
@@ -0,0 +1,99 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import Database from "better-sqlite3";
+import { afterEach, describe, expect, it } from "vitest";
+import { migrations, runMigrations } from "../src/stores/migrations.js";
+import { SqliteStore } from "../src/stores/sqliteStore.js";
+import type { ConversationState } from "../src/types/domain.js";
+
+const tempDirs: string[] = [];
+
+const tempDbPath = (): string => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "wondertalk-store-"));
+  tempDirs.push(dir);
+  return path.join(dir, "test.db");
+};
+
+const conversation: ConversationState = {
+  conversationId: "conv-1",
+  sessionId: "session-1",
+  entity: {
+    entityId: "entity-bridge",
+    label: "Golden Gate Bridge",
+    category: "landmark",
+    confidence: 0.88,
+    researchSubject: "Golden Gate Bridge",
+    roleplayName: "Golden Gate Bridge",
+    roleplayMode: "as_object",
+  },
+  factPack: {
+    entity: {
+      entityId: "entity-bridge",
+      label: "Golden Gate Bridge",
+      category: "landmark",
+      confidence: 0.88,
+      researchSubject: "Golden Gate Bridge",
+      roleplayName: "Golden Gate Bridge",
+      roleplayMode: "as_object",
+    },
+    facts: [],
+    summary: "A famous suspension bridge.",
+    generatedAt: "2026-01-01",
+  },
+  persona: { voiceArchetype: "wise", speakingStyle: "warm", hookTemplateId: "wise-hook-1" },
+  usedFactIndexes: new Set([0, 2]),
+  turns: [],
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:00:00.000Z",
+};
+
+afterEach(() => {
+  for (const dir of tempDirs.splice(0)) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+describe("SqliteStore", () => {
+  it("persists conversations, incidents and policy across reopen", () => {
+    const filePath = tempDbPath();
+    const first = new SqliteStore(filePath);
+    first.conversations.set(conversation.conversationId, conversation);
+    first.incidents.append({
+      incidentId: "incident-1",
+      sessionId: "session-1",
+      reason: "blocked_topic",
+      payload: "test",
+      createdAt: "2026-01-01T00:00:00.000Z",
+    });
+    first.setPolicy({ ...first.getPolicy(), minFactConfidence: 0.8 });
+    first.close();
+
+    const second = new SqliteStore(filePath);
+    const restored = second.conversations.get("conv-1");
+
+    expect(restored?.usedFactIndexes).toBeInstanceOf(Set);
+    expect(Array.from(restored?.usedFactIndexes ?? [])).toEqual([0, 2]);
+    expect(second.incidents.count()).toBe(1);
+    expect(second.getPolicy().minFactConfidence).toBe(0.8);
+    second.close();
+  });
+
+  it("returns the latest log entries oldest first", () => {
+    const store = new SqliteStore(":memory:");
+    for (const signal of ["helpful", "boring", "unsafe"] as const) {
+      store.feedback.append({ sessionId: "s", turnId: signal, signal, createdAt: "2026-01-01" });
+    }
+
+    expect(store.feedback.list(2).map((item) => item.signal)).toEqual(["boring", "unsafe"]);
+    store.close();
+  });
+
+  it("applies each migration once", () => {
+    const db = new Database(":memory:");
+
+    expect(runMigrations(db)).toEqual(migrations.map((migration) => migration.version));
+    expect(runMigrations(db)).toEqual([]);
+    db.close();
+  });
+});
@@ -0,0 +1,147 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import sharp from "sharp";
+import request from "supertest";
+import { afterEach, describe, expect, it } from "vitest";
+import { createApp } from "../src/app.js";
+import { adminAuthService } from "../src/services/adminAuthService.js";
+import { analysisService } from "../src/services/analysisService.js";
+import { FileTraceExporter, type OtlpTracePayload } from "../src/services/providers/traceExporter.js";
+import { TracingService } from "../src/services/tracingService.js";
+import { store } from "../src/stores/index.js";
+import type { AnalysisResult } from "../src/types/domain.js";
+
+const tempDirs: string[] = [];
+
+const tempDir = (): string => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "wondertalk-trace-"));
+  tempDirs.push(dir);
+  return dir;
+};
+
+const textured = (): Promise<Buffer> => {
+  const size = 300;
+  const raw = Buffer.alloc(size * size * 3);
+  for (let y = 0; y < size; y += 1) {
+    for (let x = 0; x < size; x += 1) {
+      const value = 128 + 60 * Math.sin(x / 7) * Math.cos(y / 11) + ((x * 13 + y * 29) % 19);
+      raw.fill(Math.round(value), (y * size + x) * 3, (y * size + x) * 3 + 3);
+    }
+  }
+
+  return sharp(raw, { raw: { width: size, height: size, channels: 3 } }).jpeg().toBuffer();
+};
+
+afterEach(() => {
+  for (const dir of tempDirs.splice(0)) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+describe("pipeline tracing", () => {
+  it("attaches stage and provider spans to the analysis and serves them to admins only", async () => {
+    const filePath = path.join(tempDir(), "lighthouse.jpg");
+    fs.writeFileSync(filePath, await textured());
+    const uploadId = crypto.randomUUID();
+    store.uploads.set(uploadId, {
+      uploadId,
+      sessionId: "session-trace",
+      createdAt: new Date().toISOString(),
+      expiresAt: new Date(Date.now() + 60_000).toISOString(),
+      consumed: true,
+      filePath,
+      mimeType: "image/jpeg",
+    });
+
+    const { analysisId } = analysisService.createAnalysis({
+      sessionId: "session-trace",
+      imageUrl: `http://localhost/v1/media/${uploadId}`,
+    });
+    for (let attempt = 0; attempt < 150; attempt += 1) {
+      const status = analysisService.getAnalysis(analysisId)?.status;
+      if (status === "ready" || status === "failed" || status === "needs_confirmation") {
+        break;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+
+    const analysis = analysisService.getAnalysis(analysisId);
+    const spans = analysis?.spans ?? [];
+    const byName = (name: string) => spans.find((span) => span.name === name);
+    expect(spans.map((span) => span.name)).toEqual(expect.arrayContaining(["scan", "preprocess", "vision", "vision.detect"]));
+    expect(spans.every((span) => span.traceId === analysis?.traceId && span.durationMs >= 0)).toBe(true);
+    expect(byName("scan")?.provider).toBe("stand-in");
+
+    // Without a Gemini key the filename heuristic stands in for vision, which the provider span records.
+    const detect = byName("vision.detect");
+    expect(detect).toMatchObject({ provider: "gemini", fallback: true, outcome: "ok" });
+    expect(detect?.parentSpanId).toBe(byName("vision")?.spanId);
+
+    const app = createApp();
+    const { apiKey } = adminAuthService.createApiKey({ name: "tracing", scopes: ["analytics:read"], createdBy: "test" });
+    const trace = await request(app).get(`/v1/admin/analyses/${analysisId}/trace`).set("x-admin-key", apiKey).expect(200);
+    expect(trace.body.traceId).toBe(analysis?.traceId);
+    expect(trace.body.spans).toHaveLength(spans.length);
+    await request(app).get(`/v1/admin/analyses/${analysisId}/trace`).expect(401);
+
+    const dashboard = await request(app).get("/v1/admin/analytics").set("x-admin-key", apiKey).expect(200);
+    expect(dashboard.body.stageLatency.vision.count).toBeGreaterThanOrEqual(1);
+  });
+
+  it("exports finished traces as OTLP JSON and records failures on the span", async () => {
+    const filePath = path.join(tempDir(), "traces.jsonl");
+    const tracing = new TracingService(new FileTraceExporter(filePath));
+
+    await expect(
+      tracing.trace("analysis-otlp", () =>
+        tracing.span("research", {}, async () => {
+          tracing.annotate({ cacheHit: true });
+          await tracing.span("research.generate", { provider: "gemini", model: "test-model" }, async () => {
+            throw new Error("quota exceeded");
+          });
+        }),
+      ),
+    ).rejects.toThrow("quota exceeded");
+
+    for (let attempt = 0; attempt < 50 && !fs.existsSync(filePath); attempt += 1) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+
+    const payload = JSON.parse(fs.readFileSync(filePath, "utf8").trim()) as OtlpTracePayload;
+    const [child, parent] = payload.resourceSpans[0].scopeSpans[0].spans;
+    expect(child.name).toBe("research.generate");
+    expect(child.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(child.parentSpanId).toBe(parent.spanId);
+    expect(child.status).toEqual({ code: 2, message: "Error: quota exceeded" });
+    expect(child.attributes).toContainEqual({ key: "model", value: { stringValue: "test-model" } });
+    expect(BigInt(child.endTimeUnixNano) >= BigInt(child.startTimeUnixNano)).toBe(true);
+    expect(parent.attributes).toContainEqual({ key: "cache_hit", value: { boolValue: true } });
+  });
+
+  it("reports p50 and p95 latency per stage", () => {
+    const spans = Array.from({ length: 20 }, (_, index) => ({
+      traceId: "t",
+      spanId: `s${index}`,
+      name: "latency-probe",
+      outcome: "ok" as const,
+      fallback: false,
+      startedAt: new Date().toISOString(),
+      durationMs: (index + 1) * 10,
+    }));
+    store.analyses.set("analysis-latency", {
+      analysisId: "analysis-latency",
+      sessionId: "session-latency",
+      imageUrl: "http://localhost/v1/media/none",
+      status: "ready",
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      spans,
+    } as AnalysisResult);
+
+    const latency = new TracingService().latencyByStage()["latency-probe"];
+    expect(latency.count).toBe(20);
+    expect(latency.p50Ms).toBe(100);
+    expect(latency.p95Ms).toBe(190);
+  });
+});
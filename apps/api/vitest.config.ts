@@ -4,5 +4,12 @@ export default defineConfig({
   test: {
     environment: "node",
     include: ["tests/**/*.test.ts"],
+    // elheif, which encodes the HEIC fixtures, imports its wasm glue without an extension, which only Vite resolves.
+    server: { deps: { inline: ["elheif"] } },
+    env: {
+      STORE_DRIVER: "memory",
+      CITATION_FETCHER: "fixture",
+      CITATION_FIXTURE_DIR: "tests/fixtures/citations",
+    },
   },
 });
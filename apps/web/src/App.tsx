@@ -2,10 +2,25 @@ import { useEffect, useRef, useState } from "react";
 import { api } from "./lib/api";
 import { CameraCapture } from "./components/CameraCapture";
 import { ChatPanel } from "./components/ChatPanel";
+import { CandidateChoices } from "./components/CandidateChoices";
+import { DiscoveryHistory } from "./components/DiscoveryHistory";
 import { ParentGateModal } from "./components/ParentGateModal";
 import { useSpeechRecognition } from "./hooks/useSpeechRecognition";
 import { useAudioRecorder } from "./hooks/useAudioRecorder";
-import type { AnalysisResult, Message, SessionToken } from "./types";
+import { loadLastConversationId, loadSession, saveLastConversationId, saveSession } from "./lib/persistence";
+import type {
+  Addressee,
+  AnalysisProgress,
+  AnalysisResult,
+  CanonicalEntity,
+  ConversationDetail,
+  ConversationSummary,
+  EntityCandidate,
+  FocusSelection,
+  Message,
+  SessionToken,
+  SpokenLine,
+} from "./types";
 
 const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
@@ -16,10 +31,67 @@ const formatError = (error: unknown): string => {
 
 const randomId = () => (typeof crypto !== "undefined" && "randomUUID" in crypto ? crypto.randomUUID() : String(Date.now()));
 
+const statusForProgress = (progress: AnalysisProgress): string => {
+  const name = progress.entity?.roleplayName ?? progress.entity?.label;
+  if (progress.stage === "entity_detected" && name) return `I think I'm a ${name}!`;
+  if (progress.stage === "research_ready") return "Investigating cool facts super fast...";
+  if (progress.stage === "persona_built") return "Warming up my voice...";
+  if (progress.stage === "audio_ready") return "Here I come!";
+  if (progress.stage === "needs_confirmation") return "Help me figure out who I am!";
+  if (progress.retakeHint) return "Let's try that photo again!";
+  if (progress.stage === "failed" || progress.stage === "cancelled") return "Try another photo.";
+  return "Who am I? Looking closely at your photo...";
+};
+
+// Fallback for browsers or proxies where the progress stream is unavailable.
+const pollAnalysis = async (
+  session: SessionToken,
+  analysisId: string,
+  onStatus: (text: string) => void,
+): Promise<AnalysisResult | null> => {
+  let last: AnalysisResult | null = null;
+  for (let attempt = 0; attempt < 60; attempt += 1) {
+    await sleep(1000);
+    const next = await api.getAnalysis(session, analysisId);
+    last = next;
+
+    if (next.status === "processing") {
+      onStatus("Building a voice and story hook...");
+    }
+
+    if (next.status !== "queued" && next.status !== "processing") {
+      break;
+    }
+  }
+
+  return last;
+};
+
+// Two-persona turns show each persona's line as its own bubble.
+const messagesFromLines = (turnId: string, lines: SpokenLine[]): Message[] =>
+  lines.map((line, index) => ({
+    id: `${turnId}-${index}`,
+    role: "object",
+    text: line.text,
+    audioUrl: line.audioUrl,
+    speakerName: line.speakerName,
+  }));
+
+const messagesFromConversation = (conversation: ConversationDetail): Message[] =>
+  conversation.turns.flatMap((turn) => {
+    const replies: Message[] = turn.lines?.length
+      ? messagesFromLines(turn.turnId, turn.lines)
+      : [{ id: turn.turnId, role: "object", text: turn.assistantText, audioUrl: turn.audioUrl }];
+    return turn.userInput ? [{ id: `${turn.turnId}-child`, role: "child", text: turn.userInput }, ...replies] : replies;
+  });
+
 const useAudioPlayback = () => {
-  return (text: string, audioUrl?: string): void => {
+  return (text: string, audioUrl?: string, onEnded?: () => void): void => {
     if (audioUrl) {
       const audio = new Audio(audioUrl);
+      if (onEnded) {
+        audio.addEventListener("ended", onEnded, { once: true });
+      }
       void audio.play();
       return;
     }
@@ -29,6 +101,7 @@ const useAudioPlayback = () => {
       utterance.rate = 0.93;
       utterance.pitch = 1.08;
       utterance.lang = "en-US";
+      utterance.onend = onEnded ?? null;
       window.speechSynthesis.cancel();
       window.speechSynthesis.speak(utterance);
     }
@@ -38,27 +111,88 @@ const useAudioPlayback = () => {
 export default function App() {
   const [session, setSession] = useState<SessionToken | null>(null);
   const [file, setFile] = useState<File | null>(null);
-  const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
+  const [partnerFile, setPartnerFile] = useState<File | null>(null);
+  const [focus, setFocus] = useState<FocusSelection | null>(null);
+  const [entity, setEntity] = useState<CanonicalEntity | null>(null);
+  const [partnerEntity, setPartnerEntity] = useState<CanonicalEntity | null>(null);
+  const [addressee, setAddressee] = useState<Addressee>("both");
+  const [analysisId, setAnalysisId] = useState<string | null>(null);
+  const [candidates, setCandidates] = useState<EntityCandidate[]>([]);
+  const [confirming, setConfirming] = useState(false);
   const [conversationId, setConversationId] = useState<string | null>(null);
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
   const [messages, setMessages] = useState<Message[]>([]);
   const [suggestions, setSuggestions] = useState<string[]>([]);
   const [busy, setBusy] = useState(false);
   const [statusText, setStatusText] = useState("Snap a photo to start.");
   const [errorText, setErrorText] = useState<string | null>(null);
+  const [retakeHint, setRetakeHint] = useState<string | null>(null);
   const [parentGateOpen, setParentGateOpen] = useState(false);
   const [adminSnapshot, setAdminSnapshot] = useState<string>("");
 
   const transcriptRef = useRef<string>("");
 
   const playAudio = useAudioPlayback();
+  // Plays replies one after another so two personas never talk over each other.
+  const playMessages = (queue: Message[]): void => {
+    const [next, ...rest] = queue;
+    if (next) {
+      playAudio(next.text, next.audioUrl, rest.length > 0 ? () => playMessages(rest) : undefined);
+    }
+  };
   const speech = useSpeechRecognition();
   const recorder = useAudioRecorder();
 
+  const refreshConversations = async (activeSession: SessionToken): Promise<void> => {
+    try {
+      setConversations(await api.listConversations(activeSession));
+    } catch {
+      return;
+    }
+  };
+
+  const resumeConversation = async (activeSession: SessionToken, nextConversationId: string): Promise<void> => {
+    const conversation = await api.getConversation(activeSession, nextConversationId);
+    setEntity(conversation.entity);
+    setPartnerEntity(conversation.partnerEntity ?? null);
+    setAddressee("both");
+    setAnalysisId(null);
+    setCandidates([]);
+    setConfirming(false);
+    setConversationId(conversation.conversationId);
+    setMessages(messagesFromConversation(conversation));
+    setSuggestions(conversation.followupSuggestions);
+    setStatusText("Welcome back! Ask a question to keep exploring.");
+    saveLastConversationId(conversation.conversationId);
+  };
+
   useEffect(() => {
     void (async () => {
       try {
-        const createdSession = await api.createSession();
-        setSession(createdSession);
+        // Reuse the stored session after a reload so its conversations can be listed and resumed.
+        let activeSession = loadSession();
+        let history: ConversationSummary[] = [];
+        if (activeSession) {
+          try {
+            history = await api.listConversations(activeSession);
+          } catch {
+            activeSession = null;
+          }
+        }
+
+        if (!activeSession) {
+          activeSession = await api.createSession();
+          saveSession(activeSession);
+        }
+
+        setSession(activeSession);
+        setConversations(history);
+
+        const lastConversationId = loadLastConversationId();
+        const restored = history.find((item) => item.conversationId === lastConversationId) ?? history[0];
+        if (restored) {
+          await resumeConversation(activeSession, restored.conversationId);
+        }
       } catch (error) {
         setErrorText(formatError(error));
       }
@@ -104,61 +238,129 @@ export default function App() {
     try {
       setBusy(true);
       setErrorText(null);
+      setRetakeHint(null);
       setStatusText("Who am I? Looking closely at your photo...");
-      setAnalysis(null);
+      setEntity(null);
+      setPartnerEntity(null);
+      setAddressee("both");
       setConversationId(null);
       setSuggestions([]);
       setMessages([]);
 
+      setAnalysisId(null);
+      setCandidates([]);
+
       const target = await api.createUploadTarget(session);
       await api.uploadImage(target.uploadUrl, file);
 
+      let partnerImageUrl: string | undefined;
+      if (partnerFile) {
+        const partnerTarget = await api.createUploadTarget(session);
+        await api.uploadImage(partnerTarget.uploadUrl, partnerFile);
+        partnerImageUrl = partnerTarget.imageUrl;
+      }
+
       setStatusText("Investigating cool facts super fast...");
-      const started = await api.startAnalysis(session, target.imageUrl);
+      const started = await api.startAnalysis(session, target.imageUrl, { focus, partnerImageUrl });
+      setAnalysisId(started.analysisId);
+      await followAnalysis(session, started.analysisId, started.eventsUrl);
+    } catch (error) {
+      setErrorText(formatError(error));
+      setStatusText("Try another photo.");
+    } finally {
+      setBusy(false);
+    }
+  };
 
-      let last: AnalysisResult | null = null;
-      for (let attempt = 0; attempt < 60; attempt += 1) {
-        await sleep(1000);
-        const next = await api.getAnalysis(session, started.analysisId);
-        last = next;
+  const followAnalysis = async (activeSession: SessionToken, activeAnalysisId: string, eventsUrl: string): Promise<void> => {
+    const streamed = await api.streamAnalysis(eventsUrl, (progress) => {
+      if (progress.entity) {
+        setEntity(progress.entity);
+      }
+      if (progress.candidates) {
+        setCandidates(progress.candidates);
+      }
+      setStatusText(statusForProgress(progress));
+    });
 
-        if (next.status === "processing") {
-          setStatusText("Building a voice and story hook...");
-        }
+    const last = streamed
+      ? await api.getAnalysis(activeSession, activeAnalysisId)
+      : await pollAnalysis(activeSession, activeAnalysisId, setStatusText);
 
-        if (next.status === "ready" || next.status === "failed") {
-          break;
-        }
-      }
+    if (!last) {
+      throw new Error("Analysis timed out");
+    }
 
-      if (!last) {
-        throw new Error("Analysis timed out");
-      }
+    if (last.status === "failed" && last.retakeHint) {
+      setRetakeHint(last.retakeHint);
+      setStatusText("Let's try that photo again!");
+      playAudio(last.retakeHint);
+      return;
+    }
 
-      if (last.status === "failed") {
-        throw new Error(last.error ?? "Analysis failed");
-      }
+    if (last.status === "failed") {
+      throw new Error(last.error ?? "Analysis failed");
+    }
 
-      if (last.status !== "ready") {
-        throw new Error(last.error ?? "Analysis took too long. Please try another photo.");
-      }
+    if (last.status !== "ready" && last.status !== "needs_confirmation") {
+      // Free the worker slot instead of leaving a job nobody is waiting for.
+      void api.cancelAnalysis(activeSession, activeAnalysisId).catch(() => undefined);
+      throw new Error(last.error ?? "Analysis took too long. Please try another photo.");
+    }
 
-      setAnalysis(last);
-      setConversationId(last.conversationId ?? null);
+    setEntity(last.entity ?? null);
+    setPartnerEntity(last.partnerEntity ?? null);
+    setCandidates(last.candidates ?? []);
+    setConfirming(last.status === "needs_confirmation");
+    setConversationId(last.conversationId ?? null);
+    saveLastConversationId(last.conversationId ?? null);
+    void refreshConversations(activeSession);
+
+    const firstMessage: Message = {
+      id: randomId(),
+      role: "object",
+      text: last.firstReplyText ?? "I'm ready to explore with you!",
+      audioUrl: last.firstReplyAudioStreamUrl,
+      speakerName: last.partnerEntity ? (last.entity?.roleplayName ?? last.entity?.label) : undefined,
+    };
+    const openingMessages: Message[] =
+      last.partnerEntity && last.partnerReplyText
+        ? [
+            firstMessage,
+            {
+              id: randomId(),
+              role: "object",
+              text: last.partnerReplyText,
+              audioUrl: last.partnerReplyAudioStreamUrl,
+              speakerName: last.partnerEntity.roleplayName ?? last.partnerEntity.label,
+            },
+          ]
+        : [firstMessage];
+
+    setMessages(openingMessages);
+    setStatusText(
+      last.status === "needs_confirmation"
+        ? "Tell me what you see, or press Mic to answer."
+        : "Ask a question or press Mic to keep exploring.",
+    );
+    playMessages(openingMessages);
+  };
 
-      const firstMessage: Message = {
-        id: randomId(),
-        role: "object",
-        text: last.firstReplyText ?? "I'm ready to explore with you!",
-        audioUrl: last.firstReplyAudioStreamUrl,
-      };
+  const handleChooseCandidate = async (candidateId: string): Promise<void> => {
+    if (!session || !analysisId || candidateId === entity?.entityId) {
+      return;
+    }
 
-      setMessages([firstMessage]);
-      setStatusText("Ask a question or press Mic to keep exploring.");
-      playAudio(firstMessage.text, firstMessage.audioUrl);
+    try {
+      setBusy(true);
+      setErrorText(null);
+      setConversationId(null);
+      setSuggestions([]);
+      setMessages([]);
+      const eventsUrl = await api.retargetAnalysis(session, analysisId, candidateId);
+      await followAnalysis(session, analysisId, eventsUrl);
     } catch (error) {
       setErrorText(formatError(error));
-      setStatusText("Try another photo.");
     } finally {
       setBusy(false);
     }
@@ -179,18 +381,42 @@ export default function App() {
         session,
         conversationId,
         text: text.trim(),
+        addressee: partnerEntity ? addressee : undefined,
       });
 
-      const objectMessage: Message = {
-        id: turn.turnId,
-        role: "object",
-        text: turn.replyText,
-        audioUrl: turn.replyAudioStreamUrl,
-      };
+      const objectMessages: Message[] = turn.replies?.length
+        ? messagesFromLines(turn.turnId, turn.replies)
+        : [{ id: turn.turnId, role: "object", text: turn.replyText, audioUrl: turn.replyAudioStreamUrl }];
 
-      setMessages((prev) => [...prev, objectMessage]);
+      setMessages((prev) => [...prev, ...objectMessages]);
       setSuggestions(turn.followupSuggestions);
-      playAudio(objectMessage.text, objectMessage.audioUrl);
+      playMessages(objectMessages);
+      void refreshConversations(session);
+
+      // The answer to the guessing game may have settled who is talking.
+      if (confirming && analysisId) {
+        const settled = await api.getAnalysis(session, analysisId);
+        if (settled.status === "ready") {
+          setEntity(settled.entity ?? null);
+          setConfirming(false);
+        }
+      }
+    } catch (error) {
+      setErrorText(formatError(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSelectConversation = async (nextConversationId: string): Promise<void> => {
+    if (!session || nextConversationId === conversationId) {
+      return;
+    }
+
+    try {
+      setBusy(true);
+      setErrorText(null);
+      await resumeConversation(session, nextConversationId);
     } catch (error) {
       setErrorText(formatError(error));
     } finally {
@@ -244,30 +470,62 @@ export default function App() {
       </header>
 
       <main className="content-grid">
-        <CameraCapture file={file} busy={busy} onFileSelected={setFile} />
+        <CameraCapture
+          file={file}
+          partnerFile={partnerFile}
+          busy={busy}
+          focus={focus}
+          onFileSelected={(nextFile) => {
+            setFile(nextFile);
+            setFocus(null);
+          }}
+          onPartnerFileSelected={setPartnerFile}
+          onFocusChange={setFocus}
+        />
 
         <section className="status-card">
           <h2>Discovery Status</h2>
           <p className="status-text">{statusText}</p>
 
-          {analysis?.entity ? (
+          {entity ? (
+            <div className="entity-pill">
+              <strong>{entity.label}</strong>
+              <span>{Math.round(entity.confidence * 100)}% match</span>
+            </div>
+          ) : null}
+          {partnerEntity ? (
             <div className="entity-pill">
-              <strong>{analysis.entity.label}</strong>
-              <span>{Math.round(analysis.entity.confidence * 100)}% match</span>
+              <strong>{partnerEntity.label}</strong>
+              <span>{Math.round(partnerEntity.confidence * 100)}% match</span>
             </div>
           ) : null}
 
+          <CandidateChoices
+            candidates={candidates}
+            activeEntityId={entity?.entityId ?? null}
+            loading={busy}
+            onChoose={(candidateId) => void handleChooseCandidate(candidateId)}
+          />
+
           <button type="button" disabled={!file || busy || !session} className="cta" onClick={() => void startAnalysis()}>
             {busy ? "Discovering..." : "Bring It to Life"}
           </button>
 
           {speech.error ? <p className="error-text">{speech.error}</p> : null}
           {recorder.error ? <p className="error-text">{recorder.error}</p> : null}
+          {retakeHint ? <p className="retake-hint">{retakeHint}</p> : null}
           {errorText ? <p className="error-text">{errorText}</p> : null}
         </section>
 
         <ChatPanel
           messages={messages}
+          participants={
+            entity && partnerEntity
+              ? { primary: entity.roleplayName ?? entity.label, partner: partnerEntity.roleplayName ?? partnerEntity.label }
+              : null
+          }
+          addressee={addressee}
+          onAddresseeChange={setAddressee}
           suggestions={suggestions}
           loading={busy}
           onSend={handleSendQuestion}
@@ -276,6 +534,13 @@ export default function App() {
           listening={speech.listening || recorder.recording}
           speechSupported={speech.supported || recorder.supported}
         />
+
+        <DiscoveryHistory
+          conversations={conversations}
+          activeConversationId={conversationId}
+          loading={busy}
+          onSelect={(nextConversationId) => void handleSelectConversation(nextConversationId)}
+        />
       </main>
 
       {adminSnapshot ? (
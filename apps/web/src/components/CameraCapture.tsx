@@ -1,16 +1,63 @@
-import { useMemo } from "react";
+import { useMemo, useState, type PointerEvent } from "react";
+import type { FocusSelection } from "../types";
 
 type CameraCaptureProps = {
   file: File | null;
+  partnerFile: File | null;
   busy: boolean;
+  focus: FocusSelection | null;
   onFileSelected: (file: File) => void;
+  onPartnerFileSelected: (file: File | null) => void;
+  onFocusChange: (focus: FocusSelection | null) => void;
 };
 
-export const CameraCapture = ({ file, busy, onFileSelected }: CameraCaptureProps) => {
+type Point = { x: number; y: number };
+
+// Drags shorter than this (as a fraction of the photo) count as a tap.
+const TAP_TOLERANCE = 0.03;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+const toSelection = (start: Point, end: Point): FocusSelection => {
+  const width = Math.abs(end.x - start.x);
+  const height = Math.abs(end.y - start.y);
+  if (width < TAP_TOLERANCE && height < TAP_TOLERANCE) {
+    return { x: end.x, y: end.y };
+  }
+
+  return { x: Math.min(start.x, end.x), y: Math.min(start.y, end.y), width, height };
+};
+
+export const CameraCapture = ({
+  file,
+  partnerFile,
+  busy,
+  focus,
+  onFileSelected,
+  onPartnerFileSelected,
+  onFocusChange,
+}: CameraCaptureProps) => {
   const previewUrl = useMemo(() => {
     if (!file) return null;
     return URL.createObjectURL(file);
   }, [file]);
+  const partnerPreviewUrl = useMemo(() => {
+    if (!partnerFile) return null;
+    return URL.createObjectURL(partnerFile);
+  }, [partnerFile]);
+  const [dragStart, setDragStart] = useState<Point | null>(null);
+  const [dragEnd, setDragEnd] = useState<Point | null>(null);
+
+  const pointFrom = (event: PointerEvent<HTMLDivElement>): Point => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    return {
+      x: clamp((event.clientX - bounds.left) / bounds.width),
+      y: clamp((event.clientY - bounds.top) / bounds.height),
+    };
+  };
+
+  // While dragging the live box is shown; otherwise whatever was last selected.
+  const shown = dragStart && dragEnd ? toSelection(dragStart, dragEnd) : focus;
 
   return (
     <section className="capture-card">
@@ -22,7 +69,7 @@ export const CameraCapture = ({ file, busy, onFileSelected }: CameraCaptureProps
       <label className={`capture-input ${busy ? "disabled" : ""}`}>
         <input
           type="file"
-          accept="image/jpeg,image/png,image/webp,image/*"
+          accept="image/jpeg,image/png,image/webp,image/heic,image/heif,image/avif,image/*"
           capture="environment"
           disabled={busy}
           onChange={(event) => {
@@ -35,7 +82,87 @@ export const CameraCapture = ({ file, busy, onFileSelected }: CameraCaptureProps
         <span>{busy ? "Working..." : "Open Camera or Gallery"}</span>
       </label>
 
-      {previewUrl ? <img src={previewUrl} alt="preview" className="capture-preview" /> : null}
+      {previewUrl ? (
+        <>
+          <div
+            className={`capture-stage ${busy ? "disabled" : ""}`}
+            onPointerDown={(event) => {
+              if (busy) return;
+              event.currentTarget.setPointerCapture(event.pointerId);
+              const point = pointFrom(event);
+              setDragStart(point);
+              setDragEnd(point);
+            }}
+            onPointerMove={(event) => {
+              if (dragStart) {
+                setDragEnd(pointFrom(event));
+              }
+            }}
+            onPointerUp={(event) => {
+              if (dragStart) {
+                onFocusChange(toSelection(dragStart, pointFrom(event)));
+              }
+              setDragStart(null);
+              setDragEnd(null);
+            }}
+            onPointerCancel={() => {
+              setDragStart(null);
+              setDragEnd(null);
+            }}
+          >
+            <img src={previewUrl} alt="preview" className="capture-preview" draggable={false} />
+            {shown?.width !== undefined && shown.height !== undefined ? (
+              <span
+                className="focus-box"
+                style={{
+                  left: `${shown.x * 100}%`,
+                  top: `${shown.y * 100}%`,
+                  width: `${shown.width * 100}%`,
+                  height: `${shown.height * 100}%`,
+                }}
+              />
+            ) : shown ? (
+              <span className="focus-dot" style={{ left: `${shown.x * 100}%`, top: `${shown.y * 100}%` }} />
+            ) : null}
+          </div>
+          <p className="focus-hint">
+            {focus ? "Got it! I'll look right there." : "Tap or drag over the thing you want to talk to."}
+            {focus && !busy ? (
+              <button type="button" className="focus-clear" onClick={() => onFocusChange(null)}>
+                Whole photo
+              </button>
+            ) : null}
+          </p>
+
+          {partnerPreviewUrl ? (
+            <div className="partner-preview">
+              <img src={partnerPreviewUrl} alt="second thing to meet" />
+              <span>They'll meet each other!</span>
+              {!busy ? (
+                <button type="button" className="focus-clear" onClick={() => onPartnerFileSelected(null)}>
+                  Just one
+                </button>
+              ) : null}
+            </div>
+          ) : (
+            <label className={`capture-input partner-input ${busy ? "disabled" : ""}`}>
+              <input
+                type="file"
+                accept="image/jpeg,image/png,image/webp,image/heic,image/heif,image/avif,image/*"
+                capture="environment"
+                disabled={busy}
+                onChange={(event) => {
+                  const nextFile = event.target.files?.[0];
+                  if (nextFile) {
+                    onPartnerFileSelected(nextFile);
+                  }
+                }}
+              />
+              <span>Add a Second Thing to Meet</span>
+            </label>
+          )}
+        </>
+      ) : null}
     </section>
   );
 };
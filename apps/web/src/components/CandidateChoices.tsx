@@ -0,0 +1,33 @@
+import type { EntityCandidate } from "../types";
+
+type CandidateChoicesProps = {
+  candidates: EntityCandidate[];
+  activeEntityId: string | null;
+  loading: boolean;
+  onChoose: (candidateId: string) => void;
+};
+
+export const CandidateChoices = ({ candidates, activeEntityId, loading, onChoose }: CandidateChoicesProps) => {
+  if (candidates.length < 2) {
+    return null;
+  }
+
+  return (
+    <div className="candidate-choices">
+      <p>Who should talk?</p>
+      <div className="candidate-list">
+        {candidates.map((candidate) => (
+          <button
+            key={candidate.entityId}
+            type="button"
+            disabled={loading}
+            className={candidate.entityId === activeEntityId ? "active" : ""}
+            onClick={() => onChoose(candidate.entityId)}
+          >
+            {candidate.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,8 +1,12 @@
 import { FormEvent, useState } from "react";
-import type { Message } from "../types";
+import type { Addressee, Message, Speaker } from "../types";
 
 type ChatPanelProps = {
   messages: Message[];
+  // Names of both personas in a "meet each other" conversation; null when there is only one.
+  participants: Record<Speaker, string> | null;
+  addressee: Addressee;
+  onAddresseeChange: (addressee: Addressee) => void;
   suggestions: string[];
   loading: boolean;
   onSend: (text: string) => Promise<void>;
@@ -14,6 +18,9 @@ type ChatPanelProps = {
 
 export const ChatPanel = ({
   messages,
+  participants,
+  addressee,
+  onAddresseeChange,
   suggestions,
   loading,
   onSend,
@@ -42,6 +49,7 @@ export const ChatPanel = ({
       <div className="messages" aria-live="polite">
         {messages.map((message) => (
           <article key={message.id} className={`message ${message.role}`}>
+            {message.speakerName ? <span className="speaker-name">{message.speakerName}</span> : null}
             <p>{message.text}</p>
             {message.audioUrl ? (
               <audio controls preload="none">
@@ -62,11 +70,27 @@ export const ChatPanel = ({
         </div>
       ) : null}
 
+      {participants ? (
+        <div className="addressee-picker" role="group" aria-label="Who are you talking to?">
+          {(["primary", "partner", "both"] as const).map((option) => (
+            <button
+              key={option}
+              type="button"
+              disabled={loading}
+              className={addressee === option ? "active" : ""}
+              onClick={() => onAddresseeChange(option)}
+            >
+              {option === "both" ? "Both" : participants[option]}
+            </button>
+          ))}
+        </div>
+      ) : null}
+
       <form className="chat-input" onSubmit={handleSubmit}>
         <input
           value={value}
           onChange={(event) => setValue(event.target.value)}
-          placeholder="Ask your object a question..."
+          placeholder={participants ? "Ask them a question..." : "Ask your object a question..."}
           maxLength={240}
         />
         <button disabled={loading || !value.trim()} type="submit">
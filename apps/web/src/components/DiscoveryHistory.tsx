@@ -0,0 +1,40 @@
+import type { ConversationSummary } from "../types";
+
+type DiscoveryHistoryProps = {
+  conversations: ConversationSummary[];
+  activeConversationId: string | null;
+  loading: boolean;
+  onSelect: (conversationId: string) => void;
+};
+
+export const DiscoveryHistory = ({ conversations, activeConversationId, loading, onSelect }: DiscoveryHistoryProps) => {
+  if (conversations.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="history-card">
+      <h2>Earlier Discoveries</h2>
+
+      <div className="history-list">
+        {conversations.map((conversation) => (
+          <button
+            key={conversation.conversationId}
+            type="button"
+            disabled={loading}
+            className={conversation.conversationId === activeConversationId ? "active" : ""}
+            onClick={() => onSelect(conversation.conversationId)}
+          >
+            <strong>
+              {conversation.entity.roleplayName ?? conversation.entity.label}
+              {conversation.partnerEntity
+                ? ` & ${conversation.partnerEntity.roleplayName ?? conversation.partnerEntity.label}`
+                : null}
+            </strong>
+            <span>{conversation.lastReplyText ?? "Tap to keep exploring."}</span>
+          </button>
+        ))}
+      </div>
+    </section>
+  );
+};
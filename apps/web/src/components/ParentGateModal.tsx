@@ -40,8 +40,9 @@ export const ParentGateModal = ({ open, onClose, onUnlocked }: ParentGateModalPr
           <input
             value={adminKey}
             onChange={(event) => setAdminKey(event.target.value)}
-            placeholder="parent-mode"
+            placeholder="wtk_..."
             autoCapitalize="off"
+            autoComplete="off"
           />
         </label>
 
@@ -55,7 +56,11 @@ export const ParentGateModal = ({ open, onClose, onUnlocked }: ParentGateModalPr
                 setError("Math check failed.");
                 return;
               }
-              onUnlocked(adminKey.trim() || "parent-mode");
+              if (!adminKey.trim()) {
+                setError("Enter an admin API key.");
+                return;
+              }
+              onUnlocked(adminKey.trim());
               onClose();
             }}
           >
@@ -1,7 +1,29 @@
-import type { AnalysisResult, ChatTurnResult, SessionToken } from "../types";
+import type {
+  Addressee,
+  AnalysisProgress,
+  AnalysisResult,
+  CanonicalEntity,
+  ChatTurnResult,
+  ConversationDetail,
+  ConversationSummary,
+  ConversationTurn,
+  FocusSelection,
+  SessionToken,
+  Speaker,
+} from "../types";
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL ?? "http://localhost:8787";
 
+// Some browsers leave `type` empty for HEIC/HEIF/AVIF files, so the extension decides.
+const imageTypeOf = (file: File): string => {
+  if (file.type) {
+    return file.type;
+  }
+
+  const extension = file.name.split(".").pop()?.toLowerCase();
+  return extension === "heic" || extension === "heif" || extension === "avif" ? `image/${extension}` : "image/jpeg";
+};
+
 const authHeaders = (session: SessionToken): HeadersInit => ({
   "x-session-id": session.sessionId,
   "x-session-token": session.token,
@@ -58,7 +80,7 @@ export const api = {
   async uploadImage(uploadUrl: string, file: File): Promise<void> {
     const response = await fetch(uploadUrl, {
       method: "PUT",
-      headers: { "Content-Type": file.type || "image/jpeg" },
+      headers: { "Content-Type": imageTypeOf(file) },
       body: await file.arrayBuffer(),
     });
 
@@ -68,27 +90,37 @@ export const api = {
     }
   },
 
-  async startAnalysis(session: SessionToken, imageUrl: string): Promise<{ analysisId: string; status: string }> {
+  // A partner image turns the analysis into a "meet each other" conversation between both photos' subjects.
+  async startAnalysis(
+    session: SessionToken,
+    imageUrl: string,
+    options: { focus?: FocusSelection | null; partnerImageUrl?: string } = {},
+  ): Promise<{ analysisId: string; status: string; eventsUrl: string }> {
     const response = await fetch(`${API_BASE_URL}/v1/photo/analyze`, {
       method: "POST",
       headers: authHeaders(session),
-      body: JSON.stringify({ session_id: session.sessionId, image_url: imageUrl }),
+      body: JSON.stringify({
+        session_id: session.sessionId,
+        image_url: imageUrl,
+        focus: options.focus ?? undefined,
+        partner_image_url: options.partnerImageUrl,
+      }),
     });
 
     if (!response.ok) {
       throw new Error(`Analysis start failed (${response.status})`);
     }
 
-    const payload = (await response.json()) as { analysis_id: string; status: string };
+    const payload = (await response.json()) as { analysis_id: string; status: string; events_url: string };
     return {
       analysisId: payload.analysis_id,
       status: payload.status,
+      eventsUrl: payload.events_url,
     };
   },
 
   async getAnalysis(session: SessionToken, analysisId: string): Promise<AnalysisResult> {
-    const query = new URLSearchParams({ session_id: session.sessionId, token: session.token }).toString();
-    const response = await fetch(`${API_BASE_URL}/v1/photo/analyze/${analysisId}?${query}`, {
+    const response = await fetch(`${API_BASE_URL}/v1/photo/analyze/${analysisId}`, {
       headers: authHeaders(session),
     });
 
@@ -100,32 +132,126 @@ export const api = {
       analysis_id: string;
       status: AnalysisResult["status"];
       entity?: AnalysisResult["entity"];
+      candidates?: AnalysisResult["candidates"];
       hook_text?: string;
       first_reply_text?: string;
       first_reply_audio_stream_url?: string;
+      partner_entity?: AnalysisResult["partnerEntity"];
+      partner_reply_text?: string;
+      partner_reply_audio_stream_url?: string;
       safety_status?: AnalysisResult["safetyStatus"];
       conversation_id?: string;
       error?: string;
+      error_code?: AnalysisResult["errorCode"];
+      retake_hint?: string;
     };
 
     return {
       analysisId: payload.analysis_id,
       status: payload.status,
       entity: payload.entity,
+      candidates: payload.candidates,
       hookText: payload.hook_text,
       firstReplyText: payload.first_reply_text,
       firstReplyAudioStreamUrl: payload.first_reply_audio_stream_url,
+      partnerEntity: payload.partner_entity,
+      partnerReplyText: payload.partner_reply_text,
+      partnerReplyAudioStreamUrl: payload.partner_reply_audio_stream_url,
       safetyStatus: payload.safety_status,
       conversationId: payload.conversation_id,
       error: payload.error,
+      errorCode: payload.error_code,
+      retakeHint: payload.retake_hint,
     };
   },
 
+  // Resolves true once the analysis settles, or false if the stream drops first so the caller can poll instead.
+  // `eventsUrl` is the short-lived signed URL the API returned when the analysis was started or retargeted.
+  streamAnalysis(eventsUrl: string, onProgress: (progress: AnalysisProgress) => void): Promise<boolean> {
+    if (typeof EventSource === "undefined") {
+      return Promise.resolve(false);
+    }
+
+    const source = new EventSource(eventsUrl);
+    const stages: AnalysisProgress["stage"][] = [
+      "uploaded",
+      "scanning",
+      "entity_detected",
+      "research_ready",
+      "persona_built",
+      "needs_confirmation",
+      "audio_ready",
+      "failed",
+      "cancelled",
+    ];
+
+    return new Promise((resolve) => {
+      for (const stage of stages) {
+        source.addEventListener(stage, (event) => {
+          const payload = JSON.parse((event as MessageEvent<string>).data) as {
+            entity?: AnalysisProgress["entity"];
+            candidates?: AnalysisProgress["candidates"];
+            first_reply_text?: string;
+            error?: string;
+            retake_hint?: string;
+          };
+
+          onProgress({
+            stage,
+            entity: payload.entity,
+            candidates: payload.candidates,
+            firstReplyText: payload.first_reply_text,
+            error: payload.error,
+            retakeHint: payload.retake_hint,
+          });
+          if (stage === "audio_ready" || stage === "needs_confirmation" || stage === "failed" || stage === "cancelled") {
+            source.close();
+            resolve(true);
+          }
+        });
+      }
+
+      source.onerror = () => {
+        source.close();
+        resolve(false);
+      };
+    });
+  },
+
+  // Resolves the signed events URL for following the re-run.
+  async retargetAnalysis(session: SessionToken, analysisId: string, candidateId: string): Promise<string> {
+    const response = await fetch(`${API_BASE_URL}/v1/photo/analyze/${analysisId}/retarget`, {
+      method: "POST",
+      headers: authHeaders(session),
+      body: JSON.stringify({ candidate_id: candidateId }),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text();
+      throw new Error(`Choosing a different subject failed (${response.status}): ${detail}`);
+    }
+
+    const payload = (await response.json()) as { events_url: string };
+    return payload.events_url;
+  },
+
+  async cancelAnalysis(session: SessionToken, analysisId: string): Promise<void> {
+    const response = await fetch(`${API_BASE_URL}/v1/photo/analyze/${analysisId}`, {
+      method: "DELETE",
+      headers: authHeaders(session),
+    });
+
+    if (!response.ok && response.status !== 409) {
+      throw new Error(`Analysis cancel failed (${response.status})`);
+    }
+  },
+
   async chatTurn(input: {
     session: SessionToken;
     conversationId: string;
     text?: string;
     audioBlobUrl?: string;
+    addressee?: Addressee;
   }): Promise<ChatTurnResult> {
     const response = await fetch(`${API_BASE_URL}/v1/chat/turn`, {
       method: "POST",
@@ -136,6 +262,7 @@ export const api = {
         input_type: input.text ? "text" : "voice",
         text: input.text,
         audio_blob_url: input.audioBlobUrl,
+        addressee: input.addressee,
       }),
     });
 
@@ -150,6 +277,7 @@ export const api = {
       reply_audio_stream_url?: string;
       followup_suggestions: string[];
       safety_verdict: ChatTurnResult["safetyVerdict"];
+      replies?: Array<{ speaker: Speaker; speaker_name: string; text: string; audio_stream_url?: string }>;
     };
 
     return {
@@ -158,6 +286,91 @@ export const api = {
       replyAudioStreamUrl: payload.reply_audio_stream_url,
       followupSuggestions: payload.followup_suggestions,
       safetyVerdict: payload.safety_verdict,
+      replies: payload.replies?.map((reply) => ({
+        speaker: reply.speaker,
+        speakerName: reply.speaker_name,
+        text: reply.text,
+        audioUrl: reply.audio_stream_url,
+      })),
+    };
+  },
+
+  async listConversations(session: SessionToken): Promise<ConversationSummary[]> {
+    const response = await fetch(`${API_BASE_URL}/v1/conversations`, {
+      headers: authHeaders(session),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Conversation list failed (${response.status})`);
+    }
+
+    const payload = (await response.json()) as {
+      conversations: Array<{
+        conversation_id: string;
+        entity: ConversationSummary["entity"];
+        partner_entity?: ConversationSummary["entity"];
+        turn_count: number;
+        last_reply_text?: string;
+        updated_at: string;
+      }>;
+    };
+
+    return payload.conversations.map((conversation) => ({
+      conversationId: conversation.conversation_id,
+      entity: conversation.entity,
+      partnerEntity: conversation.partner_entity,
+      turnCount: conversation.turn_count,
+      lastReplyText: conversation.last_reply_text,
+      updatedAt: conversation.updated_at,
+    }));
+  },
+
+  async getConversation(session: SessionToken, conversationId: string): Promise<ConversationDetail> {
+    const response = await fetch(`${API_BASE_URL}/v1/conversations/${conversationId}`, {
+      headers: authHeaders(session),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Conversation fetch failed (${response.status})`);
+    }
+
+    const payload = (await response.json()) as {
+      conversation_id: string;
+      entity: ConversationDetail["entity"];
+      partner?: { entity: CanonicalEntity };
+      turns: Array<{
+        turn_id: string;
+        user_input: string | null;
+        assistant_text: string;
+        safety_verdict: ConversationTurn["safetyVerdict"];
+        audio_url?: string;
+        lines?: Array<{ speaker: Speaker; speaker_name: string; text: string; audio_url?: string }>;
+        created_at: string;
+      }>;
+      followup_suggestions: string[];
+      updated_at: string;
+    };
+
+    return {
+      conversationId: payload.conversation_id,
+      entity: payload.entity,
+      partnerEntity: payload.partner?.entity,
+      turns: payload.turns.map((turn) => ({
+        turnId: turn.turn_id,
+        userInput: turn.user_input,
+        assistantText: turn.assistant_text,
+        safetyVerdict: turn.safety_verdict,
+        audioUrl: turn.audio_url,
+        lines: turn.lines?.map((line) => ({
+          speaker: line.speaker,
+          speakerName: line.speaker_name,
+          text: line.text,
+          audioUrl: line.audio_url,
+        })),
+        createdAt: turn.created_at,
+      })),
+      followupSuggestions: payload.followup_suggestions,
+      updatedAt: payload.updated_at,
     };
   },
 
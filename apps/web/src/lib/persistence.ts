@@ -0,0 +1,49 @@
+import type { SessionToken } from "../types";
+
+const SESSION_KEY = "wondertalk.session";
+const LAST_CONVERSATION_KEY = "wondertalk.lastConversationId";
+
+// Storage can throw in private browsing; losing persistence just means starting fresh.
+const read = (key: string): string | null => {
+  try {
+    return window.localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+};
+
+const write = (key: string, value: string | null): void => {
+  try {
+    if (value === null) {
+      window.localStorage.removeItem(key);
+    } else {
+      window.localStorage.setItem(key, value);
+    }
+  } catch {
+    return;
+  }
+};
+
+export const loadSession = (): SessionToken | null => {
+  const raw = read(SESSION_KEY);
+  if (!raw) {
+    return null;
+  }
+
+  try {
+    const session = JSON.parse(raw) as SessionToken;
+    return Date.parse(session.expiresAt) > Date.now() ? session : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveSession = (session: SessionToken | null): void => {
+  write(SESSION_KEY, session ? JSON.stringify(session) : null);
+};
+
+export const loadLastConversationId = (): string | null => read(LAST_CONVERSATION_KEY);
+
+export const saveLastConversationId = (conversationId: string | null): void => {
+  write(LAST_CONVERSATION_KEY, conversationId);
+};
@@ -24,16 +24,78 @@ export type CanonicalEntity = {
   roleplayMode?: "as_object" | "as_character";
 };
 
+export type EntityCandidate = {
+  entityId: string;
+  label: string;
+  confidence: number;
+};
+
+// Fractions of the photo: a tap is a point, a drag adds width/height with x/y as the top-left corner.
+export type FocusSelection = {
+  x: number;
+  y: number;
+  width?: number;
+  height?: number;
+};
+
+export type Speaker = "primary" | "partner";
+
+export type Addressee = Speaker | "both";
+
 export type AnalysisResult = {
   analysisId: string;
-  status: "queued" | "processing" | "ready" | "failed";
+  status: "queued" | "processing" | "needs_confirmation" | "ready" | "failed" | "cancelled";
   entity?: CanonicalEntity;
+  candidates?: EntityCandidate[];
   hookText?: string;
   firstReplyText?: string;
   firstReplyAudioStreamUrl?: string;
+  partnerEntity?: CanonicalEntity;
+  partnerReplyText?: string;
+  partnerReplyAudioStreamUrl?: string;
   safetyStatus?: "allow" | "transform" | "block";
   conversationId?: string;
   error?: string;
+  errorCode?:
+    | "too_small"
+    | "too_dark"
+    | "too_bright"
+    | "uniform"
+    | "blurry"
+    | "unsupported_format"
+    | "malware"
+    | "mime_mismatch"
+    | "polyglot"
+    | "decompression_bomb";
+  retakeHint?: string;
+};
+
+export type AnalysisStage =
+  | "uploaded"
+  | "scanning"
+  | "entity_detected"
+  | "research_ready"
+  | "persona_built"
+  | "needs_confirmation"
+  | "audio_ready"
+  | "failed"
+  | "cancelled";
+
+export type AnalysisProgress = {
+  stage: AnalysisStage;
+  entity?: CanonicalEntity;
+  candidates?: EntityCandidate[];
+  firstReplyText?: string;
+  error?: string;
+  retakeHint?: string;
+};
+
+// One persona's part of a reply in a "meet each other" conversation.
+export type SpokenLine = {
+  speaker: Speaker;
+  speakerName: string;
+  text: string;
+  audioUrl?: string;
 };
 
 export type ChatTurnResult = {
@@ -42,6 +104,35 @@ export type ChatTurnResult = {
   replyAudioStreamUrl?: string;
   followupSuggestions: string[];
   safetyVerdict: "allow" | "transform" | "block";
+  replies?: SpokenLine[];
+};
+
+export type ConversationSummary = {
+  conversationId: string;
+  entity: CanonicalEntity;
+  partnerEntity?: CanonicalEntity;
+  turnCount: number;
+  lastReplyText?: string;
+  updatedAt: string;
+};
+
+export type ConversationTurn = {
+  turnId: string;
+  userInput: string | null;
+  assistantText: string;
+  safetyVerdict: "allow" | "transform" | "block";
+  audioUrl?: string;
+  lines?: SpokenLine[];
+  createdAt: string;
+};
+
+export type ConversationDetail = {
+  conversationId: string;
+  entity: CanonicalEntity;
+  partnerEntity?: CanonicalEntity;
+  turns: ConversationTurn[];
+  followupSuggestions: string[];
+  updatedAt: string;
 };
 
 export type Message = {
@@ -49,4 +140,6 @@ export type Message = {
   role: "child" | "object";
   text: string;
   audioUrl?: string;
+  // Which persona said it, in conversations with two.
+  speakerName?: string;
 };